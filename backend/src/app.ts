@@ -4,15 +4,38 @@ import { Server } from 'socket.io';
 import cors from 'cors';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './swaggerConfig';
+import { startClockTicker } from './lib/clockTicker';
+import { ClientToServerEvents, registerSubscriptions, ServerToClientEvents } from './lib/realtime';
 import universityRoutes from './routes/universityRoutes';
 import sportRoutes from './routes/sportRoutes';
+import disciplineRuleRoutes from './routes/disciplineRuleRoutes';
 import fixtureRoutes from './routes/fixtureRoutes';
+import matchEventRoutes from './routes/matchEventRoutes';
+import clockRoutes from './routes/clockRoutes';
 import resultRoutes from './routes/resultRoutes';
 import userRoutes from './routes/userRoutes';
+import authRoutes from './routes/authRoutes';
+import teamRoutes from './routes/teamRoutes';
+import rosterRoutes from './routes/rosterRoutes';
+import athleteRoutes from './routes/athleteRoutes';
+import eligibilityRoutes from './routes/eligibilityRoutes';
+import officialRoutes from './routes/officialRoutes';
+import disciplineRoutes from './routes/disciplineRoutes';
+import medalRoutes from './routes/medalRoutes';
+import competitionRoutes from './routes/competitionRoutes';
+import squadRoutes from './routes/squadRoutes';
+import officialAssignmentRoutes from './routes/officialAssignmentRoutes';
+import tournamentRoutes from './routes/tournamentRoutes';
+import groupRoutes from './routes/groupRoutes';
+import standingsRoutes from './routes/standingsRoutes';
+import bracketRoutes from './routes/bracketRoutes';
+import importRoutes from './routes/importRoutes';
+import venueRoutes from './routes/venueRoutes';
+import scheduleRoutes from './routes/scheduleRoutes';
 // TODO: Add error handling
 const app = express();
 const server = http.createServer(app);
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(server, {
   cors: {
     origin: '*',
     methods: ['GET', 'POST']
@@ -28,13 +51,36 @@ app.use(express.urlencoded({ extended: true }));
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
 app.use('/api/universities', universityRoutes);
+app.use('/api/sports/:sportId/discipline-rules', disciplineRuleRoutes);
 app.use('/api/sports', sportRoutes);
+app.use('/api/fixtures/:fixtureId/events', matchEventRoutes);
+app.use('/api/fixtures/:fixtureId/clock', clockRoutes);
+app.use('/api/fixtures/:fixtureId/squads', squadRoutes);
+app.use('/api/fixtures/:fixtureId/officials', officialAssignmentRoutes);
 app.use('/api/fixtures', fixtureRoutes);
 app.use('/api/results', resultRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/teams/:teamId/roster', rosterRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/athletes', athleteRoutes);
+app.use('/api/eligibility', eligibilityRoutes);
+app.use('/api/officials', officialRoutes);
+app.use('/api/discipline', disciplineRoutes);
+app.use('/api/tournaments', tournamentRoutes);
+app.use('/api/groups', groupRoutes);
+app.use('/api/standings', standingsRoutes);
+app.use('/api/medals', medalRoutes);
+app.use('/api/competitions', competitionRoutes);
+app.use('/api/brackets', bracketRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/venues', venueRoutes);
+app.use('/api/schedules', scheduleRoutes);
 
 const PORT = process.env.PORT || 3000;
 
+registerSubscriptions(io);
+
 io.on('connection', (socket) => {
   console.log('A user connected');
 
@@ -48,5 +94,7 @@ server.listen(PORT, () => {
   console.log(`Swagger documentation available at http://localhost:${PORT}/api-docs`);
 });
 
+startClockTicker(io).catch((error) => console.error('Failed to start the game clock ticker', error));
+
 export { app, io };
 
@@ -0,0 +1,74 @@
+import { ClockState, GameClock, GameStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { RealtimeServer, room } from './realtime';
+import { ClockRules, readClock } from '../utils/clockUtils';
+
+const TICK_MS = 1000;
+const SWEEP_MS = 60 * 1000;
+
+type TrackedClock = { clock: GameClock; rules: ClockRules };
+
+// Running clocks, kept in memory so a tick never waits on the database
+const runningClocks = new Map<string, TrackedClock>();
+
+// Clocks left running on a fixture that still exists and is not finished
+const tickingClockWhere: Prisma.GameClockWhereInput = {
+  state: ClockState.RUNNING,
+  fixture: { OR: [{ result: { is: null } }, { result: { status: { not: GameStatus.FINISHED } } }] },
+};
+
+// Call after every change to a clock so the ticker follows it
+export function trackClock(clock: GameClock, rules: ClockRules) {
+  if (clock.state === ClockState.RUNNING) {
+    runningClocks.set(clock.fixtureId, { clock, rules });
+  } else {
+    runningClocks.delete(clock.fixtureId);
+  }
+}
+
+/**
+ * Stops ticking the clocks of fixtures that were deleted, or finished without
+ * the clock being stopped. A clock changed while the check runs is kept, as
+ * trackClock has already brought it up to date.
+ */
+async function sweepClocks() {
+  const tracked = [...runningClocks.entries()];
+  if (!tracked.length) {
+    return;
+  }
+  const ticking = await prisma.gameClock.findMany({
+    where: { ...tickingClockWhere, fixtureId: { in: tracked.map(([fixtureId]) => fixtureId) } },
+    select: { fixtureId: true },
+  });
+  const keep = new Set(ticking.map((clock) => clock.fixtureId));
+  for (const [fixtureId, entry] of tracked) {
+    if (!keep.has(fixtureId) && runningClocks.get(fixtureId) === entry) {
+      runningClocks.delete(fixtureId);
+    }
+  }
+}
+
+/**
+ * Picks up the clocks left running by a restart and pushes every running
+ * clock's reading to its fixture's room as `clockTick` once a second, so all
+ * screens show the server's time instead of counting on their own.
+ */
+export async function startClockTicker(io: RealtimeServer) {
+  const clocks = await prisma.gameClock.findMany({
+    where: tickingClockWhere,
+    include: { fixture: { include: { sport: true } } },
+  });
+  for (const { fixture, ...clock } of clocks) {
+    trackClock(clock, fixture.sport);
+  }
+
+  setInterval(() => {
+    const now = new Date();
+    for (const { clock, rules } of runningClocks.values()) {
+      io.to(room('fixture', clock.fixtureId)).emit('clockTick', readClock(clock, rules, now));
+    }
+  }, TICK_MS);
+  setInterval(() => {
+    sweepClocks().catch((error) => console.error('Failed to check the running game clocks', error));
+  }, SWEEP_MS);
+}
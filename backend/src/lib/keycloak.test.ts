@@ -0,0 +1,116 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { exportJWK, generateKeyPair, JWTPayload, SignJWT } from 'jose';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Role } from '@prisma/client';
+import { prisma } from './prisma';
+import { provisionKeycloakUser, verifyKeycloakToken } from './keycloak';
+
+vi.mock('./prisma', () => ({
+  prisma: { user: { findUnique: vi.fn(), update: vi.fn(), create: vi.fn() } },
+}));
+
+// The unusable password of a new account is not under test
+vi.mock('bcrypt', () => ({ default: { hash: vi.fn(async () => 'hash') } }));
+
+const users = vi.mocked(prisma.user);
+
+// A mock OIDC issuer serving discovery and the keys it signs tokens with
+let server: http.Server;
+let issuer: string;
+let sign: (claims: JWTPayload) => Promise<string>;
+
+beforeAll(async () => {
+  const { privateKey, publicKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: 'test', alg: 'RS256' };
+  server = http.createServer((req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    if (req.url === '/.well-known/openid-configuration') {
+      return res.end(JSON.stringify({ issuer, jwks_uri: `${issuer}/certs` }));
+    }
+    res.end(JSON.stringify({ keys: [jwk] }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.KEYCLOAK_ISSUER = issuer;
+
+  sign = (claims) =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'RS256', kid: 'test' })
+      .setIssuer(claims.iss ?? issuer)
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(privateKey);
+});
+
+afterAll(() => {
+  server.close();
+  delete process.env.KEYCLOAK_ISSUER;
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  process.env.KEYCLOAK_CLIENT_ID = 'games-app';
+});
+
+describe('verifyKeycloakToken', () => {
+  it('accepts a token for the client in aud or azp', async () => {
+    await expect(verifyKeycloakToken(await sign({ sub: 'u1', aud: 'games-app' }))).resolves.toMatchObject({ sub: 'u1' });
+    await expect(verifyKeycloakToken(await sign({ sub: 'u1', aud: 'account', azp: 'games-app' }))).resolves.toMatchObject({
+      sub: 'u1',
+    });
+  });
+
+  it('rejects a token issued for another client', async () => {
+    await expect(verifyKeycloakToken(await sign({ sub: 'u1', aud: 'account', azp: 'other' }))).rejects.toThrow(
+      'Token was not issued for this client'
+    );
+  });
+
+  it('rejects every token when no client ID is configured', async () => {
+    delete process.env.KEYCLOAK_CLIENT_ID;
+    await expect(verifyKeycloakToken(await sign({ sub: 'u1', aud: 'games-app' }))).rejects.toThrow('KEYCLOAK_CLIENT_ID');
+  });
+
+  it('rejects a token from another issuer', async () => {
+    await expect(verifyKeycloakToken(await sign({ sub: 'u1', aud: 'games-app', iss: 'http://evil.test' }))).rejects.toThrow();
+  });
+});
+
+describe('provisionKeycloakUser', () => {
+  const claims = { sub: 'kc-1', email: 'jane@uni.ac.ke', email_verified: true, name: 'Jane', realm_access: { roles: ['coach'] } };
+  const user = { id: 'user-1', name: 'Jane', email: 'jane@uni.ac.ke', role: Role.STAFF, gender: 'FEMALE', universityId: null };
+
+  it('returns the linked user without changing their role', async () => {
+    users.findUnique.mockResolvedValueOnce(user as never);
+    await expect(provisionKeycloakUser(claims)).resolves.toBe(user);
+    expect(users.update).not.toHaveBeenCalled();
+  });
+
+  it('links an unlinked account by verified email and keeps its role', async () => {
+    users.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'user-1', externalId: null } as never);
+    users.update.mockResolvedValueOnce(user as never);
+    await provisionKeycloakUser(claims);
+    expect(users.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'user-1' }, data: { externalId: 'kc-1' } }));
+  });
+
+  it('never links or creates an account from an unverified email', async () => {
+    users.findUnique.mockResolvedValueOnce(null);
+    await expect(provisionKeycloakUser({ ...claims, email_verified: false })).rejects.toThrow('not verified');
+    expect(users.update).not.toHaveBeenCalled();
+    expect(users.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses an email already linked to another Keycloak user', async () => {
+    users.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'user-1', externalId: 'kc-2' } as never);
+    await expect(provisionKeycloakUser(claims)).rejects.toThrow('another Keycloak user');
+  });
+
+  it('creates a new user with the role from the realm', async () => {
+    users.findUnique.mockResolvedValue(null);
+    await provisionKeycloakUser(claims);
+    expect(users.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ externalId: 'kc-1', role: Role.COACH, gender: 'OTHER' }) })
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
+import { Gender, Role } from '@prisma/client';
+import { prisma } from './prisma';
+import { AuthUser, authUserSelect } from '../utils/authUtils';
+
+interface KeycloakTokenPayload extends JWTPayload {
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  gender?: string;
+  realm_access?: { roles?: string[] };
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  jwks: ReturnType<typeof createRemoteJWKSet>;
+}
+
+// Highest privilege first: a user holding several realm roles gets the strongest
+const rolePrecedence: Role[] = [Role.ADMIN, Role.STAFF, Role.COACH, Role.STUDENT];
+
+let discovery: Promise<OidcDiscovery> | null = null;
+
+export function isKeycloakEnabled(): boolean {
+  return !!(process.env.KEYCLOAK_ISSUER || (process.env.KEYCLOAK_HOST && process.env.KEYCLOAK_REALM));
+}
+
+/**
+ * The expected token issuer. KEYCLOAK_ISSUER overrides the realm URL built
+ * from KEYCLOAK_HOST and KEYCLOAK_REALM, e.g. to point at a mock OIDC issuer.
+ */
+export function getKeycloakIssuer(): string {
+  if (process.env.KEYCLOAK_ISSUER) {
+    return process.env.KEYCLOAK_ISSUER.replace(/\/$/, '');
+  }
+  return `${process.env.KEYCLOAK_HOST!.replace(/\/$/, '')}/realms/${process.env.KEYCLOAK_REALM}`;
+}
+
+async function discover(): Promise<OidcDiscovery> {
+  const issuer = getKeycloakIssuer();
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}`);
+  }
+
+  const config = await response.json();
+  if (config.issuer !== issuer) {
+    throw new Error(`OIDC discovery returned unexpected issuer ${config.issuer}`);
+  }
+
+  return { issuer, jwks: createRemoteJWKSet(new URL(config.jwks_uri)) };
+}
+
+function getDiscovery(): Promise<OidcDiscovery> {
+  if (!discovery) {
+    discovery = discover().catch((error) => {
+      // Retry discovery on the next request instead of caching the failure
+      discovery = null;
+      throw error;
+    });
+  }
+  return discovery;
+}
+
+export function mapRealmRoles(roles: string[] = []): Role {
+  const granted = new Set(roles.map((role) => role.toUpperCase()));
+  return rolePrecedence.find((role) => granted.has(role)) ?? Role.STUDENT;
+}
+
+function mapGender(gender?: string): Gender {
+  const value = gender?.toUpperCase();
+  return value && value in Gender ? (value as Gender) : Gender.OTHER;
+}
+
+/**
+ * Verifies a Keycloak access token against the realm's JWKS. Keycloak puts
+ * the requesting client in `azp` and often only "account" in `aud`, so the
+ * client ID is accepted in either claim. Without KEYCLOAK_CLIENT_ID no token
+ * is accepted, since any client of the realm could have requested it.
+ */
+export async function verifyKeycloakToken(token: string): Promise<KeycloakTokenPayload> {
+  const clientId = process.env.KEYCLOAK_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('KEYCLOAK_CLIENT_ID is not configured');
+  }
+
+  const { issuer, jwks } = await getDiscovery();
+  const { payload } = await jwtVerify<KeycloakTokenPayload>(token, jwks, { issuer });
+
+  const audience = ([] as string[]).concat(payload.aud ?? []);
+  if (!audience.includes(clientId) && payload.azp !== clientId) {
+    throw new Error('Token was not issued for this client');
+  }
+
+  return payload;
+}
+
+/**
+ * Finds the User linked to the token subject, or on first login links the
+ * account with the same email or creates one. Only a verified email is
+ * trusted to link or create an account.
+ *
+ * The realm roles decide the role of an account created here; from then on
+ * the role is managed in the app, so an administrator's change is kept on
+ * later logins.
+ */
+export async function provisionKeycloakUser(payload: KeycloakTokenPayload): Promise<AuthUser> {
+  if (!payload.sub || !payload.email) {
+    throw new Error('Token is missing the subject or email claim');
+  }
+
+  const linked = await prisma.user.findUnique({ where: { externalId: payload.sub }, select: authUserSelect });
+  if (linked) {
+    return linked;
+  }
+  if (payload.email_verified !== true) {
+    throw new Error('Token email is not verified');
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email: payload.email }, select: { id: true, externalId: true } });
+  if (existing) {
+    if (existing.externalId) {
+      throw new Error('The account with this email is linked to another Keycloak user');
+    }
+    return prisma.user.update({
+      where: { id: existing.id },
+      data: { externalId: payload.sub },
+      select: authUserSelect,
+    });
+  }
+
+  // Keycloak users never log in with a local password, so store an unusable one
+  const password = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+
+  return prisma.user.create({
+    data: {
+      externalId: payload.sub,
+      name: payload.name || payload.preferred_username || payload.email,
+      email: payload.email,
+      password,
+      role: mapRealmRoles(payload.realm_access?.roles),
+      gender: mapGender(payload.gender),
+    },
+    select: authUserSelect,
+  });
+}
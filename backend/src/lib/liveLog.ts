@@ -0,0 +1,46 @@
+import { LiveEvent, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+// Updates kept for replay; older ones are pruned as new ones are recorded
+export const LIVE_LOG_SIZE = 5000;
+
+const PRUNE_EVERY = 100;
+
+// Saves an update and returns its sequence number
+export async function recordLiveEvent(name: string, rooms: string[], payload: unknown): Promise<number> {
+  const { seq } = await prisma.liveEvent.create({
+    // Stored as the clients receive it, with dates as strings
+    data: { name, rooms, payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue },
+  });
+  if (seq % PRUNE_EVERY === 0) {
+    await prisma.liveEvent.deleteMany({ where: { seq: { lte: seq - LIVE_LOG_SIZE } } });
+  }
+  return seq;
+}
+
+export async function latestSeq(): Promise<number> {
+  const { _max } = await prisma.liveEvent.aggregate({ _max: { seq: true } });
+  return _max.seq ?? 0;
+}
+
+/**
+ * Finds the updates sent to any of `rooms` after `since`, in order. `events`
+ * is null when the log can no longer tell what was missed: the updates after
+ * `since` have been pruned, or `since` is from before the log was reset.
+ */
+export async function liveEventsSince(
+  since: number,
+  rooms: string[]
+): Promise<{ seq: number; events: LiveEvent[] | null }> {
+  const { _min, _max } = await prisma.liveEvent.aggregate({ _min: { seq: true }, _max: { seq: true } });
+  const seq = _max.seq ?? 0;
+  if (since > seq || (_min.seq !== null && since < _min.seq - 1)) {
+    return { seq, events: null };
+  }
+
+  const events = await prisma.liveEvent.findMany({
+    where: { seq: { gt: since }, rooms: { hasSome: rooms } },
+    orderBy: { seq: 'asc' },
+  });
+  return { seq, events };
+}
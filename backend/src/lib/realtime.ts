@@ -0,0 +1,309 @@
+import { BroadcastOperator, Server, Socket } from 'socket.io';
+import { ClockState, GameStatus, Gender, MatchEvent, Prisma, Result } from '@prisma/client';
+import { prisma } from './prisma';
+import { latestSeq, liveEventsSince } from './liveLog';
+import { ClockReading, readClock } from '../utils/clockUtils';
+import { getStandings, StandingsTable, type getStandingsForFixture } from '../utils/standingsUtils';
+import { getBracketTree } from '../utils/bracketUtils';
+import { getMedalTable, MedalTable } from '../utils/medalUtils';
+import { competitionInclude, CompetitionWithHeats } from '../utils/competitionUtils';
+
+export type RoomKind = 'fixture' | 'sport' | 'university' | 'tournament';
+
+const roomKinds: RoomKind[] = ['fixture', 'sport', 'university', 'tournament'];
+
+// Enough for a results screen following a whole day of finals
+const MAX_ROOMS_PER_SOCKET = 50;
+
+// How far back a snapshot goes for results that are no longer in progress
+const SNAPSHOT_HOURS = 24;
+
+// Sent with every update except clockTick; `seq` increases with each update
+export interface LiveMeta {
+  seq: number;
+}
+
+/**
+ * The events the server pushes, and who receives them. Updates about a
+ * fixture go to its `fixture:`, `sport:` and `tournament:` rooms and to the
+ * `university:` rooms of both teams; standings and brackets go to the
+ * `sport:` and `tournament:` rooms they belong to, as do individual
+ * competitions, and medal tables to the `tournament:` room. Every update but
+ * `clockTick` is numbered and logged, so clients can `replay` what they miss.
+ */
+export interface ServerToClientEvents {
+  // A result was created or changed, including its fixture and periods
+  resultUpdate: (result: Result, meta: LiveMeta) => void;
+  // A result was deleted; the payload is its id
+  resultDelete: (id: string, meta: LiveMeta) => void;
+  // An event was added to, corrected on or removed from a match timeline
+  matchEvent: (update: { action: 'created' | 'updated' | 'deleted'; fixtureId: string; event: MatchEvent }, meta: LiveMeta) => void;
+  // The game clock was started, paused, resumed, ended or corrected
+  clockUpdate: (reading: ClockReading, meta: LiveMeta) => void;
+  // A running clock's reading, once a second; sent to the `fixture:` room only
+  clockTick: (reading: ClockReading) => void;
+  // The recomputed table a fixture counts towards
+  standingsUpdate: (standings: NonNullable<Awaited<ReturnType<typeof getStandingsForFixture>>>, meta: LiveMeta) => void;
+  // A knockout bracket after a finished match moved its winner on
+  bracketUpdate: (bracket: BracketTree, meta: LiveMeta) => void;
+  // A tournament's medal table after a final or third-place match was decided
+  medalUpdate: (table: MedalTable, meta: LiveMeta) => void;
+  // An individual competition with all its heats, after a draw or new results
+  competitionUpdate: (competition: CompetitionWithHeats, meta: LiveMeta) => void;
+}
+
+// The updates that are numbered and logged
+export type LiveEventName = Exclude<keyof ServerToClientEvents, 'clockTick'>;
+
+export type LiveUpdate = {
+  [Name in LiveEventName]: [Name, Parameters<ServerToClientEvents[Name]>[0]];
+}[LiveEventName];
+
+// `seq` is the latest update's number, to pass to `replay` after reconnecting
+export type SubscriptionAck = (reply: { rooms: string[]; seq: number } | { error: string }) => void;
+
+type BracketTree = NonNullable<Awaited<ReturnType<typeof getBracketTree>>>;
+
+// What the rooms carry, for a client too far behind to replay
+export interface LiveSnapshot {
+  // Results in progress or changed in the last day, including their fixture and periods
+  results: Result[];
+  // The clocks and timelines of those results' fixtures
+  clocks: ClockReading[];
+  events: MatchEvent[];
+  // Tables of each sport, tournament and gender category followed, as GET /api/standings returns them
+  standings: { sportId: string; tournamentId: string | null; gender: Gender; tables: StandingsTable[] }[];
+  brackets: BracketTree[];
+  // One per tournament room
+  medals: MedalTable[];
+  competitions: CompetitionWithHeats[];
+}
+
+// Missed updates are sent as events before the ack; too far behind, the ack
+// carries a snapshot to start over from instead
+export type ReplayAck = (reply: { seq: number; replayed: number } | { seq: number; snapshot: LiveSnapshot } | { error: string }) => void;
+
+export interface ClientToServerEvents {
+  // Room names such as `fixture:<id>` or `sport:<id>`; the ack lists the rooms now joined
+  subscribe: (rooms: string[], ack?: SubscriptionAck) => void;
+  unsubscribe: (rooms: string[], ack?: SubscriptionAck) => void;
+  // The last `seq` the client saw, for the rooms it has joined
+  replay: (since: number, ack?: ReplayAck) => void;
+}
+
+export type RealtimeServer = Server<ClientToServerEvents, ServerToClientEvents>;
+
+type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+type LiveTarget = RealtimeSocket | BroadcastOperator<ServerToClientEvents, unknown>;
+
+// Sends a numbered update to a socket or rooms
+export function sendLive(target: LiveTarget, [name, payload]: LiveUpdate, seq: number) {
+  // LiveUpdate pairs each name with its payload, which TypeScript cannot follow
+  // through the destructuring
+  (target.emit as (name: LiveEventName, payload: LiveUpdate[1], meta: LiveMeta) => boolean)(name, payload, { seq });
+}
+
+export function room(kind: RoomKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function isRoom(name: unknown): name is string {
+  if (typeof name !== 'string') {
+    return false;
+  }
+  const [kind, id] = name.split(':', 2);
+  return roomKinds.includes(kind as RoomKind) && !!id;
+}
+
+// The rooms a socket has joined, without its own private room
+function joinedRooms(socket: RealtimeSocket): string[] {
+  return [...socket.rooms].filter((name) => name !== socket.id);
+}
+
+function checkRooms(rooms: unknown): string | null {
+  if (!Array.isArray(rooms) || !rooms.every(isRoom)) {
+    return `rooms must be a list of names such as fixture:<id>, one of ${roomKinds.join(', ')}`;
+  }
+  return null;
+}
+
+// Clients choose what they send as the ack, so only a function is called
+function ackOf<Ack extends (...args: any[]) => void>(ack: Ack | undefined): Ack | undefined {
+  return typeof ack === 'function' ? ack : undefined;
+}
+
+// Acks a subscription change with the rooms now joined
+async function ackRooms(socket: RealtimeSocket, ack?: SubscriptionAck) {
+  let reply: Parameters<SubscriptionAck>[0];
+  try {
+    reply = { rooms: joinedRooms(socket), seq: await latestSeq() };
+  } catch (error) {
+    reply = { error: 'An error occurred while reading the latest live update' };
+  }
+  ack?.(reply);
+}
+
+// Finds what a client missed since `since` in the rooms it has joined
+async function replayReply(socket: RealtimeSocket, since: unknown): Promise<Parameters<ReplayAck>[0]> {
+  if (!Number.isInteger(since) || (since as number) < 0) {
+    return { error: 'since must be the last seq received' };
+  }
+  const rooms = joinedRooms(socket);
+  if (!rooms.length) {
+    return { error: 'Subscribe to rooms before replaying them' };
+  }
+
+  try {
+    const { seq, events } = await liveEventsSince(since as number, rooms);
+    if (!events) {
+      return { seq, snapshot: await liveSnapshot(rooms) };
+    }
+    for (const event of events) {
+      // The log only holds updates that were sent as a LiveUpdate
+      sendLive(socket, [event.name, event.payload] as LiveUpdate, event.seq);
+    }
+    return { seq, replayed: events.length };
+  } catch (error) {
+    return { error: 'An error occurred while replaying live updates' };
+  }
+}
+
+// The current state of everything `rooms` follow
+async function liveSnapshot(rooms: string[]): Promise<LiveSnapshot> {
+  const ids = (kind: RoomKind) => rooms.filter((name) => name.startsWith(`${kind}:`)).map((name) => name.slice(kind.length + 1));
+  const sportIds = ids('sport');
+  const tournamentIds = ids('tournament');
+  const universityIds = ids('university');
+  const fixture: Prisma.FixtureWhereInput = {
+    OR: [
+      { id: { in: ids('fixture') } },
+      { sportId: { in: sportIds } },
+      { tournamentId: { in: tournamentIds } },
+      { homeTeam: { universityId: { in: universityIds } } },
+      { awayTeam: { universityId: { in: universityIds } } },
+    ],
+  };
+  // Standings, brackets and competitions go to sport and tournament rooms
+  const followed = { OR: [{ sportId: { in: sportIds } }, { tournamentId: { in: tournamentIds } }] };
+
+  const [results, leagues, brackets, competitions] = await Promise.all([
+    prisma.result.findMany({
+      where: {
+        fixture,
+        OR: [
+          { status: GameStatus.IN_PROGRESS },
+          { updatedAt: { gte: new Date(Date.now() - SNAPSHOT_HOURS * 60 * 60 * 1000) } },
+        ],
+      },
+      include: { fixture: true, periods: { orderBy: { number: 'asc' } } },
+    }),
+    prisma.fixture.findMany({
+      where: { ...followed, homeTeamId: { not: null }, bracketMatch: { is: null } },
+      select: { sportId: true, tournamentId: true, gender: true },
+      distinct: ['sportId', 'tournamentId', 'gender'],
+    }),
+    prisma.bracket.findMany({ where: followed, select: { id: true } }),
+    prisma.competition.findMany({ where: followed, include: competitionInclude }),
+  ]);
+
+  const fixtureIds = results.map((result) => result.fixtureId);
+  const [clocks, events, standings, trees, medals] = await Promise.all([
+    prisma.gameClock.findMany({
+      where: { fixtureId: { in: fixtureIds }, state: { not: ClockState.NOT_STARTED } },
+      include: { fixture: { include: { sport: true } } },
+    }),
+    prisma.matchEvent.findMany({
+      where: { fixtureId: { in: fixtureIds } },
+      orderBy: [{ period: 'asc' }, { minute: 'asc' }, { createdAt: 'asc' }],
+    }),
+    Promise.all(
+      leagues.map(async ({ sportId, tournamentId, gender }) => ({
+        sportId,
+        tournamentId,
+        gender,
+        tables: await getStandings({ sportId, tournamentId: tournamentId ?? undefined, gender }),
+      }))
+    ),
+    Promise.all(brackets.map((bracket) => getBracketTree(bracket.id))),
+    Promise.all(tournamentIds.map((tournamentId) => getMedalTable(tournamentId))),
+  ]);
+
+  return {
+    results,
+    clocks: clocks.map(({ fixture, ...clock }) => readClock(clock, fixture.sport)),
+    events,
+    standings,
+    brackets: trees.filter((tree): tree is BracketTree => tree !== null),
+    medals,
+    competitions,
+  };
+}
+
+/**
+ * Lets clients choose what they hear about: `subscribe` and `unsubscribe`
+ * join and leave rooms, and the ack reports the rooms joined afterwards and
+ * the latest update's number. After reconnecting, a client re-subscribes and
+ * sends `replay` with the last number it saw.
+ */
+export function registerSubscriptions(io: RealtimeServer) {
+  io.on('connection', (socket) => {
+    socket.on('subscribe', (rooms, callback) => {
+      const ack = ackOf(callback);
+      const error = checkRooms(rooms);
+      if (error) {
+        return ack?.({ error });
+      }
+      const wanted = new Set([...joinedRooms(socket), ...rooms]);
+      if (wanted.size > MAX_ROOMS_PER_SOCKET) {
+        return ack?.({ error: `A connection can follow at most ${MAX_ROOMS_PER_SOCKET} rooms` });
+      }
+      socket.join(rooms);
+      ackRooms(socket, ack).catch((error) => console.error('Failed to acknowledge subscription', error));
+    });
+
+    socket.on('unsubscribe', (rooms, callback) => {
+      const ack = ackOf(callback);
+      const error = checkRooms(rooms);
+      if (error) {
+        return ack?.({ error });
+      }
+      rooms.forEach((name) => socket.leave(name));
+      ackRooms(socket, ack).catch((error) => console.error('Failed to acknowledge unsubscription', error));
+    });
+
+    socket.on('replay', (since, callback) => {
+      const ack = ackOf(callback);
+      replayReply(socket, since)
+        .then((reply) => ack?.(reply))
+        .catch((error) => console.error('Failed to replay live updates', error));
+    });
+  });
+}
+
+// The rooms that hear about a fixture; empty when it no longer exists
+export async function fixtureRooms(fixtureId: string): Promise<string[]> {
+  const fixture = await prisma.fixture.findUnique({
+    where: { id: fixtureId },
+    select: {
+      sportId: true,
+      tournamentId: true,
+      homeTeam: { select: { universityId: true } },
+      awayTeam: { select: { universityId: true } },
+    },
+  });
+  if (!fixture) {
+    return [];
+  }
+
+  const rooms = [room('fixture', fixtureId), room('sport', fixture.sportId)];
+  if (fixture.tournamentId) {
+    rooms.push(room('tournament', fixture.tournamentId));
+  }
+  for (const team of [fixture.homeTeam, fixture.awayTeam]) {
+    if (team) {
+      rooms.push(room('university', team.universityId));
+    }
+  }
+  return [...new Set(rooms)];
+}
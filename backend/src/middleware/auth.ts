@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../lib/prisma';
+import { getKeycloakIssuer, isKeycloakEnabled, provisionKeycloakUser, verifyKeycloakToken } from '../lib/keycloak';
+import { AuthUser, authUserSelect, verifyAccessToken } from '../utils/authUtils';
+import { Permission, ResourceOwner, getPermissionScope, isResourceOwnedBy } from '../utils/permissions';
+
+export type OwnerResolver = (req: Request) => Promise<ResourceOwner | ResourceOwner[] | null>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim();
+}
+
+function isKeycloakToken(token: string): boolean {
+  if (!isKeycloakEnabled()) {
+    return false;
+  }
+  const decoded = jwt.decode(token);
+  return typeof decoded === 'object' && decoded?.iss === getKeycloakIssuer();
+}
+
+async function resolveUser(token: string): Promise<AuthUser | null> {
+  if (isKeycloakToken(token)) {
+    return provisionKeycloakUser(await verifyKeycloakToken(token));
+  }
+
+  const payload = verifyAccessToken(token);
+  return prisma.user.findUnique({
+    where: { id: payload.sub },
+    select: authUserSelect,
+  });
+}
+
+/**
+ * Verifies the bearer access token, either one issued by /api/auth/login or a
+ * Keycloak token when SSO is configured, and attaches the authenticated User
+ * to `req.user`. Responds with 401 when the token is missing or invalid.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<any> {
+  const token = getBearerToken(req);
+  if (!token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const user = await resolveUser(token);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+/**
+ * Lets the very first user be created anonymously so a fresh deployment can
+ * bootstrap an administrator; every later request must be authenticated.
+ * Sets `res.locals.bootstrap` so `authorize` and the handler can tell; the
+ * handler must count the users again as it creates one, since another
+ * request may have bootstrapped in the meantime.
+ */
+export async function authenticateUnlessNoUsers(req: Request, res: Response, next: NextFunction): Promise<any> {
+  try {
+    const userCount = await prisma.user.count();
+    if (userCount === 0) {
+      res.locals.bootstrap = true;
+      return next();
+    }
+  } catch (error) {
+    return res.status(500).json({ error: 'An error occurred while authenticating' });
+  }
+  return authenticate(req, res, next);
+}
+
+/**
+ * Checks that the authenticated user's role grants `permission`. For roles
+ * that only hold the permission on their own resources, `resolveOwner` loads
+ * the owner(s) of the target resource; every one of them must belong to the
+ * user. Responds with 403 when the check fails.
+ */
+export function authorize(permission: Permission, resolveOwner?: OwnerResolver) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+    if (res.locals.bootstrap) {
+      return next();
+    }
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const scope = getPermissionScope(req.user, permission);
+    if (scope === 'any') {
+      return next();
+    }
+    if (!scope || !resolveOwner) {
+      return res.status(403).json({ error: 'You do not have permission to perform this action' });
+    }
+
+    try {
+      const owners = await resolveOwner(req);
+      if (!owners) {
+        return res.status(404).json({ error: 'Resource not found' });
+      }
+      const user = req.user;
+      const allowed = ([] as ResourceOwner[]).concat(owners).every((owner) => isResourceOwnedBy(user, owner));
+      if (!allowed) {
+        return res.status(403).json({ error: 'You do not have permission to perform this action' });
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ error: 'An error occurred while checking permissions' });
+    }
+  };
+}
@@ -0,0 +1,388 @@
+import express from 'express';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { ResourceOwner } from '../utils/permissions';
+import { athleteInclude, publicAthleteSelect } from '../utils/rosterUtils';
+
+const router = express.Router();
+
+const tournamentScope: TournamentScope = (tournamentId) => ({ roster: { some: { team: { university: { tournaments: { some: { id: tournamentId } } } } } } });
+
+// An athlete belongs to the university of their user account
+async function resolveAthleteOwner(req: express.Request): Promise<ResourceOwner | null> {
+  const athlete = await prisma.athlete.findUnique({
+    where: { id: req.params.id },
+    select: { user: { select: { universityId: true } } },
+  });
+  return athlete && athlete.user;
+}
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === null || value === '') {
+    return value === undefined ? undefined : null;
+  }
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * @swagger
+ * /api/athletes:
+ *   get:
+ *     summary: Retrieve a list of athletes
+ *     tags: [Athletes]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by name
+ *       - in: query
+ *         name: universityId
+ *         schema:
+ *           type: string
+ *         description: Filter by university ID
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         description: Filter by gender
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Only athletes on the roster of a team in this tournament
+ *     responses:
+ *       200:
+ *         description: A list of athletes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Athlete'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+router.get('/', async (req, res): Promise<any> => {
+  try {
+    const { universityId, gender, ...options }: QueryOptions = req.query;
+    if (options.sortBy === 'studentNumber' || options.sortBy === 'dateOfBirth') {
+      return res.status(400).json({ error: `Athletes cannot be sorted by ${options.sortBy}` });
+    }
+    const queryOptions: any = buildQueryOptions(options, ['user.name'], tournamentScope);
+    // The university and gender are the user account's
+    if (universityId || gender) {
+      queryOptions.where.user = { universityId, gender };
+    }
+
+    const [athletes, total] = await Promise.all([
+      prisma.athlete.findMany({
+        ...queryOptions,
+        select: { ...publicAthleteSelect, roster: { include: { team: true } } },
+      }),
+      prisma.athlete.count({ where: queryOptions.where }),
+    ]);
+
+    res.json({
+      data: athletes,
+      total,
+      page: options.page || 1,
+      limit: options.limit || 10,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching athletes' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/athletes:
+ *   post:
+ *     summary: Register a user as an athlete
+ *     description: >
+ *       The athlete represents the university of their user account and
+ *       competes in its gender category.
+ *     tags: [Athletes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               studentNumber:
+ *                 type: string
+ *               dateOfBirth:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       201:
+ *         description: Registered athlete
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Athlete'
+ *       400:
+ *         description: Missing user, a user without a university, or an invalid date of birth
+ *       409:
+ *         description: The user is already registered, or the student number is taken
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('athlete:create', async (req) =>
+    prisma.user.findUnique({ where: { id: req.body.userId ?? '' }, select: { universityId: true } })
+  ),
+  async (req, res): Promise<any> => {
+    try {
+      const { userId, studentNumber } = req.body;
+      const dateOfBirth = parseDate(req.body.dateOfBirth);
+      if (!userId) {
+        return res.status(400).json({ error: 'userId is required' });
+      }
+      if (dateOfBirth === undefined && req.body.dateOfBirth !== undefined) {
+        return res.status(400).json({ error: 'dateOfBirth must be a date' });
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: userId }, include: { athlete: true } });
+      if (!user) {
+        return res.status(400).json({ error: 'User not found' });
+      }
+      if (!user.universityId) {
+        return res.status(400).json({ error: 'Only users of a university can be registered as athletes' });
+      }
+      if (user.athlete) {
+        return res.status(409).json({ error: `${user.name} is already registered as an athlete` });
+      }
+      if (studentNumber && (await prisma.athlete.findUnique({ where: { studentNumber } }))) {
+        return res.status(409).json({ error: `Student number ${studentNumber} is already registered` });
+      }
+
+      const athlete = await prisma.athlete.create({
+        data: { userId, studentNumber, dateOfBirth },
+        include: athleteInclude,
+      });
+      res.status(201).json(athlete);
+    } catch (error) {
+      res.status(500).json({ error: 'An error occurred while registering the athlete' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/athletes/{id}:
+ *   get:
+ *     summary: Get an athlete by ID
+ *     tags: [Athletes]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Athlete details with the teams they are registered to
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Athlete'
+ *       404:
+ *         description: Athlete not found
+ */
+router.get('/:id', async (req, res): Promise<any> => {
+  try {
+    const athlete = await prisma.athlete.findUnique({
+      where: { id: req.params.id },
+      select: { ...publicAthleteSelect, roster: { include: { team: { include: { sport: true } } } } },
+    });
+    if (!athlete) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    res.json(athlete);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the athlete' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/athletes/{id}:
+ *   put:
+ *     summary: Update an athlete's profile
+ *     tags: [Athletes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               studentNumber:
+ *                 type: string
+ *               dateOfBirth:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Updated athlete
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Athlete'
+ *       400:
+ *         description: Invalid date of birth
+ *       404:
+ *         description: Athlete not found
+ *       409:
+ *         description: The student number is taken
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id', authenticate, authorize('athlete:update', resolveAthleteOwner), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const { studentNumber } = req.body;
+    const dateOfBirth = parseDate(req.body.dateOfBirth);
+    if (dateOfBirth === undefined && req.body.dateOfBirth !== undefined) {
+      return res.status(400).json({ error: 'dateOfBirth must be a date' });
+    }
+    if (!(await prisma.athlete.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    if (studentNumber) {
+      const holder = await prisma.athlete.findUnique({ where: { studentNumber } });
+      if (holder && holder.id !== id) {
+        return res.status(409).json({ error: `Student number ${studentNumber} is already registered` });
+      }
+    }
+
+    const athlete = await prisma.athlete.update({
+      where: { id },
+      data: { studentNumber, dateOfBirth },
+      include: athleteInclude,
+    });
+    res.json(athlete);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the athlete' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/athletes/{id}:
+ *   delete:
+ *     summary: Delete an athlete's profile
+ *     description: The athlete is also removed from every roster.
+ *     tags: [Athletes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Athlete deleted successfully
+ *       404:
+ *         description: Athlete not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('athlete:delete', resolveAthleteOwner), async (req, res) => {
+  try {
+    await prisma.athlete.delete({ where: { id: req.params.id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while deleting the athlete' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Athlete:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         studentNumber:
+ *           type: string
+ *           nullable: true
+ *           description: Private. Left out of public listings; shown to the athlete, their university and admins through GET /api/eligibility/{athleteId} and when the athlete is registered or updated
+ *         dateOfBirth:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Only shown with the student number
+ *         eligibility:
+ *           type: string
+ *           enum: [NOT_SUBMITTED, PENDING, APPROVED, REJECTED]
+ *           description: Whether the athlete's proof of enrolment is approved
+ *         user:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *             gender:
+ *               type: string
+ *               enum: [MALE, FEMALE, OTHER]
+ *             universityId:
+ *               type: string
+ *         roster:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/RosterEntry'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export default router;
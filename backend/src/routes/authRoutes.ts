@@ -0,0 +1,242 @@
+import express from 'express';
+import bcrypt from 'bcrypt';
+import { prisma } from '../lib/prisma';
+import { authenticate } from '../middleware/auth';
+import {
+  authUserSelect,
+  issueRefreshToken,
+  revokeRefreshToken,
+  rotateRefreshToken,
+  signAccessToken,
+} from '../utils/authUtils';
+import { getPermissions } from '../utils/permissions';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     summary: Log in with email and password
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Access and refresh tokens for the user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: Email and password are required
+ *       401:
+ *         description: Invalid email or password
+ */
+router.post('/login', async (req, res): Promise<any> => {
+  try {
+    const { email, password } = req.body;
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { ...authUserSelect, password: true },
+    });
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    const { password: _password, ...authUser } = user;
+
+    res.json({
+      accessToken: signAccessToken(authUser),
+      refreshToken: await issueRefreshToken(authUser.id),
+      user: authUser,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while logging in' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new token pair
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New access and refresh tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: Refresh token is required
+ *       401:
+ *         description: Invalid or expired refresh token
+ */
+router.post('/refresh', async (req, res): Promise<any> => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const rotated = await rotateRefreshToken(refreshToken);
+    if (!rotated) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    res.json({
+      accessToken: signAccessToken(rotated.user),
+      refreshToken: rotated.refreshToken,
+      user: rotated.user,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while refreshing the token' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Revoke a refresh token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       204:
+ *         description: Logged out successfully
+ *       400:
+ *         description: Refresh token is required
+ */
+router.post('/logout', async (req, res): Promise<any> => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    await revokeRefreshToken(refreshToken);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while logging out' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Get the currently authenticated user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The authenticated user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/me', authenticate, async (req, res) => {
+  res.json(req.user);
+});
+
+/**
+ * @swagger
+ * /api/auth/me/permissions:
+ *   get:
+ *     summary: List the actions the current user may perform
+ *     description: >
+ *       Each permission maps to "any" when it applies to every resource or
+ *       "own" when it only applies to the user's own university or account.
+ *       Permissions the user does not hold are omitted.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The user's role, university and permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 role:
+ *                   type: string
+ *                   enum: [ADMIN, COACH, STUDENT, STAFF]
+ *                 universityId:
+ *                   type: string
+ *                 permissions:
+ *                   type: object
+ *                   additionalProperties:
+ *                     type: string
+ *                     enum: [any, own]
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/me/permissions', authenticate, async (req, res) => {
+  const user = req.user!;
+  res.json({
+    role: user.role,
+    universityId: user.universityId,
+    permissions: getPermissions(user.role),
+  });
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuthTokens:
+ *       type: object
+ *       properties:
+ *         accessToken:
+ *           type: string
+ *         refreshToken:
+ *           type: string
+ *         user:
+ *           $ref: '#/components/schemas/User'
+ */
+
+export default router;
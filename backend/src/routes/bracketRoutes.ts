@@ -0,0 +1,421 @@
+import express from 'express';
+import { BracketSlot, Gender, GameStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { BracketSeed, checkPairings, defaultPairings, getBracketTree, planBracket } from '../utils/bracketUtils';
+import { isDuringTournament } from '../utils/fixtureUtils';
+import { findScheduleConflicts } from '../utils/scheduleUtils';
+import { getStandings } from '../utils/standingsUtils';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/brackets:
+ *   get:
+ *     summary: Retrieve knockout brackets
+ *     tags: [Brackets]
+ *     parameters:
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
+ *       - in: query
+ *         name: sportId
+ *         schema:
+ *           type: string
+ *         description: Filter by sport ID
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         description: Filter by gender category
+ *     responses:
+ *       200:
+ *         description: A list of brackets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Bracket'
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { tournamentId, sportId, gender } = req.query as Record<string, string | undefined>;
+    const brackets = await prisma.bracket.findMany({
+      where: { tournamentId, sportId, gender: gender as Gender | undefined },
+      include: { sport: true },
+    });
+    res.json({ data: brackets });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching brackets' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/brackets:
+ *   post:
+ *     summary: Generate a knockout bracket from the final group standings
+ *     description: >
+ *       Seeds the first round from group positions (e.g. A1 v B2) and creates a
+ *       fixture for every knockout match. Later rounds start as placeholders and
+ *       are filled in automatically as results are finished. Without explicit
+ *       pairings, an even number of groups is crossed A1-B2, B1-A2, and a single
+ *       group is seeded 1 v N.
+ *     tags: [Brackets]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tournamentId
+ *               - sportId
+ *               - gender
+ *               - startTime
+ *             properties:
+ *               tournamentId:
+ *                 type: string
+ *               sportId:
+ *                 type: string
+ *               gender:
+ *                 type: string
+ *                 enum: [MALE, FEMALE, OTHER]
+ *               qualifiersPerGroup:
+ *                 type: integer
+ *                 default: 2
+ *               pairings:
+ *                 type: array
+ *                 description: >
+ *                   Explicit first-round pairings of group positions. Each of the
+ *                   top qualifiersPerGroup places of every group must appear once.
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 example: [["A1", "B2"], ["B1", "A2"]]
+ *               thirdPlace:
+ *                 type: boolean
+ *                 default: true
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Kickoff of the first knockout round
+ *               roundIntervalMinutes:
+ *                 type: integer
+ *                 default: 1440
+ *                 description: Time between the kickoffs of consecutive rounds
+ *               venueId:
+ *                 type: string
+ *                 description: Venue of every knockout match; can be set per fixture later
+ *               force:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Seed even though group matches are unfinished
+ *     responses:
+ *       201:
+ *         description: The created bracket tree
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Bracket'
+ *       400:
+ *         description: Invalid pairings or options, or the rounds run outside the tournament dates
+ *       404:
+ *         description: Tournament not found
+ *       409:
+ *         description: >
+ *           A bracket already exists, the group stage is unfinished, or a
+ *           knockout match clashes with another fixture at its venue or of its teams
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('bracket:create'), async (req, res): Promise<any> => {
+  try {
+    const { tournamentId, sportId, gender, pairings, venueId, force } = req.body;
+    const qualifiersPerGroup = req.body.qualifiersPerGroup ? parseInt(req.body.qualifiersPerGroup) : 2;
+    const roundIntervalMinutes = req.body.roundIntervalMinutes ? parseInt(req.body.roundIntervalMinutes) : 1440;
+    const thirdPlace = req.body.thirdPlace !== false;
+    if (!Number.isInteger(qualifiersPerGroup) || qualifiersPerGroup < 1) {
+      return res.status(400).json({ error: 'qualifiersPerGroup must be a positive whole number' });
+    }
+    const start = new Date(req.body.startTime);
+    if (isNaN(start.getTime()) || !(roundIntervalMinutes > 0)) {
+      return res.status(400).json({ error: 'A valid startTime and roundIntervalMinutes are required' });
+    }
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) {
+      return res.status(404).json({ error: 'Tournament not found' });
+    }
+
+    const existing = await prisma.bracket.findUnique({
+      where: { tournamentId_sportId_gender: { tournamentId, sportId, gender: gender as Gender } },
+    });
+    if (existing) {
+      return res.status(409).json({ error: 'A bracket already exists for this sport and category' });
+    }
+
+    const groups = await prisma.group.findMany({
+      where: { tournamentId, sportId, gender: gender as Gender },
+      include: { fixtures: { include: { result: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    const unfinished = groups
+      .flatMap((group) => group.fixtures)
+      .filter((fixture) => fixture.result?.status !== GameStatus.FINISHED);
+    if (unfinished.length && !force) {
+      return res.status(409).json({ error: `${unfinished.length} group matches are not finished yet` });
+    }
+
+    const groupNames = groups.map((group) => group.name);
+    if (pairings !== undefined) {
+      const problem = checkPairings(pairings, groupNames, qualifiersPerGroup);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+    }
+    const seeds: [string, string][] | null = pairings ?? defaultPairings(groupNames, qualifiersPerGroup);
+    if (!seeds) {
+      return res.status(400).json({ error: 'This group layout has no default pairings; pass pairings explicitly' });
+    }
+
+    // Resolve labels such as "A1" to the team placed first in group A
+    const tables = await getStandings({ sportId, tournamentId, gender: gender as Gender });
+    const placings = new Map<string, string>();
+    for (const table of tables) {
+      table.standings.forEach((row, index) => {
+        placings.set(`${table.group?.name}${index + 1}`.toUpperCase(), row.team.id);
+      });
+    }
+
+    const unknown = seeds.flat().filter((label) => !placings.has(label.toUpperCase()));
+    if (unknown.length) {
+      return res.status(400).json({ error: `Unknown group positions: ${unknown.join(', ')}` });
+    }
+
+    const toSeed = (label: string): BracketSeed => ({ label, teamId: placings.get(label.toUpperCase())! });
+    let plan;
+    try {
+      plan = planBracket(seeds.map(([home, away]) => [toSeed(home), toSeed(away)]), thirdPlace);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+
+    const kickoff = (round: number) => new Date(start.getTime() + (round - 1) * roundIntervalMinutes * 60 * 1000);
+    const lastKickoff = kickoff(Math.max(...plan.map((match) => match.round)));
+    if (!isDuringTournament(tournament, start) || !isDuringTournament(tournament, lastKickoff)) {
+      return res.status(400).json({
+        error: `The knockout rounds run from ${start.toISOString()} to ${lastKickoff.toISOString()}, outside the tournament dates`,
+      });
+    }
+
+    // Later rounds have no teams yet, so only their venue can clash
+    const clashes = await Promise.all(
+      plan.map((match) =>
+        findScheduleConflicts({
+          sportId,
+          date: kickoff(match.round),
+          venueId: venueId || null,
+          venueName: null,
+          homeTeamId: match.home.teamId,
+          awayTeamId: match.away.teamId,
+        })
+      )
+    );
+    const conflicts = clashes.flat();
+    if (conflicts.length) {
+      return res.status(409).json({ error: 'The knockout matches clash with other fixtures', conflicts });
+    }
+
+    const bracketId = await prisma.$transaction(async (tx) => {
+      const bracket = await tx.bracket.create({
+        data: { tournamentId, sportId, gender: gender as Gender },
+      });
+
+      // Create later rounds first so earlier matches can link to them
+      const ids = new Map<string, string>();
+      for (const match of [...plan].sort((a, b) => b.round - a.round)) {
+        const fixture = await tx.fixture.create({
+          data: {
+            tournamentId,
+            sportId,
+            gender: gender as Gender,
+            homeTeamId: match.home.teamId,
+            awayTeamId: match.away.teamId,
+            date: kickoff(match.round),
+            venueId: venueId || null,
+          },
+        });
+        const created = await tx.bracketMatch.create({
+          data: {
+            bracketId: bracket.id,
+            fixtureId: fixture.id,
+            stage: match.stage,
+            round: match.round,
+            position: match.position,
+            homeSource: match.home.label,
+            awaySource: match.away.label,
+            winnerToId: match.winnerTo && ids.get(match.winnerTo.key),
+            winnerSlot: match.winnerTo?.slot as BracketSlot | undefined,
+            loserToId: match.loserTo && ids.get(match.loserTo.key),
+            loserSlot: match.loserTo?.slot as BracketSlot | undefined,
+          },
+        });
+        ids.set(match.key, created.id);
+      }
+
+      return bracket.id;
+    });
+
+    res.status(201).json(await getBracketTree(bracketId));
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while generating the bracket' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/brackets/{id}:
+ *   get:
+ *     summary: Get a bracket tree
+ *     tags: [Brackets]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The bracket with its matches grouped by round
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Bracket'
+ *       404:
+ *         description: Bracket not found
+ */
+router.get('/:id', async (req, res): Promise<any> => {
+  try {
+    const bracket = await getBracketTree(req.params.id);
+    if (!bracket) {
+      return res.status(404).json({ error: 'Bracket not found' });
+    }
+    res.json(bracket);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the bracket' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/brackets/{id}:
+ *   delete:
+ *     summary: Delete a bracket and its fixtures
+ *     tags: [Brackets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Bracket deleted successfully
+ *       409:
+ *         description: Knockout matches have already been played
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('bracket:delete'), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const played = await prisma.result.count({ where: { fixture: { bracketMatch: { bracketId: id } } } });
+    if (played) {
+      return res.status(409).json({ error: 'Knockout matches have already been played' });
+    }
+
+    await prisma.$transaction([
+      prisma.fixture.deleteMany({ where: { bracketMatch: { bracketId: id } } }),
+      prisma.bracket.delete({ where: { id } }),
+    ]);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while deleting the bracket' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BracketMatch:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         stage:
+ *           type: string
+ *           enum: [ROUND_OF_32, ROUND_OF_16, QUARTER_FINAL, SEMI_FINAL, THIRD_PLACE, FINAL]
+ *         round:
+ *           type: integer
+ *         position:
+ *           type: integer
+ *         homeSource:
+ *           type: string
+ *           example: A1
+ *         awaySource:
+ *           type: string
+ *           example: Winner QF2
+ *         winnerToId:
+ *           type: string
+ *         winnerSlot:
+ *           type: string
+ *           enum: [HOME, AWAY]
+ *         loserToId:
+ *           type: string
+ *         loserSlot:
+ *           type: string
+ *           enum: [HOME, AWAY]
+ *         fixture:
+ *           $ref: '#/components/schemas/Fixture'
+ *     Bracket:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         tournamentId:
+ *           type: string
+ *         sportId:
+ *           type: string
+ *         gender:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         rounds:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               round:
+ *                 type: integer
+ *               matches:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/BracketMatch'
+ */
+
+export default router;
@@ -0,0 +1,210 @@
+import express from 'express';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { trackClock } from '../lib/clockTicker';
+import { emitToFixture } from '../utils/broadcastUtils';
+import { applyClockAction, ClockAction, clockActionError, clockActions, clockNotStarted, readClock } from '../utils/clockUtils';
+
+// Mounted under /api/fixtures/:fixtureId/clock
+const router = express.Router({ mergeParams: true });
+
+type ClockParams = { fixtureId: string; action: string };
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/clock:
+ *   get:
+ *     summary: Read a fixture's game clock
+ *     tags: [Game Clock]
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The clock as the server reads it now
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClockReading'
+ *       400:
+ *         description: The sport is not played to a clock
+ *       404:
+ *         description: Fixture not found
+ */
+router.get('/', async (req: express.Request<ClockParams>, res): Promise<any> => {
+  try {
+    const fixture = await prisma.fixture.findUnique({
+      where: { id: req.params.fixtureId },
+      include: { sport: true, clock: true },
+    });
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+    if (!fixture.sport.periodMinutes) {
+      return res.status(400).json({ error: `${fixture.sport.name} is not played to a clock` });
+    }
+
+    res.json(readClock(fixture.clock ?? { ...clockNotStarted, fixtureId: fixture.id }, fixture.sport));
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while reading the game clock' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/clock/{action}:
+ *   post:
+ *     summary: Start, pause, resume or end a period on the game clock
+ *     description: >
+ *       `start` kicks off the next period (periods after the sport's
+ *       periodCount are overtime), `pause` and `resume` stop and restart the
+ *       clock, `end-period` blows the whistle for a break, or for full time
+ *       after the last regulation or overtime period, `added-time`
+ *       announces stoppage `minutes` and `adjust` corrects the `seconds` played
+ *       in the period. The new reading is pushed to Socket.IO clients as
+ *       `clockUpdate`, and running clocks are pushed every second as
+ *       `clockTick`. The result's currentPeriod and timeElapsed follow the
+ *       clock.
+ *     tags: [Game Clock]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: action
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [start, pause, resume, end-period, added-time, adjust]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               minutes:
+ *                 type: integer
+ *                 description: Added minutes, for added-time
+ *               seconds:
+ *                 type: integer
+ *                 description: Seconds played in the period, for adjust
+ *     responses:
+ *       200:
+ *         description: The clock after the action
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClockReading'
+ *       400:
+ *         description: Unknown action, invalid minutes or seconds, or the sport is not played to a clock
+ *       404:
+ *         description: Fixture not found
+ *       409:
+ *         description: The action is not possible in the clock's current state, or the clock was changed at the same time
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/:action', authenticate, authorize('result:update'), async (req: express.Request<ClockParams>, res): Promise<any> => {
+  try {
+    const action = req.params.action as ClockAction;
+    if (!clockActions.includes(action)) {
+      return res.status(400).json({ error: `action must be one of ${clockActions.join(', ')}` });
+    }
+
+    const fixture = await prisma.fixture.findUnique({
+      where: { id: req.params.fixtureId },
+      include: { sport: true, clock: true },
+    });
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+    if (!fixture.sport.periodMinutes) {
+      return res.status(400).json({ error: `${fixture.sport.name} is not played to a clock` });
+    }
+
+    const options = {
+      minutes: req.body?.minutes !== undefined ? Number(req.body.minutes) : undefined,
+      seconds: req.body?.seconds !== undefined ? Number(req.body.seconds) : undefined,
+    };
+    const current = fixture.clock ?? clockNotStarted;
+    const stateError = clockActionError(current.state, action);
+    if (stateError) {
+      return res.status(409).json({ error: stateError });
+    }
+    const change = applyClockAction(current, action, options, fixture.sport);
+    if (typeof change === 'string') {
+      return res.status(400).json({ error: change });
+    }
+
+    // Only applies to the clock as it was read; a change made in between wins
+    const saved = fixture.clock
+      ? await prisma.gameClock.updateMany({
+          where: { id: fixture.clock.id, version: fixture.clock.version },
+          data: { ...change, version: { increment: 1 } },
+        })
+      : await prisma.gameClock.createMany({ data: [{ ...change, fixtureId: fixture.id }], skipDuplicates: true });
+    if (saved.count !== 1) {
+      return res.status(409).json({ error: 'The clock was changed at the same time; read it again and retry' });
+    }
+    const clock = await prisma.gameClock.findUniqueOrThrow({ where: { fixtureId: fixture.id } });
+    trackClock(clock, fixture.sport);
+
+    const reading = readClock(clock, fixture.sport);
+    await prisma.result.updateMany({
+      where: { fixtureId: fixture.id },
+      data: { currentPeriod: reading.label, timeElapsed: Math.floor(reading.matchSeconds / 60) },
+    });
+
+    emitToFixture(fixture.id, ['clockUpdate', reading]);
+    res.json(reading);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the game clock' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ClockReading:
+ *       type: object
+ *       properties:
+ *         fixtureId:
+ *           type: string
+ *         state:
+ *           type: string
+ *           enum: [NOT_STARTED, RUNNING, PAUSED, BREAK, FULL_TIME]
+ *         period:
+ *           type: integer
+ *           description: 0 before kick-off
+ *         label:
+ *           type: string
+ *           example: 2nd half
+ *         elapsedSeconds:
+ *           type: integer
+ *           description: Time played in the current period
+ *         matchSeconds:
+ *           type: integer
+ *           description: Time played in the match
+ *         periodSeconds:
+ *           type: integer
+ *         remainingSeconds:
+ *           type: integer
+ *         addedMinutes:
+ *           type: integer
+ *         display:
+ *           type: string
+ *           example: "45:00+01:30"
+ *         serverTime:
+ *           type: string
+ *           format: date-time
+ */
+
+export default router;
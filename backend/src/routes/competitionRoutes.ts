@@ -0,0 +1,993 @@
+import express from 'express';
+import { EligibilityStatus, EntryStatus, GameStatus, Gender, HeatStage, MarkType, SportType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { buildQueryOptions, QueryOptions } from '../utils/queryUtils';
+import {
+  competitionInclude,
+  drawHeats,
+  heatInclude,
+  parseMark,
+  rankCompetition,
+  rankHeat,
+  SeededEntrant,
+  selectQualifiers,
+  sortBySeedMark,
+} from '../utils/competitionUtils';
+import { emitCompetitionUpdate, emitHeatMedalUpdate } from '../utils/broadcastUtils';
+
+const router = express.Router();
+
+type HeatParams = { id: string; heatId: string };
+
+const isCount = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
+
+function validateCompetition(markType: unknown, lanes: unknown): string | null {
+  if (markType !== undefined && !Object.values(MarkType).includes(markType as MarkType)) {
+    return `markType must be one of ${Object.values(MarkType).join(', ')}`;
+  }
+  if (lanes !== undefined && !isCount(lanes, 1)) {
+    return 'lanes must be a whole number of 1 or more';
+  }
+  return null;
+}
+
+async function loadCompetition(id: string) {
+  return prisma.competition.findUnique({ where: { id }, include: competitionInclude });
+}
+
+/**
+ * Reads the entrants of a first round: athletes of the competition's gender
+ * whose eligibility is approved, each entered once with an optional seed mark.
+ */
+async function parseEntrants(value: unknown, markType: MarkType, gender: Gender): Promise<SeededEntrant[] | string> {
+  if (!Array.isArray(value) || !value.length) {
+    return 'entries must list at least one athlete';
+  }
+  const entrants: SeededEntrant[] = [];
+  for (const entry of value) {
+    const seedMark = parseMark(entry?.seedMark, markType);
+    if (typeof entry?.athleteId !== 'string' || seedMark === undefined) {
+      return 'Each entry needs an athleteId, and a seedMark if given must be a valid mark';
+    }
+    entrants.push({ athleteId: entry.athleteId, seedMark });
+  }
+
+  const athleteIds = entrants.map((entrant) => entrant.athleteId);
+  if (new Set(athleteIds).size !== athleteIds.length) {
+    return 'An athlete can only be entered once';
+  }
+  const athletes = await prisma.athlete.findMany({ where: { id: { in: athleteIds } }, include: { user: true } });
+  const missing = athleteIds.filter((id) => !athletes.some((athlete) => athlete.id === id));
+  if (missing.length) {
+    return `Athletes not found: ${missing.join(', ')}`;
+  }
+  const wrongGender = athletes.filter((athlete) => athlete.user.gender !== gender);
+  if (wrongGender.length) {
+    return `Not in the ${gender} category: ${wrongGender.map((athlete) => athlete.user.name).join(', ')}`;
+  }
+  const ineligible = athletes.filter((athlete) => athlete.eligibility !== EligibilityStatus.APPROVED);
+  if (ineligible.length) {
+    return `Eligibility not approved: ${ineligible.map((athlete) => athlete.user.name).join(', ')}`;
+  }
+  return entrants;
+}
+
+interface EntryResult {
+  athleteId: string;
+  mark: number | null;
+  rank: number | null;
+  status: EntryStatus;
+}
+
+function parseResults(value: unknown, markType: MarkType): EntryResult[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const results: EntryResult[] = [];
+  for (const entry of value) {
+    const mark = parseMark(entry?.mark, markType);
+    const rank = entry?.rank ?? null;
+    const status = entry?.status ?? EntryStatus.OK;
+    if (
+      typeof entry?.athleteId !== 'string' ||
+      mark === undefined ||
+      (rank !== null && !isCount(rank, 1)) ||
+      !Object.values(EntryStatus).includes(status)
+    ) {
+      return null;
+    }
+    results.push({ athleteId: entry.athleteId, mark, rank, status });
+  }
+  return results;
+}
+
+/**
+ * @swagger
+ * /api/competitions:
+ *   get:
+ *     summary: Retrieve individual competitions
+ *     tags: [Competitions]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *         description: Field to sort by
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Sort order
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by competition or sport name
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
+ *       - in: query
+ *         name: sportId
+ *         schema:
+ *           type: string
+ *         description: Filter by sport ID
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         description: Filter by gender category
+ *     responses:
+ *       200:
+ *         description: A list of competitions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Competition'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+router.get('/', async (req, res) => {
+  try {
+    const options: QueryOptions = req.query;
+    const queryOptions: any = buildQueryOptions(options, ['name', 'sport.name']);
+
+    const [competitions, total] = await Promise.all([
+      prisma.competition.findMany({
+        ...queryOptions,
+        include: { sport: true, tournament: true },
+      }),
+      prisma.competition.count({ where: queryOptions.where }),
+    ]);
+
+    res.json({
+      data: competitions,
+      total,
+      page: options.page || 1,
+      limit: options.limit || 10,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching competitions' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions:
+ *   post:
+ *     summary: Create an individual competition
+ *     description: >
+ *       An event such as the 100m or the long jump in which many athletes
+ *       compete at once, in heats, rather than two teams in a fixture.
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - sportId
+ *               - gender
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: 100m
+ *               sportId:
+ *                 type: string
+ *               tournamentId:
+ *                 type: string
+ *               gender:
+ *                 type: string
+ *                 enum: [MALE, FEMALE, OTHER]
+ *               markType:
+ *                 type: string
+ *                 enum: [TIME, DISTANCE, POINTS, RANK]
+ *                 default: TIME
+ *                 description: >
+ *                   Lower is better for TIME, higher for DISTANCE and POINTS;
+ *                   RANK competitions record only finishing places
+ *               lanes:
+ *                 type: integer
+ *                 default: 8
+ *                 description: Lanes, or places, in each heat
+ *     responses:
+ *       201:
+ *         description: The created competition
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Competition'
+ *       400:
+ *         description: Invalid input, or a team sport
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('competition:create'), async (req, res): Promise<any> => {
+  try {
+    const { name, sportId, tournamentId, gender, markType, lanes } = req.body;
+    if (!name || !sportId || !Object.values(Gender).includes(gender)) {
+      return res.status(400).json({ error: 'name, sportId and a gender of MALE, FEMALE or OTHER are required' });
+    }
+    const validationError = validateCompetition(markType, lanes);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const sport = await prisma.sport.findUnique({ where: { id: sportId } });
+    if (!sport) {
+      return res.status(400).json({ error: 'Sport not found' });
+    }
+    if (sport.type === SportType.TEAM) {
+      return res.status(400).json({ error: `${sport.name} is a team sport; schedule fixtures between teams instead` });
+    }
+    if (tournamentId && !(await prisma.tournament.findUnique({ where: { id: tournamentId } }))) {
+      return res.status(400).json({ error: 'Tournament not found' });
+    }
+
+    const competition = await prisma.competition.create({
+      data: { name, sportId, tournamentId: tournamentId || null, gender, markType, lanes },
+      include: competitionInclude,
+    });
+    res.status(201).json(competition);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while creating the competition' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}:
+ *   get:
+ *     summary: Get a competition with its heats and results
+ *     tags: [Competitions]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The competition, its heats by round
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Competition'
+ *       404:
+ *         description: Competition not found
+ */
+router.get('/:id', async (req, res): Promise<any> => {
+  try {
+    const competition = await loadCompetition(req.params.id);
+    if (!competition) {
+      return res.status(404).json({ error: 'Competition not found' });
+    }
+    res.json(competition);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the competition' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}:
+ *   put:
+ *     summary: Update a competition
+ *     description: The mark type and number of lanes can only change before heats are drawn.
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               markType:
+ *                 type: string
+ *                 enum: [TIME, DISTANCE, POINTS, RANK]
+ *               lanes:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: The updated competition
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Competition not found
+ *       409:
+ *         description: Heats have been drawn
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id', authenticate, authorize('competition:update'), async (req, res): Promise<any> => {
+  try {
+    const { name, markType, lanes } = req.body;
+    const validationError = validateCompetition(markType, lanes);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const current = await loadCompetition(req.params.id);
+    if (!current) {
+      return res.status(404).json({ error: 'Competition not found' });
+    }
+    const redraws = (markType !== undefined && markType !== current.markType) || (lanes !== undefined && lanes !== current.lanes);
+    if (redraws && current.heats.length) {
+      return res.status(409).json({ error: 'Heats have been drawn; the mark type and lanes can no longer change' });
+    }
+
+    const competition = await prisma.competition.update({
+      where: { id: current.id },
+      data: { name, markType, lanes },
+      include: competitionInclude,
+    });
+    res.json(competition);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the competition' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}:
+ *   delete:
+ *     summary: Delete a competition with its heats, results and medals
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Competition deleted
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('competition:delete'), async (req, res) => {
+  try {
+    await prisma.competition.delete({ where: { id: req.params.id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while deleting the competition' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/heats:
+ *   post:
+ *     summary: Draw the first round
+ *     description: >
+ *       Seeds the entrants by their entry marks, best first (entrants without
+ *       one last), and spreads them over the heats in a serpentine so the
+ *       heats are equally strong. The best seeds in each heat get the middle
+ *       lanes. A single heat is the final.
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entries
+ *             properties:
+ *               entries:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - athleteId
+ *                   properties:
+ *                     athleteId:
+ *                       type: string
+ *                     seedMark:
+ *                       oneOf:
+ *                         - type: number
+ *                         - type: string
+ *                       example: '10.54'
+ *                       description: Entry mark; times may be written as 1:02.35
+ *               heats:
+ *                 type: integer
+ *                 description: Number of heats; by default as few as the lanes allow
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               venueId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: The competition with its drawn heats
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Competition'
+ *       400:
+ *         description: >
+ *           Invalid entries, athletes outside the category or without approved
+ *           eligibility, or more entrants per heat than lanes
+ *       404:
+ *         description: Competition not found
+ *       409:
+ *         description: Heats have already been drawn
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/:id/heats', authenticate, authorize('competition:update'), async (req, res): Promise<any> => {
+  try {
+    const competition = await loadCompetition(req.params.id);
+    if (!competition) {
+      return res.status(404).json({ error: 'Competition not found' });
+    }
+    if (competition.heats.length) {
+      return res.status(409).json({ error: 'Heats have already been drawn for this competition' });
+    }
+    const entrants = await parseEntrants(req.body.entries, competition.markType, competition.gender);
+    if (typeof entrants === 'string') {
+      return res.status(400).json({ error: entrants });
+    }
+    const heatCount = req.body.heats ?? Math.ceil(entrants.length / competition.lanes);
+    if (!isCount(heatCount, 1) || heatCount > entrants.length || Math.ceil(entrants.length / heatCount) > competition.lanes) {
+      return res.status(400).json({
+        error: `heats must be a whole number from 1 to ${entrants.length}, with at most ${competition.lanes} entrants in each`,
+      });
+    }
+
+    const { date, venueId } = req.body;
+    const stage = heatCount === 1 ? HeatStage.FINAL : HeatStage.HEAT;
+    await prisma.$transaction(
+      drawHeats(sortBySeedMark(competition.markType, entrants), heatCount, competition.lanes).map((heat) =>
+        prisma.heat.create({
+          data: {
+            competitionId: competition.id,
+            round: 1,
+            number: heat.number,
+            stage,
+            date: date ? new Date(date) : null,
+            venueId: venueId || null,
+            entries: { create: heat.entries },
+          },
+        })
+      )
+    );
+
+    const drawn = (await loadCompetition(competition.id))!;
+    emitCompetitionUpdate(drawn);
+    res.status(201).json(drawn);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while drawing the heats' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/advance:
+ *   post:
+ *     summary: Draw the next round from the finished one
+ *     description: >
+ *       The first byPlace of each heat go through ("Q"), then the best byMark
+ *       of the rest across all heats ("q"). Qualifiers are seeded on their
+ *       marks in the round just finished. A single heat is the final.
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - byPlace
+ *             properties:
+ *               byPlace:
+ *                 type: integer
+ *                 example: 2
+ *               byMark:
+ *                 type: integer
+ *                 default: 0
+ *                 example: 2
+ *               heats:
+ *                 type: integer
+ *                 default: 1
+ *               stage:
+ *                 type: string
+ *                 enum: [HEAT, SEMI_FINAL]
+ *                 default: SEMI_FINAL
+ *                 description: The stage of the next round when it has more than one heat
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               venueId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: The competition with the new round
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Competition'
+ *       400:
+ *         description: Invalid options, or more qualifiers per heat than lanes
+ *       404:
+ *         description: Competition not found
+ *       409:
+ *         description: No round drawn yet, the latest round is unfinished, or the final has been drawn
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/:id/advance', authenticate, authorize('competition:update'), async (req, res): Promise<any> => {
+  try {
+    const { byPlace, byMark = 0, heats: heatCount = 1, stage = HeatStage.SEMI_FINAL, date, venueId } = req.body;
+    if (!isCount(byPlace, 0) || !isCount(byMark, 0) || !isCount(heatCount, 1) || (stage !== HeatStage.HEAT && stage !== HeatStage.SEMI_FINAL)) {
+      return res.status(400).json({ error: 'byPlace and byMark must be whole numbers, heats at least 1 and stage HEAT or SEMI_FINAL' });
+    }
+    const competition = await loadCompetition(req.params.id);
+    if (!competition) {
+      return res.status(404).json({ error: 'Competition not found' });
+    }
+    const round = Math.max(0, ...competition.heats.map((heat) => heat.round));
+    const latest = competition.heats.filter((heat) => heat.round === round);
+    if (!latest.length) {
+      return res.status(409).json({ error: 'Draw the first round before advancing' });
+    }
+    if (latest.some((heat) => heat.stage === HeatStage.FINAL)) {
+      return res.status(409).json({ error: 'The final has already been drawn' });
+    }
+    if (latest.some((heat) => heat.status !== GameStatus.FINISHED)) {
+      return res.status(409).json({ error: `Every heat of round ${round} must be finished first` });
+    }
+
+    const qualifiers = selectQualifiers(competition.markType, latest, byPlace, byMark);
+    if (!qualifiers.length || heatCount > qualifiers.length || Math.ceil(qualifiers.length / heatCount) > competition.lanes) {
+      return res.status(400).json({
+        error: `${qualifiers.length} athletes qualify; the next round needs at least one, in no more heats than that and at most ${competition.lanes} in each`,
+      });
+    }
+
+    const entryIds = latest.flatMap((heat) => heat.entries).map((entry) => entry.id);
+    const nextStage = heatCount === 1 ? HeatStage.FINAL : stage;
+    await prisma.$transaction([
+      prisma.heatEntry.updateMany({ where: { id: { in: entryIds } }, data: { qualified: null } }),
+      ...qualifiers.map((qualifier) =>
+        prisma.heatEntry.updateMany({
+          where: { id: { in: entryIds }, athleteId: qualifier.athleteId },
+          data: { qualified: qualifier.qualified },
+        })
+      ),
+      ...drawHeats(qualifiers, heatCount, competition.lanes).map((heat) =>
+        prisma.heat.create({
+          data: {
+            competitionId: competition.id,
+            round: round + 1,
+            number: heat.number,
+            stage: nextStage,
+            date: date ? new Date(date) : null,
+            venueId: venueId || null,
+            entries: { create: heat.entries },
+          },
+        })
+      ),
+    ]);
+
+    const advanced = (await loadCompetition(competition.id))!;
+    emitCompetitionUpdate(advanced);
+    res.status(201).json(advanced);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while drawing the next round' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/heats/{heatId}:
+ *   put:
+ *     summary: Schedule a heat
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: heatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               venueId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: The updated heat
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Heat'
+ *       404:
+ *         description: Heat not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id/heats/:heatId', authenticate, authorize('competition:update'), async (req: express.Request<HeatParams>, res): Promise<any> => {
+  try {
+    const { id, heatId } = req.params;
+    const { date, venueId } = req.body;
+    if (!(await prisma.heat.findFirst({ where: { id: heatId, competitionId: id } }))) {
+      return res.status(404).json({ error: 'Heat not found' });
+    }
+
+    const heat = await prisma.heat.update({
+      where: { id: heatId },
+      data: {
+        date: date === undefined ? undefined : date ? new Date(date) : null,
+        venueId: venueId === undefined ? undefined : venueId || null,
+      },
+      include: heatInclude,
+    });
+    res.json(heat);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the heat' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/heats/{heatId}/results:
+ *   put:
+ *     summary: Record the results of a heat
+ *     description: >
+ *       Updates the marks of the athletes listed and places the heat by mark,
+ *       entrants level on mark sharing a place; RANK competitions take the
+ *       places as given. Finishing a final awards its medals. Results can no
+ *       longer change once the next round has been drawn from the heat.
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: heatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [NOT_STARTED, IN_PROGRESS, FINISHED, POSTPONED, CANCELLED]
+ *               results:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - athleteId
+ *                   properties:
+ *                     athleteId:
+ *                       type: string
+ *                     mark:
+ *                       oneOf:
+ *                         - type: number
+ *                         - type: string
+ *                       example: '1:02.35'
+ *                       description: Seconds, metres or points; times may be written as clock readings
+ *                     rank:
+ *                       type: integer
+ *                       description: The place, for RANK competitions
+ *                     status:
+ *                       type: string
+ *                       enum: [OK, DNS, DNF, DQ]
+ *                       default: OK
+ *     responses:
+ *       200:
+ *         description: The heat, placed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Heat'
+ *       400:
+ *         description: Invalid results, or athletes not in the heat
+ *       404:
+ *         description: Heat not found
+ *       409:
+ *         description: The next round has been drawn from this heat
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id/heats/:heatId/results', authenticate, authorize('result:update'), async (req: express.Request<HeatParams>, res): Promise<any> => {
+  try {
+    const { id, heatId } = req.params;
+    const competition = await loadCompetition(id);
+    const heat = competition?.heats.find((heat) => heat.id === heatId);
+    if (!competition || !heat) {
+      return res.status(404).json({ error: 'Heat not found' });
+    }
+    const { status } = req.body;
+    const results = parseResults(req.body.results ?? [], competition.markType);
+    if (!results || (status !== undefined && !Object.values(GameStatus).includes(status))) {
+      return res.status(400).json({
+        error: `results must list athleteIds with valid marks, places of 1 or more and a status of ${Object.values(EntryStatus).join(', ')}`,
+      });
+    }
+    const outsiders = results.filter((result) => !heat.entries.some((entry) => entry.athleteId === result.athleteId));
+    if (outsiders.length) {
+      return res.status(400).json({ error: `Not entered in this heat: ${outsiders.map((result) => result.athleteId).join(', ')}` });
+    }
+    if (competition.heats.some((other) => other.round > heat.round)) {
+      return res.status(409).json({ error: 'The next round has been drawn from this heat; its results can no longer change' });
+    }
+
+    const entries = rankHeat(
+      competition.markType,
+      heat.entries.map((entry) => ({ ...entry, ...results.find((result) => result.athleteId === entry.athleteId) }))
+    );
+    await prisma.$transaction([
+      ...entries.map((entry) =>
+        prisma.heatEntry.update({ where: { id: entry.id }, data: { mark: entry.mark, rank: entry.rank, status: entry.status } })
+      ),
+      prisma.heat.update({ where: { id: heatId }, data: { status } }),
+    ]);
+
+    const updated = (await loadCompetition(id))!;
+    emitCompetitionUpdate(updated);
+    emitHeatMedalUpdate(heatId);
+    res.json(updated.heats.find((heat) => heat.id === heatId));
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while recording the heat results' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/rankings:
+ *   get:
+ *     summary: Get the overall rankings of a competition
+ *     description: >
+ *       Finalists come first in their finishing order, then those knocked out
+ *       in each earlier round by their mark in it. Before the final, the
+ *       latest round is ranked across its heats. Athletes without a mark, or
+ *       who did not start or finish or were disqualified, are unplaced.
+ *     tags: [Competitions]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The rankings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 competitionId:
+ *                   type: string
+ *                 markType:
+ *                   type: string
+ *                 final:
+ *                   type: boolean
+ *                   description: Whether the final is finished, making the rankings final
+ *                 rankings:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CompetitionRanking'
+ *       404:
+ *         description: Competition not found
+ */
+router.get('/:id/rankings', async (req, res): Promise<any> => {
+  try {
+    const competition = await loadCompetition(req.params.id);
+    if (!competition) {
+      return res.status(404).json({ error: 'Competition not found' });
+    }
+    res.json({
+      competitionId: competition.id,
+      markType: competition.markType,
+      final: competition.heats.some((heat) => heat.stage === HeatStage.FINAL && heat.status === GameStatus.FINISHED),
+      rankings: rankCompetition(competition),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while ranking the competition' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Competition:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         sport:
+ *           $ref: '#/components/schemas/Sport'
+ *         tournamentId:
+ *           type: string
+ *           nullable: true
+ *         gender:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         markType:
+ *           type: string
+ *           enum: [TIME, DISTANCE, POINTS, RANK]
+ *         lanes:
+ *           type: integer
+ *         heats:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Heat'
+ *     Heat:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         round:
+ *           type: integer
+ *         number:
+ *           type: integer
+ *         stage:
+ *           type: string
+ *           enum: [HEAT, SEMI_FINAL, FINAL]
+ *         date:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         venue:
+ *           $ref: '#/components/schemas/Venue'
+ *         status:
+ *           type: string
+ *           enum: [NOT_STARTED, IN_PROGRESS, FINISHED, POSTPONED, CANCELLED]
+ *         entries:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/HeatEntry'
+ *     HeatEntry:
+ *       type: object
+ *       properties:
+ *         athlete:
+ *           $ref: '#/components/schemas/Athlete'
+ *         lane:
+ *           type: integer
+ *         seed:
+ *           type: integer
+ *         seedMark:
+ *           type: number
+ *           nullable: true
+ *         mark:
+ *           type: number
+ *           nullable: true
+ *           description: Seconds for TIME, metres for DISTANCE, points for POINTS
+ *         rank:
+ *           type: integer
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [OK, DNS, DNF, DQ]
+ *         qualified:
+ *           type: string
+ *           enum: [Q, q]
+ *           nullable: true
+ *           description: Through to the next round on place (Q) or on mark (q)
+ *     CompetitionRanking:
+ *       type: object
+ *       properties:
+ *         place:
+ *           type: integer
+ *           nullable: true
+ *         athlete:
+ *           $ref: '#/components/schemas/Athlete'
+ *         round:
+ *           type: integer
+ *           description: The furthest round reached
+ *         stage:
+ *           type: string
+ *           enum: [HEAT, SEMI_FINAL, FINAL]
+ *         mark:
+ *           type: number
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [OK, DNS, DNF, DQ]
+ */
+
+export default router;
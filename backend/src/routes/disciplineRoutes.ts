@@ -0,0 +1,161 @@
+import express from 'express';
+import { prisma } from '../lib/prisma';
+import { buildDisciplineRegister, DisciplineRecord } from '../utils/disciplineUtils';
+
+const router = express.Router();
+
+const isSuspended = (record: DisciplineRecord) => record.suspensions.some((suspension) => suspension.remaining > 0);
+
+/**
+ * @swagger
+ * /api/discipline:
+ *   get:
+ *     summary: Get the disciplinary register of a tournament
+ *     description: >
+ *       Lists each athlete's cards, technical fouls and sin-bins in the
+ *       tournament, and the suspensions they led to under the sport's
+ *       discipline rules. Only events linked to an athlete are counted.
+ *     tags: [Discipline]
+ *     parameters:
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: The tournament; leave out for fixtures outside tournaments
+ *       - in: query
+ *         name: sportId
+ *         schema:
+ *           type: string
+ *         description: Filter by sport ID
+ *       - in: query
+ *         name: teamId
+ *         schema:
+ *           type: string
+ *         description: Filter by team ID
+ *       - in: query
+ *         name: suspended
+ *         schema:
+ *           type: boolean
+ *         description: Only athletes with a suspension still to serve
+ *     responses:
+ *       200:
+ *         description: The register, most sanctioned athletes first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/DisciplineRecord'
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { tournamentId, sportId, teamId, suspended } = req.query as Record<string, string | undefined>;
+    const register = await buildDisciplineRegister({ tournamentId: tournamentId ?? null, sportId, teamId });
+    const total = (record: DisciplineRecord) => Object.values(record.sanctions).reduce((sum, count) => sum + count, 0);
+    register.sort((a, b) => total(b) - total(a) || a.athlete.user.name.localeCompare(b.athlete.user.name));
+
+    res.json(suspended === 'true' ? register.filter(isSuspended) : register);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the disciplinary register' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discipline/athletes/{athleteId}:
+ *   get:
+ *     summary: Get an athlete's disciplinary record
+ *     tags: [Discipline]
+ *     parameters:
+ *       - in: path
+ *         name: athleteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: The tournament; leave out for fixtures outside tournaments
+ *     responses:
+ *       200:
+ *         description: The athlete's record in each sport they were sanctioned in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/DisciplineRecord'
+ *       404:
+ *         description: Athlete not found
+ */
+router.get('/athletes/:athleteId', async (req, res): Promise<any> => {
+  try {
+    const { athleteId } = req.params;
+    if (!(await prisma.athlete.findUnique({ where: { id: athleteId } }))) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    const tournamentId = (req.query.tournamentId as string | undefined) ?? null;
+    res.json(await buildDisciplineRegister({ tournamentId, athleteIds: [athleteId] }));
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the disciplinary record' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Suspension:
+ *       type: object
+ *       properties:
+ *         athleteId:
+ *           type: string
+ *         teamId:
+ *           type: string
+ *         sportId:
+ *           type: string
+ *         reason:
+ *           type: string
+ *           example: 2 yellow cards
+ *         eventId:
+ *           type: string
+ *           description: The event that triggered the ban
+ *         fixtureId:
+ *           type: string
+ *           description: The fixture the ban was incurred in
+ *         matchesBanned:
+ *           type: integer
+ *         fixtureIds:
+ *           type: array
+ *           description: The team's fixtures the ban covers, as far as they are known yet
+ *           items:
+ *             type: string
+ *         served:
+ *           type: integer
+ *         remaining:
+ *           type: integer
+ *     DisciplineRecord:
+ *       type: object
+ *       properties:
+ *         athlete:
+ *           $ref: '#/components/schemas/Athlete'
+ *         sportId:
+ *           type: string
+ *         teamId:
+ *           type: string
+ *         sanctions:
+ *           type: object
+ *           description: Sanctions collected, by event type
+ *           additionalProperties:
+ *             type: integer
+ *           example:
+ *             YELLOW_CARD: 3
+ *             RED_CARD: 1
+ *         suspensions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Suspension'
+ */
+
+export default router;
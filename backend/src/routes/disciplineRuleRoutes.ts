@@ -0,0 +1,163 @@
+import express from 'express';
+import { MatchEventType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { ResourceOwner } from '../utils/permissions';
+import { disciplinaryEvents, DisciplineRuleInput, rulesFor } from '../utils/disciplineUtils';
+
+// Mounted under /api/sports/:sportId/discipline-rules
+const router = express.Router({ mergeParams: true });
+
+type RuleParams = { sportId: string };
+
+// Discipline rules are managed by whoever manages the sport
+async function resolveSportOwner(req: express.Request): Promise<ResourceOwner | null> {
+  return prisma.sport.findUnique({
+    where: { id: req.params.sportId },
+    select: { universityId: true },
+  });
+}
+
+function parseRules(value: unknown): DisciplineRuleInput[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const isCount = (count: unknown, min: number) => Number.isInteger(count) && (count as number) >= min;
+  const valid = value.every(
+    (rule) => disciplinaryEvents.includes(rule?.eventType) && isCount(rule.count, 1) && isCount(rule.matchesBanned, 0)
+  );
+  const types = value.map((rule) => rule?.eventType);
+  if (!valid || new Set(types).size !== types.length) {
+    return null;
+  }
+  return value.map(({ eventType, count, matchesBanned }) => ({ eventType: eventType as MatchEventType, count, matchesBanned }));
+}
+
+/**
+ * @swagger
+ * /api/sports/{sportId}/discipline-rules:
+ *   get:
+ *     summary: Get a sport's suspension rules
+ *     description: Sports that have not set their own rules use the defaults.
+ *     tags: [Discipline]
+ *     parameters:
+ *       - in: path
+ *         name: sportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The rules in force
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 isDefault:
+ *                   type: boolean
+ *                 rules:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DisciplineRule'
+ *       404:
+ *         description: Sport not found
+ */
+router.get('/', async (req: express.Request<RuleParams>, res): Promise<any> => {
+  try {
+    const sport = await prisma.sport.findUnique({ where: { id: req.params.sportId }, include: { disciplineRules: true } });
+    if (!sport) {
+      return res.status(404).json({ error: 'Sport not found' });
+    }
+    res.json({ isDefault: !sport.disciplineRules.length, rules: rulesFor(sport) });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the discipline rules' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sports/{sportId}/discipline-rules:
+ *   put:
+ *     summary: Replace a sport's suspension rules
+ *     description: >
+ *       Each rule bans an athlete from their team's next matchesBanned
+ *       fixtures every time they collect count events of its type in a
+ *       tournament. An empty list restores the defaults, a red card banning
+ *       for one match and every second yellow card for one match.
+ *     tags: [Discipline]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rules
+ *             properties:
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/DisciplineRule'
+ *     responses:
+ *       200:
+ *         description: The rules in force
+ *       400:
+ *         description: Invalid rules, or more than one rule for an event type
+ *       404:
+ *         description: Sport not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/', authenticate, authorize('sport:update', resolveSportOwner), async (req: express.Request<RuleParams>, res): Promise<any> => {
+  try {
+    const { sportId } = req.params;
+    const rules = parseRules(req.body.rules);
+    if (!rules) {
+      return res.status(400).json({
+        error: `rules must list at most one rule per event type of ${disciplinaryEvents.join(', ')}, with a count of 1 or more and matchesBanned of 0 or more`,
+      });
+    }
+    if (!(await prisma.sport.findUnique({ where: { id: sportId } }))) {
+      return res.status(404).json({ error: 'Sport not found' });
+    }
+
+    const sport = await prisma.sport.update({
+      where: { id: sportId },
+      data: { disciplineRules: { deleteMany: {}, create: rules } },
+      include: { disciplineRules: true },
+    });
+    res.json({ isDefault: !sport.disciplineRules.length, rules: rulesFor(sport) });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the discipline rules' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DisciplineRule:
+ *       type: object
+ *       properties:
+ *         eventType:
+ *           type: string
+ *           enum: [YELLOW_CARD, RED_CARD, GREEN_CARD, TECHNICAL_FOUL, SIN_BIN]
+ *         count:
+ *           type: integer
+ *           minimum: 1
+ *           description: Events of the type that trigger a ban, e.g. 2 for every second yellow card
+ *         matchesBanned:
+ *           type: integer
+ *           minimum: 0
+ */
+
+export default router;
@@ -0,0 +1,386 @@
+import express from 'express';
+import fs from 'fs';
+import { EligibilityDocument, EligibilityDocumentType, EligibilityStatus, Role } from '@prisma/client';
+import cloudinary from 'cloudinary';
+import multer from 'multer';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { ResourceOwner } from '../utils/permissions';
+import { athleteInclude } from '../utils/rosterUtils';
+
+const router = express.Router();
+
+// Configure Cloudinary
+cloudinary.v2.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+// Configure multer for file uploads
+const upload = multer({ dest: 'uploads/', limits: { fileSize: 10 * 1024 * 1024 } });
+
+const requiredDocuments = Object.values(EligibilityDocumentType);
+
+// Students submit their own documents; coaches submit for their university's athletes
+async function resolveAthleteOwner(req: express.Request): Promise<ResourceOwner | null> {
+  const athlete = await prisma.athlete.findUnique({
+    where: { id: req.params.athleteId },
+    select: { userId: true, user: { select: { universityId: true } } },
+  });
+  if (!athlete) {
+    return null;
+  }
+  return req.user?.role === Role.STUDENT ? { userId: athlete.userId } : { universityId: athlete.user.universityId };
+}
+
+// Documents are uploaded privately, so they are only shown through signed links
+function withUrl(document: EligibilityDocument) {
+  const url = cloudinary.v2.url(document.publicId, {
+    type: 'authenticated',
+    resource_type: document.resourceType,
+    sign_url: true,
+    secure: true,
+  });
+  return { ...document, url };
+}
+
+function missingDocuments(documents: Pick<EligibilityDocument, 'type'>[]): EligibilityDocumentType[] {
+  return requiredDocuments.filter((type) => !documents.some((document) => document.type === type));
+}
+
+/**
+ * @swagger
+ * /api/eligibility/queue:
+ *   get:
+ *     summary: List athletes waiting for their eligibility to be reviewed
+ *     tags: [Eligibility]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Athletes with documents pending review, longest waiting first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Eligibility'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/queue', authenticate, authorize('eligibility:review'), async (req, res) => {
+  try {
+    const athletes = await prisma.athlete.findMany({
+      where: { eligibility: EligibilityStatus.PENDING },
+      include: { ...athleteInclude, documents: { orderBy: { createdAt: 'asc' } } },
+    });
+    // Waiting since the latest upload, which put the athlete back in the queue
+    const waitingSince = (athlete: (typeof athletes)[number]) =>
+      Math.max(...athlete.documents.map((document) => document.createdAt.getTime()));
+    athletes.sort((a, b) => waitingSince(a) - waitingSince(b));
+
+    res.json(athletes.map((athlete) => ({ ...athlete, documents: athlete.documents.map(withUrl) })));
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the review queue' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/eligibility/{athleteId}:
+ *   get:
+ *     summary: Get an athlete's eligibility, documents and reviews
+ *     tags: [Eligibility]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: athleteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The athlete's eligibility
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Eligibility'
+ *       404:
+ *         description: Athlete not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/:athleteId', authenticate, authorize('eligibility:submit', resolveAthleteOwner), async (req, res): Promise<any> => {
+  try {
+    const athlete = await prisma.athlete.findUnique({
+      where: { id: req.params.athleteId },
+      include: {
+        ...athleteInclude,
+        documents: { orderBy: { createdAt: 'asc' } },
+        reviews: { orderBy: { createdAt: 'desc' }, include: { reviewedBy: { select: { id: true, name: true } } } },
+      },
+    });
+    if (!athlete) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    res.json({
+      ...athlete,
+      documents: athlete.documents.map(withUrl),
+      missingDocuments: missingDocuments(athlete.documents),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the eligibility' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/eligibility/{athleteId}/documents:
+ *   post:
+ *     summary: Upload a student ID or registration document
+ *     description: >
+ *       Once both a STUDENT_ID and a REGISTRATION document are on file, the
+ *       athlete joins the review queue. Uploading after a decision sends them
+ *       back to the queue.
+ *     tags: [Eligibility]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: athleteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - file
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [STUDENT_ID, REGISTRATION]
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: The athlete's eligibility after the upload
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Eligibility'
+ *       400:
+ *         description: Missing file or unknown document type
+ *       404:
+ *         description: Athlete not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post(
+  '/:athleteId/documents',
+  authenticate,
+  authorize('eligibility:submit', resolveAthleteOwner),
+  upload.single('file'),
+  async (req, res): Promise<any> => {
+    try {
+      const { athleteId } = req.params;
+      const type = req.body.type as EligibilityDocumentType;
+      if (!req.file || !requiredDocuments.includes(type)) {
+        return res.status(400).json({ error: `A file and a type of ${requiredDocuments.join(' or ')} are required` });
+      }
+      if (!(await prisma.athlete.findUnique({ where: { id: athleteId } }))) {
+        return res.status(404).json({ error: 'Athlete not found' });
+      }
+
+      const uploaded = await cloudinary.v2.uploader.upload(req.file.path, {
+        type: 'authenticated',
+        resource_type: 'auto',
+        folder: 'eligibility',
+      });
+      await prisma.eligibilityDocument.create({
+        data: {
+          athleteId,
+          type,
+          publicId: uploaded.public_id,
+          resourceType: uploaded.resource_type,
+          fileName: req.file.originalname,
+          uploadedById: req.user?.id,
+        },
+      });
+
+      const documents = await prisma.eligibilityDocument.findMany({ where: { athleteId }, orderBy: { createdAt: 'asc' } });
+      const missing = missingDocuments(documents);
+      const athlete = await prisma.athlete.update({
+        where: { id: athleteId },
+        // Waits for review once every document is on file
+        data: { eligibility: missing.length ? EligibilityStatus.NOT_SUBMITTED : EligibilityStatus.PENDING },
+        include: athleteInclude,
+      });
+      res.status(201).json({ ...athlete, documents: documents.map(withUrl), missingDocuments: missing });
+    } catch (error) {
+      res.status(500).json({ error: 'An error occurred while uploading the document' });
+    } finally {
+      // The file is on Cloudinary now, or failed to get there
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(() => undefined);
+      }
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/eligibility/{athleteId}/review:
+ *   post:
+ *     summary: Approve or reject an athlete's eligibility
+ *     description: >
+ *       A rejection needs a reason, which is shown to the athlete and their
+ *       coach, and removes the athlete from the squads of fixtures not yet
+ *       played.
+ *     tags: [Eligibility]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: athleteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The athlete's eligibility after the review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Eligibility'
+ *       400:
+ *         description: Invalid status, a rejection without a reason, or documents missing for an approval
+ *       404:
+ *         description: Athlete not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/:athleteId/review', authenticate, authorize('eligibility:review'), async (req, res): Promise<any> => {
+  try {
+    const { athleteId } = req.params;
+    const { status, reason } = req.body;
+    if (status !== EligibilityStatus.APPROVED && status !== EligibilityStatus.REJECTED) {
+      return res.status(400).json({ error: 'status must be APPROVED or REJECTED' });
+    }
+    if (status === EligibilityStatus.REJECTED && !reason) {
+      return res.status(400).json({ error: 'A rejection needs a reason' });
+    }
+
+    const current = await prisma.athlete.findUnique({ where: { id: athleteId }, include: { documents: true } });
+    if (!current) {
+      return res.status(404).json({ error: 'Athlete not found' });
+    }
+    const missing = missingDocuments(current.documents);
+    if (status === EligibilityStatus.APPROVED && missing.length) {
+      return res.status(400).json({ error: `The athlete has not uploaded ${missing.join(' and ')}` });
+    }
+
+    const athlete = await prisma.$transaction(async (tx) => {
+      await tx.eligibilityReview.create({
+        data: { athleteId, status, reason, reviewedById: req.user?.id },
+      });
+      if (status === EligibilityStatus.REJECTED) {
+        await tx.squadEntry.deleteMany({
+          where: { athleteId, fixture: { OR: [{ date: null }, { date: { gt: new Date() } }] } },
+        });
+      }
+      return tx.athlete.update({
+        where: { id: athleteId },
+        data: { eligibility: status },
+        include: {
+          ...athleteInclude,
+          documents: { orderBy: { createdAt: 'asc' } },
+          reviews: { orderBy: { createdAt: 'desc' }, include: { reviewedBy: { select: { id: true, name: true } } } },
+        },
+      });
+    });
+    res.json({ ...athlete, documents: athlete.documents.map(withUrl), missingDocuments: missing });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while reviewing the eligibility' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Eligibility:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Athlete'
+ *         - type: object
+ *           properties:
+ *             eligibility:
+ *               type: string
+ *               enum: [NOT_SUBMITTED, PENDING, APPROVED, REJECTED]
+ *             missingDocuments:
+ *               type: array
+ *               items:
+ *                 type: string
+ *                 enum: [STUDENT_ID, REGISTRATION]
+ *             documents:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   type:
+ *                     type: string
+ *                     enum: [STUDENT_ID, REGISTRATION]
+ *                   fileName:
+ *                     type: string
+ *                   url:
+ *                     type: string
+ *                     description: Signed link to the private file
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *             reviews:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   status:
+ *                     type: string
+ *                     enum: [APPROVED, REJECTED]
+ *                   reason:
+ *                     type: string
+ *                   reviewedBy:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ */
+
+export default router;
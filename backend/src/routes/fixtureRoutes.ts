@@ -2,9 +2,31 @@ import express from 'express';
 import { Gender } from '@prisma/client';
 import { buildQueryOptions, QueryOptions } from '../utils/queryUtils';
 import { prisma } from '../lib/prisma';
+import { FixtureInput, validateFixture } from '../utils/fixtureUtils';
+import { findScheduleConflicts } from '../utils/scheduleUtils';
+import { matchReportInclude, renderMatchReport } from '../utils/reportUtils';
+import { authenticate, authorize } from '../middleware/auth';
 
 const router = express.Router();
 
+const isOverride = (value: unknown) => value === true || value === 'true';
+
+const teamInclude = { include: { university: true } };
+
+const fixtureInclude = {
+  sport: {
+    include: {
+      university: true
+    }
+  },
+  tournament: true,
+  group: true,
+  venue: { include: { parent: true } },
+  homeTeam: teamInclude,
+  awayTeam: teamInclude,
+  result: true
+};
+
 /**
  * @swagger
  * /api/fixtures:
@@ -32,6 +54,16 @@ const router = express.Router();
  *         schema:
  *           type: string
  *         description: Filter by university ID
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: string
+ *         description: Filter by group ID
  *     responses:
  *       200:
  *         description: A list of fixtures
@@ -54,19 +86,12 @@ const router = express.Router();
 router.get('/', async (req, res) => {
   try {
     const options: QueryOptions = req.query;
-    const queryOptions = buildQueryOptions(options, ['homeTeam', 'awayTeam', 'venue']);
+    const queryOptions = buildQueryOptions(options, ['homeTeam.name', 'awayTeam.name', 'venue.name', 'venueName']);
 
     const [fixtures, total] = await Promise.all([
       prisma.fixture.findMany({
         ...queryOptions,
-        include: { 
-          sport: {
-            include: {
-              university: true
-            }
-          }, 
-          result: true 
-        },
+        include: fixtureInclude,
       }),
       prisma.fixture.count({ where: queryOptions.where }),
     ]);
@@ -88,6 +113,8 @@ router.get('/', async (req, res) => {
  *   post:
  *     summary: Create a new fixture
  *     tags: [Fixtures]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -95,20 +122,29 @@ router.get('/', async (req, res) => {
  *           schema:
  *             type: object
  *             properties:
+ *               tournamentId:
+ *                 type: string
  *               sportId:
  *                 type: string
- *               homeTeam:
+ *               homeTeamId:
  *                 type: string
- *               awayTeam:
+ *               awayTeamId:
  *                 type: string
  *               date:
  *                 type: string
  *                 format: date-time
+ *               venueId:
+ *                 type: string
  *               venue:
  *                 type: string
+ *                 description: Free-text venue, for grounds not managed as venues
  *               gender:
  *                 type: string
  *                 enum: [MALE, FEMALE, OTHER]
+ *               allowConflicts:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Save the fixture despite schedule conflicts
  *     responses:
  *       201:
  *         description: Created fixture
@@ -116,28 +152,47 @@ router.get('/', async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Fixture'
+ *       400:
+ *         description: Missing tournament, date outside the tournament, or invalid teams
+ *       409:
+ *         description: >
+ *           The fixture clashes with another fixture's venue or team, leaves a
+ *           team too little rest, or falls when the venue is closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleConflicts'
+ *       403:
+ *         description: Insufficient permissions
  */
-router.post('/', async (req, res) => {
+router.post('/', authenticate, authorize('fixture:create'), async (req, res): Promise<any> => {
   try {
-    const { sportId, homeTeam, awayTeam, date, venue, gender } = req.body;
+    const { tournamentId, sportId, homeTeamId, awayTeamId, date, venueId, venue, gender } = req.body;
+    const input: FixtureInput = {
+      tournamentId,
+      sportId,
+      homeTeamId,
+      awayTeamId,
+      date: new Date(date),
+      venueId: venueId || null,
+      venueName: venueId ? null : venue || null,
+      gender: gender as Gender,
+    };
+    const validationError = await validateFixture(input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const conflicts = await findScheduleConflicts(input);
+    if (conflicts.length && !isOverride(req.body.allowConflicts)) {
+      return res.status(409).json({ error: 'The fixture clashes with other fixtures', conflicts });
+    }
+
     const fixture = await prisma.fixture.create({
-      data: { 
-        sportId, 
-        homeTeam, 
-        awayTeam, 
-        date: new Date(date), 
-        venue, 
-        gender: gender as Gender 
-      },
-      include: { 
-        sport: {
-          include: {
-            university: true
-          }
-        } 
-      },
+      data: input,
+      include: fixtureInclude,
     });
-    res.status(201).json(fixture);
+    res.status(201).json(conflicts.length ? { ...fixture, conflicts } : fixture);
   } catch (error) {
     res.status(500).json({ error: 'An error occurred while creating the fixture' });
   }
@@ -170,14 +225,7 @@ router.get('/:id', async (req, res): Promise<any> => {
     const { id } = req.params;
     const fixture = await prisma.fixture.findUnique({
       where: { id },
-      include: { 
-        sport: {
-          include: {
-            university: true
-          }
-        }, 
-        result: true 
-      },
+      include: fixtureInclude,
     });
     if (!fixture) {
       return res.status(404).json({ error: 'Fixture not found' });
@@ -188,12 +236,72 @@ router.get('/:id', async (req, res): Promise<any> => {
   }
 });
 
+/**
+ * @swagger
+ * /api/fixtures/{id}/report.pdf:
+ *   get:
+ *     summary: Download the official match report
+ *     description: >
+ *       A printable report laid out like the sport's paper scoresheet: match
+ *       details, both team sheets (the match-day squad, or the roster when no
+ *       squad was named) with each player's scoring and cards, the score by
+ *       period, the event timeline and lines for the officials and captains
+ *       to sign. Blank lines are left to complete by hand. The team sheets
+ *       list each player's student number as their licence number, so only
+ *       the staff who record results can download the report.
+ *     tags: [Fixtures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The report
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Fixture not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/:id/report.pdf', authenticate, authorize('result:update'), async (req, res): Promise<any> => {
+  try {
+    const fixture = await prisma.fixture.findUnique({
+      where: { id: req.params.id },
+      include: matchReportInclude,
+    });
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="match-report-${fixture.id}.pdf"`);
+    renderMatchReport(fixture, res);
+  } catch (error) {
+    // Once part of the PDF is sent, a JSON error would only corrupt it
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    res.removeHeader('Content-Type');
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({ error: 'An error occurred while generating the match report' });
+  }
+});
+
 /**
  * @swagger
  * /api/fixtures/{id}:
  *   put:
  *     summary: Update a fixture
  *     tags: [Fixtures]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -207,20 +315,29 @@ router.get('/:id', async (req, res): Promise<any> => {
  *           schema:
  *             type: object
  *             properties:
+ *               tournamentId:
+ *                 type: string
  *               sportId:
  *                 type: string
- *               homeTeam:
+ *               homeTeamId:
  *                 type: string
- *               awayTeam:
+ *               awayTeamId:
  *                 type: string
  *               date:
  *                 type: string
  *                 format: date-time
+ *               venueId:
+ *                 type: string
  *               venue:
  *                 type: string
+ *                 description: Free-text venue, for grounds not managed as venues
  *               gender:
  *                 type: string
  *                 enum: [MALE, FEMALE, OTHER]
+ *               allowConflicts:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Save the fixture despite schedule conflicts
  *     responses:
  *       200:
  *         description: Updated fixture
@@ -228,32 +345,54 @@ router.get('/:id', async (req, res): Promise<any> => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Fixture'
+ *       400:
+ *         description: Missing tournament, date outside the tournament, or invalid teams
+ *       409:
+ *         description: >
+ *           The fixture clashes with another fixture's venue, team or
+ *           officials, leaves a team too little rest, falls when the venue is
+ *           closed, or an assigned official is from a university that would
+ *           be playing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleConflicts'
  *       404:
  *         description: Fixture not found
+ *       403:
+ *         description: Insufficient permissions
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', authenticate, authorize('fixture:update'), async (req, res): Promise<any> => {
   try {
     const { id } = req.params;
-    const { sportId, homeTeam, awayTeam, date, venue, gender } = req.body;
+    const { tournamentId, sportId, homeTeamId, awayTeamId, date, venueId, venue, gender } = req.body;
+    const input: FixtureInput = {
+      tournamentId,
+      sportId,
+      homeTeamId,
+      awayTeamId,
+      date: new Date(date),
+      venueId: venueId || null,
+      venueName: venueId ? null : venue || null,
+      gender: gender as Gender,
+    };
+    const validationError = await validateFixture(input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const assigned = await prisma.officialAssignment.findMany({ where: { fixtureId: id } });
+    const conflicts = await findScheduleConflicts({ ...input, id, officialIds: assigned.map((assignment) => assignment.officialId) });
+    if (conflicts.length && !isOverride(req.body.allowConflicts)) {
+      return res.status(409).json({ error: 'The fixture clashes with other fixtures', conflicts });
+    }
+
     const fixture = await prisma.fixture.update({
       where: { id },
-      data: { 
-        sportId, 
-        homeTeam, 
-        awayTeam, 
-        date: new Date(date), 
-        venue, 
-        gender: gender as Gender 
-      },
-      include: { 
-        sport: {
-          include: {
-            university: true
-          }
-        } 
-      },
+      data: input,
+      include: fixtureInclude,
     });
-    res.json(fixture);
+    res.json(conflicts.length ? { ...fixture, conflicts } : fixture);
   } catch (error) {
     res.status(500).json({ error: 'An error occurred while updating the fixture' });
   }
@@ -265,6 +404,8 @@ router.put('/:id', async (req, res) => {
  *   delete:
  *     summary: Delete a fixture
  *     tags: [Fixtures]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -275,8 +416,10 @@ router.put('/:id', async (req, res) => {
  *       204:
  *         description: Fixture deleted successfully*       404:
  *         description: Fixture not found
+ *       403:
+ *         description: Insufficient permissions
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', authenticate, authorize('fixture:delete'), async (req, res) => {
   try {
     const { id } = req.params;
     await prisma.fixture.delete({ where: { id } });
@@ -295,17 +438,34 @@ router.delete('/:id', async (req, res) => {
  *       properties:
  *         id:
  *           type: string
+ *         tournamentId:
+ *           type: string
  *         sportId:
  *           type: string
- *         homeTeam:
+ *         groupId:
  *           type: string
- *         awayTeam:
+ *         round:
+ *           type: integer
+ *         homeTeamId:
+ *           type: string
+ *         awayTeamId:
+ *           type: string
+ *         homeTeamName:
  *           type: string
+ *           description: Legacy free-text home team name
+ *         awayTeamName:
+ *           type: string
+ *           description: Legacy free-text away team name
  *         date:
  *           type: string
  *           format: date-time
- *         venue:
+ *           nullable: true
+ *           description: Kickoff; unset until the fixture is scheduled
+ *         venueId:
+ *           type: string
+ *         venueName:
  *           type: string
+ *           description: Free-text venue, for grounds not managed as venues
  *         gender:
  *           type: string
  *           enum: [MALE, FEMALE, OTHER]
@@ -317,8 +477,39 @@ router.delete('/:id', async (req, res) => {
  *           format: date-time
  *         sport:
  *           $ref: '#/components/schemas/Sport'
+ *         venue:
+ *           $ref: '#/components/schemas/Venue'
+ *         homeTeam:
+ *           $ref: '#/components/schemas/Team'
+ *         awayTeam:
+ *           $ref: '#/components/schemas/Team'
  *         result:
  *           $ref: '#/components/schemas/Result'
+ *         conflicts:
+ *           type: array
+ *           description: Present when the fixture was saved despite schedule conflicts
+ *           items:
+ *             $ref: '#/components/schemas/ScheduleConflict'
+ *     ScheduleConflict:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [VENUE, TEAM, REST, UNAVAILABLE, OFFICIAL]
+ *         fixtureId:
+ *           type: string
+ *           description: The fixture clashed with, if any
+ *         message:
+ *           type: string
+ *     ScheduleConflicts:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *         conflicts:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ScheduleConflict'
  */
 
 export default router;
@@ -0,0 +1,742 @@
+import express from 'express';
+import { Gender, GameStatus, ScoringFormat } from '@prisma/client';
+import { buildQueryOptions, QueryOptions } from '../utils/queryUtils';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { generateRoundRobin, Pairing, scheduleRounds } from '../utils/roundRobinUtils';
+import { getSwissEntrants, pairSwissRound } from '../utils/swissUtils';
+import { isDuringTournament } from '../utils/fixtureUtils';
+
+const router = express.Router();
+
+const groupInclude = {
+  sport: true,
+  teams: { include: { university: true } },
+};
+
+/**
+ * @swagger
+ * /api/groups:
+ *   get:
+ *     summary: Retrieve a list of groups
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
+ *       - in: query
+ *         name: sportId
+ *         schema:
+ *           type: string
+ *         description: Filter by sport ID
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         description: Filter by gender category
+ *     responses:
+ *       200:
+ *         description: A list of groups
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Group'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+router.get('/', async (req, res) => {
+  try {
+    const options: QueryOptions = req.query;
+    const queryOptions: any = buildQueryOptions({ sortBy: 'name', ...options }, ['name']);
+
+    const [groups, total] = await Promise.all([
+      prisma.group.findMany({
+        ...queryOptions,
+        include: groupInclude,
+      }),
+      prisma.group.count({ where: queryOptions.where }),
+    ]);
+
+    res.json({
+      data: groups,
+      total,
+      page: options.page || 1,
+      limit: options.limit || 10,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching groups' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups:
+ *   post:
+ *     summary: Create a new group
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - tournamentId
+ *               - sportId
+ *               - gender
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: A
+ *               tournamentId:
+ *                 type: string
+ *               sportId:
+ *                 type: string
+ *               gender:
+ *                 type: string
+ *                 enum: [MALE, FEMALE, OTHER]
+ *     responses:
+ *       201:
+ *         description: Created group
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Group'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('group:create'), async (req, res) => {
+  try {
+    const { name, tournamentId, sportId, gender } = req.body;
+    const group = await prisma.group.create({
+      data: { name, tournamentId, sportId, gender: gender as Gender },
+      include: groupInclude,
+    });
+    res.status(201).json(group);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while creating the group' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/generate-fixtures:
+ *   post:
+ *     summary: Generate round-robin fixtures for every group of a sport
+ *     description: >
+ *       Creates the full round-robin fixture set for each group of the given
+ *       tournament, sport and gender category in one transaction. Groups share
+ *       the venues round by round, and no team kicks off before it has had the
+ *       minimum rest since its previous match.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tournamentId
+ *               - sportId
+ *               - gender
+ *             properties:
+ *               tournamentId:
+ *                 type: string
+ *               sportId:
+ *                 type: string
+ *               gender:
+ *                 type: string
+ *                 enum: [MALE, FEMALE, OTHER]
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *                 description: >
+ *                   Kickoff of the first match. Without it the fixtures are
+ *                   created without kickoffs or venues, ready for the schedule
+ *                   solver (/api/schedules/solve).
+ *               legs:
+ *                 type: integer
+ *                 default: 1
+ *                 description: Number of times each pair of teams meets
+ *               slotMinutes:
+ *                 type: integer
+ *                 default: 90
+ *                 description: Time reserved per match on a venue
+ *               minRestMinutes:
+ *                 type: integer
+ *                 default: 0
+ *                 description: Minimum rest between a team's matches
+ *               venueIds:
+ *                 type: array
+ *                 description: Venues to share between the groups; fixtures are left without a venue if empty
+ *                 items:
+ *                   type: string
+ *               replace:
+ *                 type: boolean
+ *                 default: false
+ *                 description: >
+ *                   Replace existing group fixtures that have no result,
+ *                   match events, clock, squads or officials yet
+ *     responses:
+ *       201:
+ *         description: Created fixtures
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Fixture'
+ *       400:
+ *         description: Invalid options, too few teams, or the schedule overruns the tournament
+ *       404:
+ *         description: No groups found
+ *       409:
+ *         description: The groups already have fixtures, or some cannot be replaced
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/generate-fixtures', authenticate, authorize('fixture:create'), async (req, res): Promise<any> => {
+  try {
+    const { tournamentId, sportId, gender, startTime, replace } = req.body;
+    const venueIds: string[] = req.body.venueIds ?? [];
+    const legs = req.body.legs ? parseInt(req.body.legs) : 1;
+    const slotMinutes = req.body.slotMinutes ? parseInt(req.body.slotMinutes) : 90;
+    const minRestMinutes = req.body.minRestMinutes ? parseInt(req.body.minRestMinutes) : 0;
+    const start = startTime ? new Date(startTime) : null;
+
+    if ((start && isNaN(start.getTime())) || legs < 1 || slotMinutes < 1 || minRestMinutes < 0) {
+      return res.status(400).json({ error: 'A valid startTime, legs, slotMinutes and minRestMinutes are required' });
+    }
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) {
+      return res.status(404).json({ error: 'Tournament not found' });
+    }
+
+    const venueCount = await prisma.venue.count({ where: { id: { in: venueIds } } });
+    if (venueCount !== new Set(venueIds).size) {
+      return res.status(400).json({ error: 'Venue not found' });
+    }
+
+    const groups = await prisma.group.findMany({
+      where: { tournamentId, sportId, gender: gender as Gender },
+      include: {
+        teams: true,
+        fixtures: {
+          include: {
+            result: true,
+            clock: true,
+            homeTeam: true,
+            awayTeam: true,
+            _count: { select: { events: true, squads: true, officials: true, medals: true } },
+          },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+    if (!groups.length) {
+      return res.status(404).json({ error: 'No groups found for this sport and category' });
+    }
+
+    const tooSmall = groups.filter((group) => group.teams.length < 2);
+    if (tooSmall.length) {
+      return res.status(400).json({
+        error: `Groups need at least two teams: ${tooSmall.map((group) => group.name).join(', ')}`,
+      });
+    }
+
+    const existing = groups.flatMap((group) => group.fixtures);
+    if (existing.length && !replace) {
+      return res.status(409).json({ error: 'The groups already have fixtures; pass replace to regenerate them' });
+    }
+    if (existing.some((fixture) => fixture.result)) {
+      return res.status(409).json({ error: 'Fixtures that already have results cannot be replaced' });
+    }
+    // Match events, clocks, squads and officials belong to the fixture they
+    // were recorded for and must not go with it
+    const inUse = existing.filter((fixture) => fixture.clock || Object.values(fixture._count).some((count) => count > 0));
+    if (inUse.length) {
+      const names = inUse.map((fixture) => `${fixture.homeTeam?.name} v ${fixture.awayTeam?.name}`);
+      return res.status(409).json({
+        error: `Fixtures with match events, a clock, squads or officials cannot be replaced: ${names.join(', ')}`,
+      });
+    }
+
+    // Interleave the groups round by round so they share the venues fairly
+    const groupRounds = groups.map((group) =>
+      generateRoundRobin(group.teams.map((team) => team.id), legs).map((round) =>
+        round.map((pairing) => ({ ...pairing, groupId: group.id }))
+      )
+    );
+    const roundCount = Math.max(...groupRounds.map((rounds) => rounds.length));
+    const rounds: (Pairing & { groupId: string })[][] = [];
+    for (let r = 0; r < roundCount; r++) {
+      rounds.push(groupRounds.flatMap((rounds) => rounds[r] ?? []));
+    }
+
+    let scheduled: (Pairing & { groupId: string; date: Date | null; venue: string })[];
+    if (start) {
+      scheduled = scheduleRounds(rounds, {
+        startTime: start,
+        slotMinutes,
+        minRestMinutes,
+        // An empty venue ID still spreads the kickoffs, leaving the venue unset
+        venues: venueIds.length ? venueIds : [''],
+      });
+
+      const lastKickoff = new Date(Math.max(...scheduled.map((match) => match.date!.getTime())));
+      if (!isDuringTournament(tournament, start) || !isDuringTournament(tournament, lastKickoff)) {
+        return res.status(400).json({
+          error: `The schedule runs from ${start.toISOString()} to ${lastKickoff.toISOString()}, outside the tournament dates`,
+        });
+      }
+    } else {
+      scheduled = rounds.flat().map((pairing) => ({ ...pairing, date: null, venue: '' }));
+    }
+
+    const groupIds = groups.map((group) => group.id);
+    await prisma.$transaction([
+      prisma.fixture.deleteMany({ where: { groupId: { in: groupIds } } }),
+      prisma.fixture.createMany({
+        data: scheduled.map((match) => ({
+          tournamentId,
+          sportId,
+          gender: gender as Gender,
+          groupId: match.groupId,
+          round: match.round,
+          homeTeamId: match.homeTeamId,
+          awayTeamId: match.awayTeamId,
+          date: match.date,
+          venueId: match.venue || null,
+        })),
+      }),
+    ]);
+
+    const fixtures = await prisma.fixture.findMany({
+      where: { groupId: { in: groupIds } },
+      include: { group: true, homeTeam: true, awayTeam: true },
+      orderBy: { date: 'asc' },
+    });
+    res.status(201).json(fixtures);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while generating fixtures' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}:
+ *   get:
+ *     summary: Get a group by ID
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Group details with its teams and fixtures
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Group'
+ *       404:
+ *         description: Group not found
+ */
+router.get('/:id', async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const group = await prisma.group.findUnique({
+      where: { id },
+      include: {
+        ...groupInclude,
+        fixtures: {
+          include: { homeTeam: true, awayTeam: true, result: true },
+          orderBy: { date: 'asc' },
+        },
+      },
+    });
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    res.json(group);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the group' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}:
+ *   put:
+ *     summary: Rename a group
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated group
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Group'
+ *       404:
+ *         description: Group not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id', authenticate, authorize('group:update'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name } = req.body;
+    const group = await prisma.group.update({
+      where: { id },
+      data: { name },
+      include: groupInclude,
+    });
+    res.json(group);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the group' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/teams:
+ *   put:
+ *     summary: Assign teams to a group
+ *     description: >
+ *       Replaces the group's teams. Each team must play the group's sport and
+ *       gender category, belong to a participating university, and not already
+ *       be drawn in another group of the same competition.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - teamIds
+ *             properties:
+ *               teamIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Updated group
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Group'
+ *       400:
+ *         description: One or more teams cannot be assigned to the group
+ *       404:
+ *         description: Group not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id/teams', authenticate, authorize('group:update'), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const teamIds: string[] = req.body.teamIds ?? [];
+
+    const group = await prisma.group.findUnique({
+      where: { id },
+      include: { tournament: { include: { participants: { select: { id: true } } } } },
+    });
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+
+    const teams = await prisma.team.findMany({
+      where: { id: { in: teamIds } },
+      include: {
+        groups: {
+          where: { tournamentId: group.tournamentId, sportId: group.sportId, gender: group.gender, id: { not: id } },
+        },
+      },
+    });
+    if (teams.length !== new Set(teamIds).size) {
+      return res.status(400).json({ error: 'Team not found' });
+    }
+
+    const participantIds = new Set(group.tournament.participants.map((university) => university.id));
+    const invalid = teams.filter(
+      (team) =>
+        team.sportId !== group.sportId ||
+        team.gender !== group.gender ||
+        !participantIds.has(team.universityId) ||
+        team.groups.length > 0
+    );
+    if (invalid.length) {
+      return res.status(400).json({
+        error: `These teams do not play this competition or are already in another group: ${invalid.map((team) => team.name).join(', ')}`,
+      });
+    }
+
+    const updated = await prisma.group.update({
+      where: { id },
+      data: { teams: { set: teamIds.map((teamId) => ({ id: teamId })) } },
+      include: groupInclude,
+    });
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while assigning teams to the group' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/swiss-rounds:
+ *   post:
+ *     summary: Pair the next round of a Swiss chess event
+ *     description: >
+ *       Pairs the group's teams (or players, as one-board teams) by their
+ *       standings once every match of the previous round is finished. No two
+ *       teams meet twice; each team is paired as close to its own score as
+ *       possible, top half against bottom half, and gets the colour it is due
+ *       on board 1, the home team playing white. With an odd number of teams
+ *       the lowest-ranked team without a bye sits the round out, scoring a
+ *       win on every board.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Start of the round
+ *               venueId:
+ *                 type: string
+ *               seeding:
+ *                 type: array
+ *                 description: First round only; every team of the group, strongest first
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: >
+ *           The round's fixtures, top table first; a bye is a fixture
+ *           without an away team
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Fixture'
+ *       400:
+ *         description: Not a chess group, too few teams, or an invalid date or seeding
+ *       404:
+ *         description: Group not found
+ *       409:
+ *         description: The previous round is unfinished, or every pairing would repeat a match
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/:id/swiss-rounds', authenticate, authorize('fixture:create'), async (req, res): Promise<any> => {
+  try {
+    const { date, venueId, seeding } = req.body;
+    const group = await prisma.group.findUnique({
+      where: { id: req.params.id },
+      include: { sport: true, teams: true, fixtures: { include: { result: true } } },
+    });
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    if (group.sport.scoringFormat !== ScoringFormat.BOARDS) {
+      return res.status(400).json({ error: `Swiss rounds are paired for chess; ${group.sport.name} is not scored by board` });
+    }
+    if (group.teams.length < 2) {
+      return res.status(400).json({ error: 'The group needs at least two teams' });
+    }
+    const start = date ? new Date(date) : null;
+    if (start && isNaN(start.getTime())) {
+      return res.status(400).json({ error: 'date must be a valid date' });
+    }
+
+    const round = Math.max(0, ...group.fixtures.map((fixture) => fixture.round ?? 0)) + 1;
+    const teamIds = group.teams.map((team) => team.id);
+    if (seeding !== undefined) {
+      const complete =
+        Array.isArray(seeding) && seeding.length === teamIds.length && teamIds.every((teamId) => seeding.includes(teamId));
+      if (!complete || round > 1) {
+        return res.status(400).json({ error: 'seeding must list every team of the group once, and only before the first round' });
+      }
+    }
+    const unfinished = group.fixtures.filter((fixture) => fixture.awayTeamId && fixture.result?.status !== GameStatus.FINISHED);
+    if (unfinished.length) {
+      return res.status(409).json({ error: `${unfinished.length} matches of round ${round - 1} are not finished yet` });
+    }
+
+    const pairings = pairSwissRound(await getSwissEntrants(group, seeding));
+    if (!pairings) {
+      return res.status(409).json({ error: 'Every pairing would repeat an earlier match; the event has run out of rounds' });
+    }
+
+    const fixtures = await prisma.$transaction(
+      pairings.map((pairing) =>
+        prisma.fixture.create({
+          data: {
+            tournamentId: group.tournamentId,
+            sportId: group.sportId,
+            gender: group.gender,
+            groupId: group.id,
+            round,
+            homeTeamId: pairing.homeTeamId,
+            awayTeamId: pairing.awayTeamId,
+            date: start,
+            venueId: venueId || null,
+          },
+          include: { group: true, homeTeam: true, awayTeam: true },
+        })
+      )
+    );
+    res.status(201).json(fixtures);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while pairing the round' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}:
+ *   delete:
+ *     summary: Delete a group
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Group deleted successfully
+ *       404:
+ *         description: Group not found
+ *       409:
+ *         description: The group still has fixtures or teams
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('group:delete'), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const group = await prisma.group.findUnique({
+      where: { id },
+      include: { _count: { select: { fixtures: true, teams: true } } },
+    });
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    if (group._count.fixtures) {
+      return res.status(409).json({ error: `Delete the group's ${group._count.fixtures} fixtures before the group` });
+    }
+    if (group._count.teams) {
+      return res.status(409).json({ error: `Remove the group's ${group._count.teams} teams with PUT /api/groups/${id}/teams before deleting it` });
+    }
+    await prisma.group.delete({ where: { id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while deleting the group' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Group:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         tournamentId:
+ *           type: string
+ *         sportId:
+ *           type: string
+ *         gender:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         teams:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Team'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export default router;
@@ -0,0 +1,246 @@
+import express from 'express';
+import multer from 'multer';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { commitImport, describeImport, planImport } from '../utils/importUtils';
+import { parseWorkbook, SheetOverride } from '../utils/workbookUtils';
+import { tournamentSpan } from '../utils/fixtureUtils';
+
+const router = express.Router();
+
+// Workbooks are parsed straight from memory and never stored
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+/**
+ * @swagger
+ * /api/imports/fixtures:
+ *   post:
+ *     summary: Import groupings and fixtures from the organisers' Excel workbook
+ *     description: >
+ *       Parses a workbook with one sheet per sport and gender category (e.g.
+ *       "SOCCER - MEN") holding its groups and fixtures, and maps team names to
+ *       participating universities. By default this is a dry run that returns
+ *       the teams, groups, venues and fixtures that would be created or
+ *       updated along with any validation errors. Send `dryRun=false` to apply
+ *       the import; it is applied in a single transaction and refused while
+ *       errors remain.
+ *       Knockout rounds in the workbook are ignored; seed them with
+ *       /api/brackets once the group stage is over.
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *               - tournamentId
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               tournamentId:
+ *                 type: string
+ *               dryRun:
+ *                 type: boolean
+ *                 default: true
+ *               sheets:
+ *                 type: string
+ *                 description: >
+ *                   JSON object of per-sheet overrides keyed by sheet name, e.g.
+ *                   {"RUGBY 7s": {"sport": "Rugby Sevens"}, "INDIVIDUAL GAMES": {"skip": true}}
+ *     responses:
+ *       200:
+ *         description: The import diff, applied unless this was a dry run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       400:
+ *         description: Missing or unreadable workbook
+ *       404:
+ *         description: Tournament not found
+ *       422:
+ *         description: The workbook has validation errors and was not imported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post(
+  '/fixtures',
+  authenticate,
+  authorize('fixture:create'),
+  upload.single('file'),
+  async (req, res): Promise<any> => {
+    try {
+      const { tournamentId } = req.body;
+      const dryRun = req.body.dryRun !== 'false' && req.body.dryRun !== false;
+      if (!req.file) {
+        return res.status(400).json({ error: 'An .xlsx file is required' });
+      }
+
+      let overrides: Record<string, SheetOverride> = {};
+      if (req.body.sheets) {
+        try {
+          overrides = typeof req.body.sheets === 'string' ? JSON.parse(req.body.sheets) : req.body.sheets;
+        } catch (error) {
+          return res.status(400).json({ error: 'sheets must be valid JSON' });
+        }
+      }
+
+      const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId ?? '' } });
+      if (!tournament) {
+        return res.status(404).json({ error: 'Tournament not found' });
+      }
+
+      let parsed;
+      try {
+        parsed = await parseWorkbook(req.file.buffer, tournamentSpan(tournament).start, overrides);
+      } catch (error) {
+        return res.status(400).json({ error: 'The file could not be read as an Excel workbook' });
+      }
+
+      const plan = await planImport(tournament, parsed.sheets);
+      const errors = [...parsed.errors, ...plan.errors];
+      const report = {
+        dryRun,
+        committed: false,
+        sheets: parsed.sheets.map((sheet) => ({
+          name: sheet.name,
+          sport: sheet.sport,
+          gender: sheet.gender,
+          groups: sheet.groups.length,
+          fixtures: sheet.fixtures.length,
+        })),
+        ...describeImport(plan),
+        errors,
+        warnings: parsed.warnings,
+      };
+
+      if (dryRun) {
+        return res.json(report);
+      }
+      if (errors.length) {
+        return res.status(422).json(report);
+      }
+
+      await commitImport(plan);
+      res.json({ ...report, committed: true });
+    } catch (error) {
+      res.status(500).json({ error: 'An error occurred while importing the workbook' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ImportIssue:
+ *       type: object
+ *       properties:
+ *         sheet:
+ *           type: string
+ *         row:
+ *           type: integer
+ *         message:
+ *           type: string
+ *     ImportReport:
+ *       type: object
+ *       properties:
+ *         dryRun:
+ *           type: boolean
+ *         committed:
+ *           type: boolean
+ *         sheets:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               sport:
+ *                 type: string
+ *               gender:
+ *                 type: string
+ *                 enum: [MALE, FEMALE, OTHER]
+ *               groups:
+ *                 type: integer
+ *               fixtures:
+ *                 type: integer
+ *         summary:
+ *           type: object
+ *           properties:
+ *             teamsToCreate:
+ *               type: integer
+ *             venuesToCreate:
+ *               type: integer
+ *             groupsToCreate:
+ *               type: integer
+ *             groupsToUpdate:
+ *               type: integer
+ *             fixturesToCreate:
+ *               type: integer
+ *             fixturesToUpdate:
+ *               type: integer
+ *             fixturesUnchanged:
+ *               type: integer
+ *         changes:
+ *           type: object
+ *           properties:
+ *             teams:
+ *               type: array
+ *               items:
+ *                 type: object
+ *             groups:
+ *               type: array
+ *               items:
+ *                 type: object
+ *             venues:
+ *               type: array
+ *               items:
+ *                 type: object
+ *             fixtures:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   action:
+ *                     type: string
+ *                     enum: [create, update, unchanged]
+ *                   sheet:
+ *                     type: string
+ *                   row:
+ *                     type: integer
+ *                   sport:
+ *                     type: string
+ *                   group:
+ *                     type: string
+ *                   home:
+ *                     type: string
+ *                   away:
+ *                     type: string
+ *                   date:
+ *                     type: string
+ *                     format: date-time
+ *                   venue:
+ *                     type: string
+ *                   changes:
+ *                     type: object
+ *         errors:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ImportIssue'
+ *         warnings:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ImportIssue'
+ */
+
+export default router;
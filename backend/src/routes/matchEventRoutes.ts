@@ -0,0 +1,445 @@
+import express from 'express';
+import { GameStatus, MatchEvent, MatchEventType, Prisma, Result, ScoringFormat, TeamSide } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { LiveUpdate } from '../lib/realtime';
+import { emitBracketUpdate, emitMedalUpdate, emitStandingsUpdate, emitToFixture } from '../utils/broadcastUtils';
+import { isScoringEvent, MatchEventInput, scoreTimeline, validateMatchEvent } from '../utils/timelineUtils';
+import { resolveEventAthlete } from '../utils/disciplineUtils';
+
+// Mounted under /api/fixtures/:fixtureId/events
+const router = express.Router({ mergeParams: true });
+
+type EventParams = { fixtureId: string; id: string };
+
+const eventOrder: Prisma.MatchEventOrderByWithRelationInput[] = [
+  { period: 'asc' },
+  { minute: 'asc' },
+  { createdAt: 'asc' },
+];
+
+type TimelineFixture = Prisma.FixtureGetPayload<{ include: { sport: true; result: true; events: true } }>;
+
+function loadFixture(id: string): Promise<TimelineFixture | null> {
+  return prisma.fixture.findUnique({
+    where: { id },
+    include: { sport: true, result: true, events: { orderBy: eventOrder } },
+  });
+}
+
+function parseOptionalInt(value: unknown): number | null {
+  return value === undefined || value === null || value === '' ? null : Number(value);
+}
+
+// Reads an event from the request, keeping the current values of fields left out
+function parseEvent(body: any, current?: MatchEvent): MatchEventInput {
+  const value = (key: keyof MatchEventInput) => (body[key] !== undefined ? body[key] : current?.[key] ?? null);
+  return {
+    type: value('type') as MatchEventType,
+    side: value('side') as TeamSide,
+    period: parseOptionalInt(value('period')),
+    minute: parseOptionalInt(value('minute')),
+    player: value('player') as string | null,
+    playerNumber: parseOptionalInt(value('playerNumber')),
+    // A different player or side is a different athlete, unless one is given
+    athleteId:
+      body.athleteId === undefined && (body.playerNumber !== undefined || body.side !== undefined)
+        ? null
+        : (value('athleteId') as string | null),
+    relatedPlayer: value('relatedPlayer') as string | null,
+    points: parseOptionalInt(value('points')),
+    note: value('note') as string | null,
+  };
+}
+
+/**
+ * Links an event to the athlete behind it, so cards count towards their
+ * disciplinary record. A given athlete must be on the roster of the event's
+ * team; otherwise the athlete is looked up by shirt number. Returns an error
+ * message, or null.
+ */
+async function identifyAthlete(fixture: TimelineFixture, input: MatchEventInput): Promise<string | null> {
+  if (!input.athleteId) {
+    input.athleteId = await resolveEventAthlete(fixture, input);
+    return null;
+  }
+  const teamId = input.side === TeamSide.HOME ? fixture.homeTeamId : fixture.awayTeamId;
+  const entry =
+    teamId && (await prisma.rosterEntry.findUnique({ where: { teamId_athleteId: { teamId, athleteId: input.athleteId } } }));
+  return entry ? null : 'The athlete is not on the roster of the team the event belongs to';
+}
+
+// Rolls back a timeline change that would make the score invalid
+class InvalidTimelineError extends Error {}
+
+/**
+ * Saves a change to a fixture's timeline. If the change adds, edits or
+ * removes a scoring event, the result is recomputed from the new timeline in
+ * the same transaction (and created if the match has none yet); a change
+ * that would make the score invalid is refused. The fixture row stays locked
+ * until the transaction ends, so concurrent changes are scored one after the
+ * other, each from the timeline as the other left it.
+ */
+async function saveTimeline(
+  fixture: TimelineFixture,
+  touchesScore: boolean,
+  write: (tx: Prisma.TransactionClient) => Promise<MatchEvent>
+) {
+  try {
+    const [event, result] = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "Fixture" WHERE id = ${fixture.id} FOR UPDATE`;
+      const event = await write(tx);
+      if (!touchesScore) {
+        return [event, null] as const;
+      }
+
+      const [events, current] = await Promise.all([
+        tx.matchEvent.findMany({ where: { fixtureId: fixture.id }, orderBy: eventOrder }),
+        tx.result.findUnique({ where: { fixtureId: fixture.id } }),
+      ]);
+      const score = scoreTimeline(fixture.sport, events, current?.status ?? GameStatus.IN_PROGRESS);
+      if (score.error !== null) {
+        throw new InvalidTimelineError(score.error);
+      }
+      const { homeScore, awayScore, homeScorers, awayScorers } = score;
+      const periods = fixture.sport.scoringFormat === ScoringFormat.TOTAL ? undefined : score.periods;
+      const result = await tx.result.upsert({
+        where: { fixtureId: fixture.id },
+        create: {
+          fixtureId: fixture.id,
+          homeScore,
+          awayScore,
+          homeScorers,
+          awayScorers,
+          periods: periods && { create: periods },
+        },
+        update: {
+          homeScore,
+          awayScore,
+          homeScorers,
+          awayScorers,
+          periods: periods && { deleteMany: {}, create: periods },
+        },
+        include: { fixture: true, periods: { orderBy: { number: 'asc' } } },
+      });
+      return [event, result] as const;
+    });
+    return { error: null, event, result };
+  } catch (error) {
+    if (error instanceof InvalidTimelineError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+}
+
+// Pushes the event as it is recorded, and the recomputed result if it changed
+function broadcast(action: 'created' | 'updated' | 'deleted', event: MatchEvent, result: Result | null) {
+  const update: LiveUpdate = ['matchEvent', { action, fixtureId: event.fixtureId, event }];
+  if (!result) {
+    return emitToFixture(event.fixtureId, update);
+  }
+  emitToFixture(event.fixtureId, update, ['resultUpdate', result]);
+  emitStandingsUpdate(event.fixtureId);
+  emitBracketUpdate(event.fixtureId);
+  emitMedalUpdate(event.fixtureId);
+}
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/events:
+ *   get:
+ *     summary: Get a fixture's match timeline
+ *     tags: [Match Events]
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The fixture's events, in match order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MatchEvent'
+ *       404:
+ *         description: Fixture not found
+ */
+router.get('/', async (req: express.Request<EventParams>, res): Promise<any> => {
+  try {
+    const fixture = await loadFixture(req.params.fixtureId);
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+    res.json(fixture.events);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching match events' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/events:
+ *   post:
+ *     summary: Record a match event
+ *     description: >
+ *       Adds an event to the timeline and pushes it to Socket.IO clients as
+ *       `matchEvent`. Scoring events (goals, tries, set points, ...) recompute
+ *       the result from the whole timeline, which is then pushed as
+ *       `resultUpdate`.
+ *     tags: [Match Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MatchEventInput'
+ *     responses:
+ *       201:
+ *         description: Recorded event, with the recomputed result if the score changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MatchEventChange'
+ *       400:
+ *         description: The event is invalid for the sport, or would make the score invalid
+ *       404:
+ *         description: Fixture not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('result:create'), async (req: express.Request<EventParams>, res): Promise<any> => {
+  try {
+    const fixture = await loadFixture(req.params.fixtureId);
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+
+    const input = parseEvent(req.body);
+    const validationError = validateMatchEvent(fixture.sport, input) ?? (await identifyAthlete(fixture, input));
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const saved = await saveTimeline(fixture, isScoringEvent(fixture.sport, input.type), (tx) =>
+      tx.matchEvent.create({ data: { ...input, fixtureId: fixture.id } })
+    );
+    if (saved.error !== null) {
+      return res.status(400).json({ error: saved.error });
+    }
+
+    broadcast('created', saved.event, saved.result);
+    res.status(201).json({ event: saved.event, result: saved.result });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while recording the match event' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/events/{id}:
+ *   put:
+ *     summary: Correct a match event
+ *     tags: [Match Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MatchEventInput'
+ *     responses:
+ *       200:
+ *         description: Updated event, with the recomputed result if the score changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MatchEventChange'
+ *       400:
+ *         description: The event is invalid for the sport, or would make the score invalid
+ *       404:
+ *         description: Fixture or event not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id', authenticate, authorize('result:update'), async (req: express.Request<EventParams>, res): Promise<any> => {
+  try {
+    const fixture = await loadFixture(req.params.fixtureId);
+    const current = fixture?.events.find((event) => event.id === req.params.id);
+    if (!fixture || !current) {
+      return res.status(404).json({ error: 'Match event not found' });
+    }
+
+    const input = parseEvent(req.body, current);
+    const validationError = validateMatchEvent(fixture.sport, input) ?? (await identifyAthlete(fixture, input));
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const touchesScore = isScoringEvent(fixture.sport, current.type) || isScoringEvent(fixture.sport, input.type);
+    const saved = await saveTimeline(fixture, touchesScore, (tx) =>
+      tx.matchEvent.update({ where: { id: current.id }, data: input })
+    );
+    if (saved.error !== null) {
+      return res.status(400).json({ error: saved.error });
+    }
+
+    broadcast('updated', saved.event, saved.result);
+    res.json({ event: saved.event, result: saved.result });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the match event' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/events/{id}:
+ *   delete:
+ *     summary: Remove a match event
+ *     tags: [Match Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Removed event, with the recomputed result if the score changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MatchEventChange'
+ *       400:
+ *         description: Removing the event would make the score invalid
+ *       404:
+ *         description: Fixture or event not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('result:update'), async (req: express.Request<EventParams>, res): Promise<any> => {
+  try {
+    const fixture = await loadFixture(req.params.fixtureId);
+    const current = fixture?.events.find((event) => event.id === req.params.id);
+    if (!fixture || !current) {
+      return res.status(404).json({ error: 'Match event not found' });
+    }
+
+    const saved = await saveTimeline(fixture, isScoringEvent(fixture.sport, current.type), (tx) =>
+      tx.matchEvent.delete({ where: { id: current.id } })
+    );
+    if (saved.error !== null) {
+      return res.status(400).json({ error: saved.error });
+    }
+
+    broadcast('deleted', saved.event, saved.result);
+    res.json({ event: saved.event, result: saved.result });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while removing the match event' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MatchEventInput:
+ *       type: object
+ *       required:
+ *         - type
+ *         - side
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [GOAL, OWN_GOAL, POINT, TRY, CONVERSION, PENALTY_GOAL, DROP_GOAL, YELLOW_CARD, RED_CARD, GREEN_CARD, TECHNICAL_FOUL, SIN_BIN, SUBSTITUTION, TIMEOUT]
+ *           description: >
+ *             Scoring events depend on the sport's scoringFormat: GOAL, OWN_GOAL
+ *             and PENALTY_GOAL for TOTAL and PERIODS, POINT for SETS, and TRY,
+ *             CONVERSION, PENALTY_GOAL and DROP_GOAL for RUGBY. Cards,
+ *             technical fouls, sin-bins, substitutions and timeouts apply to
+ *             every sport.
+ *         side:
+ *           type: string
+ *           enum: [HOME, AWAY]
+ *           description: The team the event belongs to; own goals count for the other side
+ *         period:
+ *           type: integer
+ *           description: Half, quarter or set; required for scoring events unless the sport only records the final score
+ *         minute:
+ *           type: integer
+ *         player:
+ *           type: string
+ *         playerNumber:
+ *           type: integer
+ *         athleteId:
+ *           type: string
+ *           description: >
+ *             The athlete on the team's roster; looked up from the match-day
+ *             squad or roster by playerNumber when left out. Cards count
+ *             towards the athlete's disciplinary record.
+ *         relatedPlayer:
+ *           type: string
+ *           description: The assisting player, or the player going off for a substitution
+ *         points:
+ *           type: integer
+ *           description: Points for a basketball basket (1 to 3); goals count 1 otherwise
+ *         note:
+ *           type: string
+ *     MatchEvent:
+ *       allOf:
+ *         - $ref: '#/components/schemas/MatchEventInput'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             fixtureId:
+ *               type: string
+ *             createdAt:
+ *               type: string
+ *               format: date-time
+ *             updatedAt:
+ *               type: string
+ *               format: date-time
+ *     MatchEventChange:
+ *       type: object
+ *       properties:
+ *         event:
+ *           $ref: '#/components/schemas/MatchEvent'
+ *         result:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/Result'
+ */
+
+export default router;
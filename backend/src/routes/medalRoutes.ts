@@ -0,0 +1,324 @@
+import express from 'express';
+import { Gender } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getChampionshipTable, getMedalTable, MedalSort } from '../utils/medalUtils';
+import { publicAthleteSelect } from '../utils/rosterUtils';
+
+const router = express.Router();
+
+const medalSorts: MedalSort[] = ['gold', 'total'];
+
+function parseGender(value: unknown): Gender | null | undefined {
+  if (value === undefined) {
+    return null;
+  }
+  return Object.values(Gender).includes(value as Gender) ? (value as Gender) : undefined;
+}
+
+// Points per placing given as a comma-separated list, e.g. 10,7,5
+function parsePlacingPoints(value: unknown): number[] | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const points = String(value).split(',').map(Number);
+  return points.every((point) => Number.isInteger(point) && point >= 0) ? points : null;
+}
+
+/**
+ * @swagger
+ * /api/medals:
+ *   get:
+ *     summary: Get the medal table of a tournament
+ *     description: >
+ *       Gold and silver go to the finalists of each knockout bracket, bronze
+ *       to the winner of the third-place match, or to both losing
+ *       semi-finalists when there is none. In individual competitions the
+ *       top three of the final win the medals. Every participating university
+ *       is listed; universities level on every count share a rank.
+ *     tags: [Medals]
+ *     parameters:
+ *       - in: query
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         description: Only count medals of one gender category
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [gold, total]
+ *           default: gold
+ *         description: Rank by golds first, or by the total number of medals
+ *     responses:
+ *       200:
+ *         description: The medal table
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MedalTable'
+ *       400:
+ *         description: Missing tournament, or an invalid gender or sort
+ *       404:
+ *         description: Tournament not found
+ */
+router.get('/', async (req, res): Promise<any> => {
+  try {
+    const { tournamentId, sortBy = 'gold' } = req.query as Record<string, string | undefined>;
+    const gender = parseGender(req.query.gender);
+    if (!tournamentId || gender === undefined || !medalSorts.includes(sortBy as MedalSort)) {
+      return res.status(400).json({ error: 'tournamentId is required; gender must be MALE, FEMALE or OTHER and sortBy gold or total' });
+    }
+    if (!(await prisma.tournament.findUnique({ where: { id: tournamentId } }))) {
+      return res.status(404).json({ error: 'Tournament not found' });
+    }
+    res.json(await getMedalTable(tournamentId, gender, sortBy as MedalSort));
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the medal table' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/medals/awards:
+ *   get:
+ *     summary: List the medals awarded in a tournament
+ *     tags: [Medals]
+ *     parameters:
+ *       - in: query
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sportId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: universityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *     responses:
+ *       200:
+ *         description: The medals by sport, gold first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Medal'
+ *       400:
+ *         description: Missing tournament, or an invalid gender
+ */
+router.get('/awards', async (req, res): Promise<any> => {
+  try {
+    const { tournamentId, sportId, universityId } = req.query as Record<string, string | undefined>;
+    const gender = parseGender(req.query.gender);
+    if (!tournamentId || gender === undefined) {
+      return res.status(400).json({ error: 'tournamentId is required; gender must be MALE, FEMALE or OTHER' });
+    }
+    const medals = await prisma.medal.findMany({
+      where: { tournamentId, sportId, universityId, gender: gender ?? undefined },
+      include: { sport: true, university: true, team: true, athlete: { select: publicAthleteSelect } },
+      orderBy: [{ sport: { name: 'asc' } }, { gender: 'asc' }, { type: 'asc' }],
+    });
+    res.json(medals);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the medals' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/medals/championship:
+ *   get:
+ *     summary: Get the overall championship table of a tournament
+ *     description: >
+ *       Each university scores points for where its teams finished in every
+ *       knockout bracket: 1st and 2nd from the final, 3rd and 4th from the
+ *       third-place match, and shared placings for the losers of earlier
+ *       rounds (joint 5th for quarter-finalists). Athletes score for where
+ *       they finished in each competition final. The points per placing are
+ *       the tournament's placingPoints unless others are given.
+ *     tags: [Medals]
+ *     parameters:
+ *       - in: query
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *       - in: query
+ *         name: points
+ *         schema:
+ *           type: string
+ *           example: 10,7,5,3
+ *         description: Points for 1st, 2nd, 3rd... place, instead of the tournament's
+ *     responses:
+ *       200:
+ *         description: The championship table
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChampionshipTable'
+ *       400:
+ *         description: Missing tournament, or an invalid gender or points
+ *       404:
+ *         description: Tournament not found
+ */
+router.get('/championship', async (req, res): Promise<any> => {
+  try {
+    const tournamentId = req.query.tournamentId as string | undefined;
+    const gender = parseGender(req.query.gender);
+    const points = parsePlacingPoints(req.query.points);
+    if (!tournamentId || gender === undefined || points === null) {
+      return res.status(400).json({
+        error: 'tournamentId is required; gender must be MALE, FEMALE or OTHER and points a list of whole numbers',
+      });
+    }
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) {
+      return res.status(404).json({ error: 'Tournament not found' });
+    }
+    res.json(await getChampionshipTable(tournament, gender, points));
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the championship table' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MedalCount:
+ *       type: object
+ *       properties:
+ *         gold:
+ *           type: integer
+ *         silver:
+ *           type: integer
+ *         bronze:
+ *           type: integer
+ *         total:
+ *           type: integer
+ *     MedalTable:
+ *       type: object
+ *       properties:
+ *         tournamentId:
+ *           type: string
+ *         gender:
+ *           type: string
+ *           nullable: true
+ *         sortBy:
+ *           type: string
+ *           enum: [gold, total]
+ *         table:
+ *           type: array
+ *           items:
+ *             allOf:
+ *               - $ref: '#/components/schemas/MedalCount'
+ *               - type: object
+ *                 properties:
+ *                   rank:
+ *                     type: integer
+ *                   university:
+ *                     $ref: '#/components/schemas/University'
+ *                   byGender:
+ *                     type: object
+ *                     properties:
+ *                       MALE:
+ *                         $ref: '#/components/schemas/MedalCount'
+ *                       FEMALE:
+ *                         $ref: '#/components/schemas/MedalCount'
+ *                       OTHER:
+ *                         $ref: '#/components/schemas/MedalCount'
+ *     Medal:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [GOLD, SILVER, BRONZE]
+ *         gender:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         sport:
+ *           $ref: '#/components/schemas/Sport'
+ *         university:
+ *           $ref: '#/components/schemas/University'
+ *         team:
+ *           $ref: '#/components/schemas/Team'
+ *         athlete:
+ *           $ref: '#/components/schemas/Athlete'
+ *           description: The medallist of an individual competition
+ *         fixtureId:
+ *           type: string
+ *           description: The match that decided the medal
+ *         heatId:
+ *           type: string
+ *           description: The final that decided an individual medal
+ *     ChampionshipTable:
+ *       type: object
+ *       properties:
+ *         tournamentId:
+ *           type: string
+ *         gender:
+ *           type: string
+ *           nullable: true
+ *         placingPoints:
+ *           type: array
+ *           items:
+ *             type: integer
+ *         table:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               rank:
+ *                 type: integer
+ *               university:
+ *                 $ref: '#/components/schemas/University'
+ *               points:
+ *                 type: integer
+ *               placings:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     sportId:
+ *                       type: string
+ *                     sport:
+ *                       type: string
+ *                     gender:
+ *                       type: string
+ *                     competition:
+ *                       type: string
+ *                       nullable: true
+ *                     teamId:
+ *                       type: string
+ *                       nullable: true
+ *                     athleteId:
+ *                       type: string
+ *                       nullable: true
+ *                     placing:
+ *                       type: integer
+ *                     points:
+ *                       type: integer
+ */
+
+export default router;
@@ -0,0 +1,199 @@
+import express from 'express';
+import { OfficialRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { checkOfficialAssignment, officialAssignmentInclude, officialInclude, officialRoles } from '../utils/officialUtils';
+import { scheduledFixtureInclude } from '../utils/scheduleUtils';
+
+// Mounted under /api/fixtures/:fixtureId/officials
+const router = express.Router({ mergeParams: true });
+
+type AssignmentParams = { fixtureId: string; officialId: string };
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/officials:
+ *   get:
+ *     summary: List the officials assigned to a fixture
+ *     tags: [Officials]
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The fixture's officials by role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OfficialAssignment'
+ *       404:
+ *         description: Fixture not found
+ */
+router.get('/', async (req: express.Request<AssignmentParams>, res): Promise<any> => {
+  try {
+    const fixture = await prisma.fixture.findUnique({
+      where: { id: req.params.fixtureId },
+      include: { officials: { include: officialAssignmentInclude, orderBy: { role: 'asc' } } },
+    });
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+    res.json(fixture.officials);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the officials' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/officials:
+ *   post:
+ *     summary: Assign an official to a fixture
+ *     description: >
+ *       The official must be qualified in the fixture's sport, must not be
+ *       from the university of either team, and must not already be
+ *       officiating a match that overlaps this one.
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - officialId
+ *               - role
+ *             properties:
+ *               officialId:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [REFEREE, ASSISTANT_REFEREE, FOURTH_OFFICIAL, UMPIRE, TABLE_OFFICIAL, SCORER, TIMEKEEPER, ARBITER]
+ *     responses:
+ *       201:
+ *         description: The official's assignment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OfficialAssignment'
+ *       400:
+ *         description: Missing or unknown official, or an unknown role
+ *       404:
+ *         description: Fixture not found
+ *       409:
+ *         description: >
+ *           The official is not qualified in the sport, is from a university
+ *           that is playing, or is already officiating an overlapping match
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('official:assign'), async (req: express.Request<AssignmentParams>, res): Promise<any> => {
+  try {
+    const { fixtureId } = req.params;
+    const { officialId, role } = req.body;
+    if (!officialId || !officialRoles.includes(role)) {
+      return res.status(400).json({ error: `An officialId and a role of ${officialRoles.join(', ')} are required` });
+    }
+
+    const [fixture, official] = await Promise.all([
+      prisma.fixture.findUnique({ where: { id: fixtureId }, include: scheduledFixtureInclude }),
+      prisma.official.findUnique({ where: { id: officialId }, include: officialInclude }),
+    ]);
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+    if (!official) {
+      return res.status(400).json({ error: 'Official not found' });
+    }
+    const conflict = await checkOfficialAssignment(official, fixture);
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+
+    const assignment = await prisma.officialAssignment.create({
+      data: { fixtureId, officialId, role: role as OfficialRole },
+      include: officialAssignmentInclude,
+    });
+    res.status(201).json(assignment);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while assigning the official' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/officials/{officialId}:
+ *   delete:
+ *     summary: Remove an official from a fixture
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: officialId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Official removed from the fixture
+ *       404:
+ *         description: The official is not assigned to the fixture
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:officialId', authenticate, authorize('official:assign'), async (req: express.Request<AssignmentParams>, res): Promise<any> => {
+  try {
+    const { fixtureId, officialId } = req.params;
+    const { count } = await prisma.officialAssignment.deleteMany({ where: { fixtureId, officialId } });
+    if (!count) {
+      return res.status(404).json({ error: 'The official is not assigned to the fixture' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while removing the official from the fixture' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OfficialAssignment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         fixtureId:
+ *           type: string
+ *         officialId:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [REFEREE, ASSISTANT_REFEREE, FOURTH_OFFICIAL, UMPIRE, TABLE_OFFICIAL, SCORER, TIMEKEEPER, ARBITER]
+ *         official:
+ *           $ref: '#/components/schemas/Official'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export default router;
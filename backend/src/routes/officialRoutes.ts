@@ -0,0 +1,412 @@
+import express from 'express';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { officialInclude, parseQualifications } from '../utils/officialUtils';
+
+const router = express.Router();
+
+const tournamentScope: TournamentScope = (tournamentId) => ({ assignments: { some: { fixture: { tournamentId } } } });
+
+/**
+ * @swagger
+ * /api/officials:
+ *   get:
+ *     summary: Retrieve a list of officials
+ *     tags: [Officials]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by name or email
+ *       - in: query
+ *         name: sportId
+ *         schema:
+ *           type: string
+ *         description: Only officials qualified in this sport
+ *       - in: query
+ *         name: universityId
+ *         schema:
+ *           type: string
+ *         description: Filter by home university ID
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Only officials assigned to a fixture in this tournament
+ *     responses:
+ *       200:
+ *         description: A list of officials
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Official'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { sportId, universityId, ...options }: QueryOptions = req.query;
+    const queryOptions: any = buildQueryOptions(options, ['name', 'email'], tournamentScope);
+    if (sportId) {
+      queryOptions.where.qualifications = { some: { sportId } };
+    }
+    if (universityId) {
+      queryOptions.where.universityId = universityId;
+    }
+
+    const [officials, total] = await Promise.all([
+      prisma.official.findMany({
+        ...queryOptions,
+        include: officialInclude,
+      }),
+      prisma.official.count({ where: queryOptions.where }),
+    ]);
+
+    res.json({
+      data: officials,
+      total,
+      page: options.page || 1,
+      limit: options.limit || 10,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching officials' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/officials:
+ *   post:
+ *     summary: Register an official
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OfficialInput'
+ *     responses:
+ *       201:
+ *         description: Registered official
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Official'
+ *       400:
+ *         description: Missing name, or invalid qualifications
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('official:create'), async (req, res): Promise<any> => {
+  try {
+    const { name, email, phone, universityId } = req.body;
+    const qualifications = parseQualifications(req.body.qualifications ?? []);
+    if (!name) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+    if (!qualifications) {
+      return res.status(400).json({ error: 'qualifications must be a list of sport IDs or { sportId, level }' });
+    }
+
+    const official = await prisma.official.create({
+      data: { name, email, phone, universityId, qualifications: { create: qualifications } },
+      include: officialInclude,
+    });
+    res.status(201).json(official);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while registering the official' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/officials/{id}:
+ *   get:
+ *     summary: Get an official by ID
+ *     tags: [Officials]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Official details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Official'
+ *       404:
+ *         description: Official not found
+ */
+router.get('/:id', async (req, res): Promise<any> => {
+  try {
+    const official = await prisma.official.findUnique({
+      where: { id: req.params.id },
+      include: officialInclude,
+    });
+    if (!official) {
+      return res.status(404).json({ error: 'Official not found' });
+    }
+    res.json(official);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the official' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/officials/{id}/schedule:
+ *   get:
+ *     summary: List the fixtures an official is assigned to
+ *     tags: [Officials]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only fixtures from this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only fixtures up to this time
+ *     responses:
+ *       200:
+ *         description: The official's assignments by kickoff, with fixtures not yet given a kickoff last
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   role:
+ *                     type: string
+ *                   fixture:
+ *                     $ref: '#/components/schemas/Fixture'
+ *       400:
+ *         description: Invalid from or to
+ *       404:
+ *         description: Official not found
+ */
+router.get('/:id/schedule', async (req, res): Promise<any> => {
+  try {
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'from and to must be dates' });
+    }
+    if (!(await prisma.official.findUnique({ where: { id: req.params.id } }))) {
+      return res.status(404).json({ error: 'Official not found' });
+    }
+
+    const assignments = await prisma.officialAssignment.findMany({
+      where: {
+        officialId: req.params.id,
+        fixture: from || to ? { date: { gte: from, lte: to } } : undefined,
+      },
+      include: {
+        fixture: { include: { sport: true, venue: true, homeTeam: true, awayTeam: true, result: true } },
+      },
+      orderBy: { fixture: { date: { sort: 'asc', nulls: 'last' } } },
+    });
+    res.json(assignments);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the schedule' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/officials/{id}:
+ *   put:
+ *     summary: Update an official
+ *     description: Qualifications, when given, replace the official's current ones.
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OfficialInput'
+ *     responses:
+ *       200:
+ *         description: Updated official
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Official'
+ *       400:
+ *         description: Invalid qualifications
+ *       404:
+ *         description: Official not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id', authenticate, authorize('official:update'), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const { name, email, phone, universityId } = req.body;
+    const qualifications = req.body.qualifications === undefined ? undefined : parseQualifications(req.body.qualifications);
+    if (qualifications === null) {
+      return res.status(400).json({ error: 'qualifications must be a list of sport IDs or { sportId, level }' });
+    }
+    if (!(await prisma.official.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Official not found' });
+    }
+
+    const official = await prisma.official.update({
+      where: { id },
+      data: {
+        name,
+        email,
+        phone,
+        universityId,
+        qualifications: qualifications && { deleteMany: {}, create: qualifications },
+      },
+      include: officialInclude,
+    });
+    res.json(official);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the official' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/officials/{id}:
+ *   delete:
+ *     summary: Delete an official
+ *     description: The official is also removed from every fixture they were assigned to.
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Official deleted successfully
+ *       404:
+ *         description: Official not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('official:delete'), async (req, res) => {
+  try {
+    await prisma.official.delete({ where: { id: req.params.id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while deleting the official' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OfficialInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Required when registering an official
+ *         email:
+ *           type: string
+ *         phone:
+ *           type: string
+ *         universityId:
+ *           type: string
+ *           description: The official's home university, whose fixtures they cannot officiate
+ *         qualifications:
+ *           type: array
+ *           description: The sports the official is qualified in, as sport IDs or with a grade
+ *           items:
+ *             type: object
+ *             properties:
+ *               sportId:
+ *                 type: string
+ *               level:
+ *                 type: string
+ *     Official:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         email:
+ *           type: string
+ *           nullable: true
+ *         phone:
+ *           type: string
+ *           nullable: true
+ *         universityId:
+ *           type: string
+ *           nullable: true
+ *         university:
+ *           $ref: '#/components/schemas/University'
+ *         qualifications:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               sportId:
+ *                 type: string
+ *               level:
+ *                 type: string
+ *                 nullable: true
+ *               sport:
+ *                 $ref: '#/components/schemas/Sport'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export default router;
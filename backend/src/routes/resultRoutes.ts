@@ -1,13 +1,18 @@
 import express from 'express';
-import { GameStatus } from '@prisma/client';
-import { buildQueryOptions, QueryOptions } from '../utils/queryUtils';
+import { Fixture, GameStatus, ScoringFormat } from '@prisma/client';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
 import { prisma } from '../lib/prisma';
-import { io } from '../app';
+import { authenticate, authorize } from '../middleware/auth';
+import { emitBracketUpdate, emitMedalUpdate, emitStandingsUpdate, emitToFixture } from '../utils/broadcastUtils';
+import { BoardScore, checkFinalScore, PeriodScore, scoreBoards, scoreResult, ScoringRules } from '../utils/scoringUtils';
+import { isScoringEvent } from '../utils/timelineUtils';
 import cloudinary from 'cloudinary';
 import multer from 'multer';
 
 const router = express.Router();
 
+const tournamentScope: TournamentScope = (tournamentId) => ({ fixture: { tournamentId } });
+
 // Configure Cloudinary
 cloudinary.v2.config({
   cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
@@ -18,6 +23,129 @@ cloudinary.v2.config({
 // Configure multer for file uploads
 const upload = multer({ dest: 'uploads/' });
 
+// Penalty counts are optional and only meaningful for drawn knockout matches
+function parseOptionalInt(value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value === null || value === '' ? null : parseInt(value as string);
+}
+
+// Scores are whole numbers, or half points in chess; NaN for anything else
+function parseOptionalScore(rules: ScoringRules, value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+  const score = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+  const steps = rules.scoringFormat === ScoringFormat.BOARDS ? 2 : 1;
+  return score >= 0 && Number.isInteger(score * steps) ? score : NaN;
+}
+
+// Lists sent as multipart form fields arrive as JSON strings
+function parseList(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Players on a board must be on the roster of the side they play for
+async function checkBoardPlayers(fixture: Fixture, boards: BoardScore[]): Promise<string | null> {
+  const athleteIds = boards.flatMap((board) => [board.homeAthleteId, board.awayAthleteId]).filter((id) => id !== null);
+  const teamIds = [fixture.homeTeamId, fixture.awayTeamId].filter((id) => id !== null);
+  const entries = athleteIds.length && teamIds.length
+    ? await prisma.rosterEntry.findMany({
+        where: { teamId: { in: teamIds }, athleteId: { in: athleteIds } },
+        select: { teamId: true, athleteId: true },
+      })
+    : [];
+  const onRoster = new Set(entries.map((entry) => `${entry.teamId}:${entry.athleteId}`));
+
+  for (const board of boards) {
+    const sides = [
+      [board.homeAthleteId, fixture.homeTeamId],
+      [board.awayAthleteId, fixture.awayTeamId],
+    ];
+    for (const [athleteId, teamId] of sides) {
+      if (athleteId && !onRoster.has(`${teamId}:${athleteId}`)) {
+        return `Board ${board.board}: ${athleteId} is not on the roster of the team they play for`;
+      }
+    }
+  }
+  return null;
+}
+
+const resultInclude = {
+  fixture: true,
+  periods: { orderBy: { number: 'asc' as const } },
+  boards: { orderBy: { board: 'asc' as const } },
+};
+
+type ResolvedScore =
+  | { error: string }
+  | { error: null; homeScore: number; awayScore: number; periods?: PeriodScore[]; boards?: BoardScore[] };
+
+/**
+ * Works out the score to store. When `periods` (or a chess match's `boards`)
+ * are sent the score is derived from them, and an entered homeScore/awayScore
+ * must agree. Otherwise the entered score is used, falling back to the
+ * current one; a result already scored by period or board can then only keep
+ * its score.
+ */
+function resolveScore(
+  rules: ScoringRules,
+  body: any,
+  status: GameStatus,
+  current?: { homeScore: number; awayScore: number; periods: unknown[]; boards: unknown[] }
+): ResolvedScore {
+  const entered = [parseOptionalScore(rules, body.homeScore), parseOptionalScore(rules, body.awayScore)];
+  if (entered.some((score) => Number.isNaN(score))) {
+    return {
+      error:
+        rules.scoringFormat === ScoringFormat.BOARDS
+          ? `homeScore and awayScore must be ${rules.name} board points in halves, e.g. 2.5`
+          : 'homeScore and awayScore must be whole numbers',
+    };
+  }
+  const homeScore = entered[0] ?? current?.homeScore;
+  const awayScore = entered[1] ?? current?.awayScore;
+
+  if (body.periods !== undefined || body.boards !== undefined) {
+    const key = body.boards !== undefined ? 'boards' : 'periods';
+    const list = parseList(body[key]);
+    if (list === undefined) {
+      return { error: `${key} must be valid JSON` };
+    }
+    const outcome = key === 'boards' ? scoreBoards(rules, list, status) : scoreResult(rules, list, status);
+    if (outcome.error !== null) {
+      return outcome;
+    }
+    if ((entered[0] != null && entered[0] !== outcome.homeScore) || (entered[1] != null && entered[1] !== outcome.awayScore)) {
+      return { error: `The entered score does not match the ${key}, which give ${outcome.homeScore}-${outcome.awayScore}` };
+    }
+    return outcome;
+  }
+
+  if (homeScore == null || awayScore == null) {
+    return { error: 'homeScore and awayScore, or periods, are required' };
+  }
+  if (current?.periods.length && (homeScore !== current.homeScore || awayScore !== current.awayScore)) {
+    return { error: 'This result is scored by period; send periods to change the score' };
+  }
+  if (current?.boards.length && (homeScore !== current.homeScore || awayScore !== current.awayScore)) {
+    return { error: 'This result is scored by board; send boards to change the score' };
+  }
+  const error = checkFinalScore(rules, homeScore, awayScore, status);
+  return error ? { error } : { error: null, homeScore, awayScore };
+}
+
 /**
  * @swagger
  * /api/results:
@@ -35,6 +163,11 @@ const upload = multer({ dest: 'uploads/' });
  *         schema:
  *           type: integer
  *         description: Number of items per page
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
  *     responses:
  *       200:
  *         description: A list of results
@@ -57,12 +190,12 @@ const upload = multer({ dest: 'uploads/' });
 router.get('/', async (req, res) => {
   try {
     const options: QueryOptions = req.query;
-    const queryOptions: any = buildQueryOptions(options, ['homeScore', 'awayScore', 'status']);
+    const queryOptions: any = buildQueryOptions(options, ['homeScore', 'awayScore', 'status'], tournamentScope);
 
     const [results, total] = await Promise.all([
       prisma.result.findMany({
         ...queryOptions,
-        include: { fixture: true },
+        include: resultInclude,
       }),
       prisma.result.count({ where: queryOptions.where }),
     ]);
@@ -84,6 +217,8 @@ router.get('/', async (req, res) => {
  *   post:
  *     summary: Create a new result
  *     tags: [Results]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -94,13 +229,16 @@ router.get('/', async (req, res) => {
  *               fixtureId:
  *                 type: string
  *               homeScore:
- *                 type: integer
+ *                 type: number
+ *                 description: Whole numbers, except chess board points such as 2.5
  *               awayScore:
- *                 type: integer
+ *                 type: number
  *               homeScorers:
  *                 type: string
+ *                 description: Deprecated; record GOAL or TRY events under /api/fixtures/{id}/events instead
  *               awayScorers:
  *                 type: string
+ *                 description: Deprecated; record GOAL or TRY events under /api/fixtures/{id}/events instead
  *               status:
  *                 type: string
  *                 enum: [NOT_STARTED, IN_PROGRESS, FINISHED, POSTPONED, CANCELLED]
@@ -108,6 +246,30 @@ router.get('/', async (req, res) => {
  *                 type: string
  *               timeElapsed:
  *                 type: integer
+ *               homePenalties:
+ *                 type: integer
+ *                 description: Shoot-out goals, used to decide drawn knockout matches
+ *               awayPenalties:
+ *                 type: integer
+ *               extraTime:
+ *                 type: boolean
+ *               periods:
+ *                 type: string
+ *                 description: >
+ *                   JSON list of period scores in order, e.g. halves, quarters
+ *                   or sets. The final score is derived from them. Rugby
+ *                   periods give homeTries, homeConversions, homePenaltyGoals
+ *                   and homeDropGoals (and the away equivalents) instead.
+ *                 example: '[{"homeScore": 25, "awayScore": 20}, {"homeScore": 23, "awayScore": 25}]'
+ *               boards:
+ *                 type: string
+ *                 description: >
+ *                   Chess only: JSON list of the games from board 1 down, each
+ *                   with a result from white's side (1-0, ½-½ or 0-1, or null
+ *                   while playing) and optionally homeAthleteId and
+ *                   awayAthleteId. The home team has white on odd boards. The
+ *                   final score is the board points.
+ *                 example: '[{"result": "1-0"}, {"result": "½-½"}, {"result": "0-1"}, {"result": "1/2-1/2"}]'
  *               image:
  *                 type: string
  *                 format: binary
@@ -118,10 +280,28 @@ router.get('/', async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Result'
+ *       400:
+ *         description: The score, periods or boards are invalid for the sport
+ *       404:
+ *         description: Fixture not found
+ *       403:
+ *         description: Insufficient permissions
  */
-router.post('/', upload.single('image'), async (req, res) => {
+router.post('/', authenticate, authorize('result:create'), upload.single('image'), async (req, res): Promise<any> => {
   try {
-    const { fixtureId, homeScore, awayScore, homeScorers, awayScorers, status, currentPeriod, timeElapsed } = req.body;
+    const { fixtureId, homeScorers, awayScorers, status, currentPeriod, timeElapsed, extraTime } = req.body;
+    const fixture = await prisma.fixture.findUnique({ where: { id: fixtureId ?? '' }, include: { sport: true } });
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+    const score = resolveScore(fixture.sport, req.body, (status as GameStatus) ?? GameStatus.IN_PROGRESS);
+    if (score.error !== null) {
+      return res.status(400).json({ error: score.error });
+    }
+    const playerError = score.boards && (await checkBoardPlayers(fixture, score.boards));
+    if (playerError) {
+      return res.status(400).json({ error: playerError });
+    }
     let imageUrl = null;
 
     if (req.file) {
@@ -132,19 +312,27 @@ router.post('/', upload.single('image'), async (req, res) => {
     const result = await prisma.result.create({
       data: {
         fixtureId,
-        homeScore: parseInt(homeScore),
-        awayScore: parseInt(awayScore),
+        homeScore: score.homeScore,
+        awayScore: score.awayScore,
         homeScorers: homeScorers ? JSON.parse(homeScorers) : [],
         awayScorers: awayScorers ? JSON.parse(awayScorers) : [],
         status: status as GameStatus,
         currentPeriod,
         timeElapsed: timeElapsed ? parseInt(timeElapsed) : null,
+        homePenalties: parseOptionalInt(req.body.homePenalties),
+        awayPenalties: parseOptionalInt(req.body.awayPenalties),
+        extraTime: extraTime === true || extraTime === 'true',
         imageUrl,
+        periods: score.periods ? { create: score.periods } : undefined,
+        boards: score.boards ? { create: score.boards } : undefined,
       },
-      include: { fixture: true },
+      include: resultInclude,
     });
 
-    io.emit('resultUpdate', result);
+    emitToFixture(result.fixtureId, ['resultUpdate', result]);
+    emitStandingsUpdate(result.fixtureId);
+    emitBracketUpdate(result.fixtureId);
+    emitMedalUpdate(result.fixtureId);
 
     res.status(201).json(result);
   } catch (error) {
@@ -179,7 +367,7 @@ router.get('/:id', async (req, res): Promise<any>=> {
     const { id } = req.params;
     const result = await prisma.result.findUnique({
       where: { id },
-      include: { fixture: true },
+      include: resultInclude,
     });
     if (!result) {
       return res.status(404).json({ error: 'Result not found' });
@@ -196,6 +384,8 @@ router.get('/:id', async (req, res): Promise<any>=> {
  *   put:
  *     summary: Update a result
  *     tags: [Results]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -210,13 +400,16 @@ router.get('/:id', async (req, res): Promise<any>=> {
  *             type: object
  *             properties:
  *               homeScore:
- *                 type: integer
+ *                 type: number
+ *                 description: Whole numbers, except chess board points such as 2.5
  *               awayScore:
- *                 type: integer
+ *                 type: number
  *               homeScorers:
  *                 type: string
+ *                 description: Deprecated; record GOAL or TRY events under /api/fixtures/{id}/events instead
  *               awayScorers:
  *                 type: string
+ *                 description: Deprecated; record GOAL or TRY events under /api/fixtures/{id}/events instead
  *               status:
  *                 type: string
  *                 enum: [NOT_STARTED, IN_PROGRESS, FINISHED, POSTPONED, CANCELLED]
@@ -224,6 +417,30 @@ router.get('/:id', async (req, res): Promise<any>=> {
  *                 type: string
  *               timeElapsed:
  *                 type: integer
+ *               homePenalties:
+ *                 type: integer
+ *                 description: Shoot-out goals, used to decide drawn knockout matches
+ *               awayPenalties:
+ *                 type: integer
+ *               extraTime:
+ *                 type: boolean
+ *               periods:
+ *                 type: string
+ *                 description: >
+ *                   JSON list of period scores in order, e.g. halves, quarters
+ *                   or sets. The final score is derived from them. Rugby
+ *                   periods give homeTries, homeConversions, homePenaltyGoals
+ *                   and homeDropGoals (and the away equivalents) instead.
+ *                 example: '[{"homeScore": 25, "awayScore": 20}, {"homeScore": 23, "awayScore": 25}]'
+ *               boards:
+ *                 type: string
+ *                 description: >
+ *                   Chess only: JSON list of the games from board 1 down, each
+ *                   with a result from white's side (1-0, ½-½ or 0-1, or null
+ *                   while playing) and optionally homeAthleteId and
+ *                   awayAthleteId. The home team has white on odd boards. The
+ *                   final score is the board points.
+ *                 example: '[{"result": "1-0"}, {"result": "½-½"}, {"result": "0-1"}, {"result": "1/2-1/2"}]'
  *               image:
  *                 type: string
  *                 format: binary
@@ -234,13 +451,41 @@ router.get('/:id', async (req, res): Promise<any>=> {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Result'
+ *       400:
+ *         description: The score, periods or boards are invalid for the sport
  *       404:
  *         description: Result not found
+ *       409:
+ *         description: The score is derived from the fixture's match events
+ *       403:
+ *         description: Insufficient permissions
  */
-router.put('/:id', upload.single('image'), async (req, res) => {
+router.put('/:id', authenticate, authorize('result:update'), upload.single('image'), async (req, res): Promise<any> => {
   try {
     const { id } = req.params;
-    const { homeScore, awayScore, homeScorers, awayScorers, status, currentPeriod, timeElapsed } = req.body;
+    const { homeScorers, awayScorers, status, currentPeriod, timeElapsed, extraTime } = req.body;
+    const existing = await prisma.result.findUnique({
+      where: { id },
+      include: { fixture: { include: { sport: true, events: true } }, periods: true, boards: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Result not found' });
+    }
+    const { sport, events } = existing.fixture;
+    const changesScore = ['homeScore', 'awayScore', 'periods', 'boards'].some((key) => req.body[key] !== undefined);
+    if (changesScore && events.some((event) => isScoringEvent(sport, event.type))) {
+      return res.status(409).json({
+        error: 'The score is derived from the match events; record or correct events instead',
+      });
+    }
+    const score = resolveScore(sport, req.body, (status as GameStatus) ?? existing.status, existing);
+    if (score.error !== null) {
+      return res.status(400).json({ error: score.error });
+    }
+    const playerError = score.boards && (await checkBoardPlayers(existing.fixture, score.boards));
+    if (playerError) {
+      return res.status(400).json({ error: playerError });
+    }
     let imageUrl = undefined;
 
     if (req.file) {
@@ -251,19 +496,27 @@ router.put('/:id', upload.single('image'), async (req, res) => {
     const result = await prisma.result.update({
       where: { id },
       data: {
-        homeScore: parseInt(homeScore),
-        awayScore: parseInt(awayScore),
+        homeScore: score.homeScore,
+        awayScore: score.awayScore,
         homeScorers: homeScorers ? JSON.parse(homeScorers) : undefined,
         awayScorers: awayScorers ? JSON.parse(awayScorers) : undefined,
         status: status as GameStatus,
         currentPeriod,
         timeElapsed: timeElapsed ? parseInt(timeElapsed) : null,
+        homePenalties: parseOptionalInt(req.body.homePenalties),
+        awayPenalties: parseOptionalInt(req.body.awayPenalties),
+        extraTime: extraTime === undefined ? undefined : extraTime === true || extraTime === 'true',
         imageUrl,
+        periods: score.periods ? { deleteMany: {}, create: score.periods } : undefined,
+        boards: score.boards ? { deleteMany: {}, create: score.boards } : undefined,
       },
-      include: { fixture: true },
+      include: resultInclude,
     });
 
-    io.emit('resultUpdate', result);
+    emitToFixture(result.fixtureId, ['resultUpdate', result]);
+    emitStandingsUpdate(result.fixtureId);
+    emitBracketUpdate(result.fixtureId);
+    emitMedalUpdate(result.fixtureId);
 
     res.json(result);
   } catch (error) {
@@ -277,6 +530,8 @@ router.put('/:id', upload.single('image'), async (req, res) => {
  *   delete:
  *     summary: Delete a result
  *     tags: [Results]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -288,12 +543,16 @@ router.put('/:id', upload.single('image'), async (req, res) => {
  *         description: Result deleted successfully
  *       404:
  *         description: Result not found
+ *       403:
+ *         description: Insufficient permissions
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', authenticate, authorize('result:delete'), async (req, res) => {
   try {
     const { id } = req.params;
-    await prisma.result.delete({ where: { id } });
-    io.emit('resultDelete', id);
+    const result = await prisma.result.delete({ where: { id } });
+    emitToFixture(result.fixtureId, ['resultDelete', id]);
+    emitStandingsUpdate(result.fixtureId);
+    emitMedalUpdate(result.fixtureId);
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ error: 'An error occurred while deleting the result' });
@@ -312,9 +571,10 @@ router.delete('/:id', async (req, res) => {
  *         fixtureId:
  *           type: string
  *         homeScore:
- *           type: integer
+ *           type: number
+ *           description: Whole numbers, except chess board points such as 2.5
  *         awayScore:
- *           type: integer
+ *           type: number
  *         homeScorers:
  *           type: array
  *           items:
@@ -330,8 +590,24 @@ router.delete('/:id', async (req, res) => {
  *           type: string
  *         timeElapsed:
  *           type: integer
+ *         homePenalties:
+ *           type: integer
+ *           nullable: true
+ *         awayPenalties:
+ *           type: integer
+ *           nullable: true
+ *         extraTime:
+ *           type: boolean
  *         imageUrl:
  *           type: string
+ *         periods:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ResultPeriod'
+ *         boards:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/BoardResult'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -340,6 +616,58 @@ router.delete('/:id', async (req, res) => {
  *           format: date-time
  *         fixture:
  *           $ref: '#/components/schemas/Fixture'
+ *     ResultPeriod:
+ *       type: object
+ *       description: A half, quarter, set or overtime period
+ *       properties:
+ *         number:
+ *           type: integer
+ *           description: Periods after the sport's periodCount are overtime
+ *         homeScore:
+ *           type: integer
+ *         awayScore:
+ *           type: integer
+ *         homeTries:
+ *           type: integer
+ *           nullable: true
+ *         homeConversions:
+ *           type: integer
+ *           nullable: true
+ *         homePenaltyGoals:
+ *           type: integer
+ *           nullable: true
+ *         homeDropGoals:
+ *           type: integer
+ *           nullable: true
+ *         awayTries:
+ *           type: integer
+ *           nullable: true
+ *         awayConversions:
+ *           type: integer
+ *           nullable: true
+ *         awayPenaltyGoals:
+ *           type: integer
+ *           nullable: true
+ *         awayDropGoals:
+ *           type: integer
+ *           nullable: true
+ *     BoardResult:
+ *       type: object
+ *       description: One game of a chess match
+ *       properties:
+ *         board:
+ *           type: integer
+ *           description: The home team has white on odd boards
+ *         homeAthleteId:
+ *           type: string
+ *           nullable: true
+ *         awayAthleteId:
+ *           type: string
+ *           nullable: true
+ *         outcome:
+ *           type: string
+ *           enum: [WHITE_WIN, DRAW, BLACK_WIN]
+ *           nullable: true
  */
 
 export default router;
@@ -0,0 +1,281 @@
+import express from 'express';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { ResourceOwner } from '../utils/permissions';
+import { athleteInclude, checkJerseyNumber, checkJerseyTaken, checkRosterEntry, rosterEntryInclude } from '../utils/rosterUtils';
+
+// Mounted under /api/teams/:teamId/roster
+const router = express.Router({ mergeParams: true });
+
+type RosterParams = { teamId: string; athleteId: string };
+
+// Rosters are managed by whoever manages the team
+async function resolveTeamOwner(req: express.Request): Promise<ResourceOwner | null> {
+  return prisma.team.findUnique({
+    where: { id: req.params.teamId },
+    select: { universityId: true },
+  });
+}
+
+/**
+ * @swagger
+ * /api/teams/{teamId}/roster:
+ *   get:
+ *     summary: List a team's registered athletes
+ *     tags: [Rosters]
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The roster, by shirt number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/RosterEntry'
+ *       404:
+ *         description: Team not found
+ */
+router.get('/', async (req: express.Request<RosterParams>, res): Promise<any> => {
+  try {
+    const team = await prisma.team.findUnique({
+      where: { id: req.params.teamId },
+      include: { roster: { include: rosterEntryInclude, orderBy: { jerseyNumber: 'asc' } } },
+    });
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    res.json(team.roster);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the roster' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/teams/{teamId}/roster:
+ *   post:
+ *     summary: Register an athlete to a team
+ *     description: >
+ *       The athlete must study at the team's university and match its gender
+ *       category (OTHER teams are open to everyone), may play each sport for
+ *       one team only, and the squad must be below the sport's maxSquadSize.
+ *     tags: [Rosters]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RosterEntryInput'
+ *     responses:
+ *       201:
+ *         description: The athlete's roster entry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RosterEntry'
+ *       400:
+ *         description: Missing or unknown athlete, or an invalid shirt number
+ *       404:
+ *         description: Team not found
+ *       409:
+ *         description: The athlete is not eligible for the team, the squad is full or the shirt number is taken
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('team:update', resolveTeamOwner), async (req: express.Request<RosterParams>, res): Promise<any> => {
+  try {
+    const { athleteId, jerseyNumber, position, isCaptain } = req.body;
+    const jerseyError = checkJerseyNumber(jerseyNumber);
+    if (!athleteId || jerseyError) {
+      return res.status(400).json({ error: jerseyError ?? 'athleteId is required' });
+    }
+
+    const [team, athlete] = await Promise.all([
+      prisma.team.findUnique({ where: { id: req.params.teamId }, include: { sport: true } }),
+      prisma.athlete.findUnique({ where: { id: athleteId }, include: athleteInclude }),
+    ]);
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    if (!athlete) {
+      return res.status(400).json({ error: 'Athlete not found' });
+    }
+    const conflict = (await checkRosterEntry(team, athlete)) ?? (await checkJerseyTaken(team.id, jerseyNumber));
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+
+    const entry = await prisma.rosterEntry.create({
+      data: { teamId: team.id, athleteId, jerseyNumber, position, isCaptain },
+      include: rosterEntryInclude,
+    });
+    res.status(201).json(entry);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while registering the athlete' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/teams/{teamId}/roster/{athleteId}:
+ *   put:
+ *     summary: Change an athlete's shirt number, position or captaincy
+ *     tags: [Rosters]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: athleteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RosterEntryInput'
+ *     responses:
+ *       200:
+ *         description: The updated roster entry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RosterEntry'
+ *       400:
+ *         description: Invalid shirt number
+ *       404:
+ *         description: The athlete is not on the team's roster
+ *       409:
+ *         description: The shirt number is taken
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:athleteId', authenticate, authorize('team:update', resolveTeamOwner), async (req: express.Request<RosterParams>, res): Promise<any> => {
+  try {
+    const { teamId, athleteId } = req.params;
+    const { jerseyNumber, position, isCaptain } = req.body;
+    const jerseyError = checkJerseyNumber(jerseyNumber);
+    if (jerseyError) {
+      return res.status(400).json({ error: jerseyError });
+    }
+
+    const where = { teamId_athleteId: { teamId, athleteId } };
+    if (!(await prisma.rosterEntry.findUnique({ where }))) {
+      return res.status(404).json({ error: 'The athlete is not on the roster' });
+    }
+    const taken = await checkJerseyTaken(teamId, jerseyNumber, athleteId);
+    if (taken) {
+      return res.status(409).json({ error: taken });
+    }
+
+    const entry = await prisma.rosterEntry.update({
+      where,
+      data: { jerseyNumber, position, isCaptain },
+      include: rosterEntryInclude,
+    });
+    res.json(entry);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the roster entry' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/teams/{teamId}/roster/{athleteId}:
+ *   delete:
+ *     summary: Remove an athlete from a team
+ *     tags: [Rosters]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: athleteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Athlete removed from the roster
+ *       404:
+ *         description: The athlete is not on the team's roster
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:athleteId', authenticate, authorize('team:update', resolveTeamOwner), async (req: express.Request<RosterParams>, res): Promise<any> => {
+  try {
+    const { teamId, athleteId } = req.params;
+    const { count } = await prisma.rosterEntry.deleteMany({ where: { teamId, athleteId } });
+    if (!count) {
+      return res.status(404).json({ error: 'The athlete is not on the roster' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while removing the athlete from the roster' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RosterEntryInput:
+ *       type: object
+ *       properties:
+ *         athleteId:
+ *           type: string
+ *           description: Required when registering an athlete
+ *         jerseyNumber:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 99
+ *         position:
+ *           type: string
+ *         isCaptain:
+ *           type: boolean
+ *     RosterEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         teamId:
+ *           type: string
+ *         athleteId:
+ *           type: string
+ *         jerseyNumber:
+ *           type: integer
+ *           nullable: true
+ *         position:
+ *           type: string
+ *           nullable: true
+ *         isCaptain:
+ *           type: boolean
+ *         athlete:
+ *           $ref: '#/components/schemas/Athlete'
+ */
+
+export default router;
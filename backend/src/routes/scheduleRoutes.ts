@@ -0,0 +1,315 @@
+import express from 'express';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { applySchedulePlan, loadSchedulingProblem, PrioritySlot, solveSchedule, SolverOptions } from '../utils/solverUtils';
+import { isTimeOfDay } from '../utils/venueUtils';
+import { parseDay, startOfDay } from '../utils/timeUtils';
+import { tournamentSpan } from '../utils/fixtureUtils';
+
+const router = express.Router();
+
+const isOverride = (value: unknown) => value === true || value === 'true';
+
+function parsePrioritySlots(slots: unknown): PrioritySlot[] | null {
+  if (slots === undefined) {
+    return [];
+  }
+  if (!Array.isArray(slots)) {
+    return null;
+  }
+  const parsed = slots.map((slot: any) => ({
+    fixtureId: slot?.fixtureId,
+    startsAt: new Date(slot?.startsAt),
+    endsAt: slot?.endsAt ? new Date(slot.endsAt) : null,
+    venueId: slot?.venueId || null,
+    label: slot?.label || null,
+  }));
+  const valid = parsed.every(
+    (slot) =>
+      typeof slot.fixtureId === 'string' &&
+      !isNaN(slot.startsAt.getTime()) &&
+      (!slot.endsAt || slot.endsAt >= slot.startsAt)
+  );
+  return valid && new Set(parsed.map((slot) => slot.fixtureId)).size === parsed.length ? parsed : null;
+}
+
+/**
+ * @swagger
+ * /api/schedules/solve:
+ *   post:
+ *     summary: Propose kickoffs and venues for unscheduled fixtures
+ *     description: >
+ *       Assigns a date, time and venue to every fixture of the tournament
+ *       without a kickoff (or to the given fixtures, which may be rescheduled).
+ *       Each fixture takes the earliest slot where its venue hosts the sport,
+ *       is open and free, neither team is playing or still resting, and no team
+ *       of the same university sharing athletes with it is playing. Fixtures
+ *       with priority slots (e.g. TV matches) are placed first. By default this
+ *       is a dry run returning the proposal and the fixtures that cannot be
+ *       placed, with the reasons; send `dryRun=false` to apply it in a single
+ *       transaction.
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tournamentId
+ *             properties:
+ *               tournamentId:
+ *                 type: string
+ *               sportId:
+ *                 type: string
+ *                 description: Only schedule this sport's fixtures
+ *               fixtureIds:
+ *                 type: array
+ *                 description: Fixtures to (re)schedule instead of every unscheduled fixture
+ *                 items:
+ *                   type: string
+ *               from:
+ *                 type: string
+ *                 format: date
+ *                 description: First day to use (defaults to the tournament start)
+ *               to:
+ *                 type: string
+ *                 format: date
+ *                 description: Last day to use (defaults to the tournament end)
+ *               dayStart:
+ *                 type: string
+ *                 default: "08:00"
+ *                 description: First kickoff at venues without opening hours
+ *               dayEnd:
+ *                 type: string
+ *                 default: "20:00"
+ *                 description: Time matches must end by at venues without opening hours
+ *               slotMinutes:
+ *                 type: integer
+ *                 default: 30
+ *                 description: Kickoffs fall on multiples of this many minutes past midnight
+ *               venueIds:
+ *                 type: array
+ *                 description: Venues to use (defaults to every venue hosting the sport)
+ *                 items:
+ *                   type: string
+ *               sharedAthletes:
+ *                 type: array
+ *                 description: >
+ *                   Sets of sport IDs whose teams from the same university and
+ *                   gender share athletes, e.g. [["<football>", "<rugby>"]]
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *               prioritySlots:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/PrioritySlot'
+ *               dryRun:
+ *                 type: boolean
+ *                 default: true
+ *               allowPartial:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Apply the proposal even though some fixtures could not be placed
+ *     responses:
+ *       200:
+ *         description: The proposal, applied unless this was a dry run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleProposal'
+ *       400:
+ *         description: Invalid options
+ *       404:
+ *         description: Tournament not found
+ *       422:
+ *         description: >
+ *           The request has errors, or some fixtures could not be placed and
+ *           allowPartial was not set; nothing was applied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleProposal'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/solve', authenticate, authorize('fixture:update'), async (req, res): Promise<any> => {
+  try {
+    const { tournamentId, sportId, fixtureIds, from, to } = req.body;
+    const dryRun = req.body.dryRun !== 'false' && req.body.dryRun !== false;
+    const dayStart = req.body.dayStart ?? '08:00';
+    const dayEnd = req.body.dayEnd ?? '20:00';
+    const slotMinutes = req.body.slotMinutes ? parseInt(req.body.slotMinutes) : 30;
+    const prioritySlots = parsePrioritySlots(req.body.prioritySlots);
+    const sharedAthletes = req.body.sharedAthletes ?? [];
+
+    if (!isTimeOfDay(dayStart) || !isTimeOfDay(dayEnd) || dayStart >= dayEnd) {
+      return res.status(400).json({ error: 'dayStart and dayEnd must be times such as 08:00 and 20:00, in order' });
+    }
+    if (isNaN(slotMinutes) || slotMinutes < 5) {
+      return res.status(400).json({ error: 'slotMinutes must be at least 5' });
+    }
+    if (!prioritySlots) {
+      return res.status(400).json({
+        error: 'Each priority slot needs a fixtureId and a valid startsAt (before endsAt), one per fixture',
+      });
+    }
+    if (!Array.isArray(sharedAthletes) || sharedAthletes.some((sportIds) => !Array.isArray(sportIds))) {
+      return res.status(400).json({ error: 'sharedAthletes must be a list of lists of sport IDs' });
+    }
+    if (fixtureIds !== undefined && !Array.isArray(fixtureIds)) {
+      return res.status(400).json({ error: 'fixtureIds must be a list' });
+    }
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId ?? '' } });
+    if (!tournament) {
+      return res.status(404).json({ error: 'Tournament not found' });
+    }
+
+    // Kickoffs must stay within the tournament, like any other fixture
+    const span = tournamentSpan(tournament);
+    const firstDay = from ? parseDay(String(from)) : span.start;
+    const lastDayStart = to ? parseDay(String(to)) : null;
+    if (!firstDay || (to && !lastDayStart)) {
+      return res.status(400).json({ error: 'from and to must be days such as 2024-12-16' });
+    }
+    // Days are read in the app's time zone; the last kickoff can be a minute before midnight
+    const lastKickoff = new Date(span.end.getTime() - 60 * 1000);
+    const lastDay = lastDayStart ? new Date(startOfDay(lastDayStart, 1).getTime() - 60 * 1000) : lastKickoff;
+
+    const options: SolverOptions = {
+      from: firstDay > span.start ? firstDay : span.start,
+      to: lastDay < lastKickoff ? lastDay : lastKickoff,
+      dayStart,
+      dayEnd,
+      slotMinutes,
+      venueIds: Array.isArray(req.body.venueIds) ? req.body.venueIds : null,
+      sharedAthletes,
+      prioritySlots,
+    };
+    const errors = options.prioritySlots
+      .filter((slot) => slot.startsAt < span.start || (slot.endsAt ?? slot.startsAt) > span.end)
+      .map((slot) => `The priority slot of fixture ${slot.fixtureId} falls outside the tournament dates`);
+
+    const problem = await loadSchedulingProblem(tournament, { fixtureIds: fixtureIds ?? null, sportId: sportId ?? null }, options);
+    errors.push(...problem.errors);
+    const plan = solveSchedule(problem, options);
+
+    const report = {
+      dryRun,
+      applied: false,
+      summary: {
+        fixtures: problem.fixtures.length,
+        scheduled: plan.scheduled.length,
+        unscheduled: plan.unscheduled.length,
+      },
+      ...plan,
+      errors,
+    };
+
+    if (dryRun) {
+      return res.json(report);
+    }
+    if (errors.length || (plan.unscheduled.length && !isOverride(req.body.allowPartial))) {
+      return res.status(422).json(report);
+    }
+
+    await applySchedulePlan(plan);
+    res.json({ ...report, applied: true });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while solving the schedule' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PrioritySlot:
+ *       type: object
+ *       required:
+ *         - fixtureId
+ *         - startsAt
+ *       properties:
+ *         fixtureId:
+ *           type: string
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *           description: The kickoff, or the start of the window when endsAt is given
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           description: Latest kickoff
+ *         venueId:
+ *           type: string
+ *           description: Venue the fixture must be played at
+ *         label:
+ *           type: string
+ *           example: TV
+ *     ScheduleProposal:
+ *       type: object
+ *       properties:
+ *         dryRun:
+ *           type: boolean
+ *         applied:
+ *           type: boolean
+ *         summary:
+ *           type: object
+ *           properties:
+ *             fixtures:
+ *               type: integer
+ *             scheduled:
+ *               type: integer
+ *             unscheduled:
+ *               type: integer
+ *         scheduled:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               fixtureId:
+ *                 type: string
+ *               fixture:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               venueId:
+ *                 type: string
+ *               venue:
+ *                 type: string
+ *               priority:
+ *                 type: string
+ *               previous:
+ *                 type: object
+ *                 properties:
+ *                   date:
+ *                     type: string
+ *                     format: date-time
+ *                   venueId:
+ *                     type: string
+ *         unscheduled:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               fixtureId:
+ *                 type: string
+ *               fixture:
+ *                 type: string
+ *               reasons:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *         errors:
+ *           type: array
+ *           items:
+ *             type: string
+ */
+
+export default router;
@@ -1,9 +1,26 @@
 import express from 'express';
-import { buildQueryOptions, QueryOptions } from '../utils/queryUtils';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
 import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { ResourceOwner } from '../utils/permissions';
 
 const router = express.Router();
 
+const tournamentScope: TournamentScope = (tournamentId) => ({ fixtures: { some: { tournamentId } } });
+
+// A sport belongs to its university; moving it to another university requires
+// owning both the current and the target university.
+async function resolveSportOwners(req: express.Request): Promise<ResourceOwner[] | null> {
+  const sport = await prisma.sport.findUnique({
+    where: { id: req.params.id },
+    select: { universityId: true },
+  });
+  if (!sport) {
+    return null;
+  }
+  return req.body.universityId ? [sport, { universityId: req.body.universityId }] : [sport];
+}
+
 /**
  * @swagger
  * /api/sports:
@@ -31,6 +48,11 @@ const router = express.Router();
  *         schema:
  *           type: string
  *         description: Filter sports by name (case-insensitive)
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
  *     responses:
  *       200:
  *         description: A paginated list of sports
@@ -65,7 +87,7 @@ const router = express.Router();
 router.get('/', async (req, res) => {
   try {
     const options: QueryOptions = req.query;
-    const queryOptions: any = buildQueryOptions(options, ['name']);
+    const queryOptions: any = buildQueryOptions(options, ['name'], tournamentScope);
 
     const [sports, total] = await Promise.all([
       prisma.sport.findMany({
@@ -92,6 +114,8 @@ router.get('/', async (req, res) => {
  *   post:
  *     summary: Create a new sport
  *     tags: [Sports]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -108,6 +132,65 @@ router.get('/', async (req, res) => {
  *               type:
  *                 type: string
  *                 description: Type of the sport
+ *               universityId:
+ *                 type: string
+ *                 description: University the sport belongs to
+ *               pointsForWin:
+ *                 type: integer
+ *                 description: League table points for a win (default 3)
+ *               pointsForDraw:
+ *                 type: integer
+ *                 description: League table points for a draw (default 1)
+ *               pointsForLoss:
+ *                 type: integer
+ *                 description: League table points for a loss (default 0)
+ *               standingsTiebreak:
+ *                 type: string
+ *                 enum: [DIFFERENCE, RATIO, BUCHHOLZ]
+ *                 description: >
+ *                   Orders teams level on points by score difference or ratio,
+ *                   or by the scores of their opponents (Buchholz, then
+ *                   Sonneborn-Berger) for Swiss chess events
+ *               matchDurationMinutes:
+ *                 type: integer
+ *                 description: How long a match occupies its venue (default 90)
+ *               minRestMinutes:
+ *                 type: integer
+ *                 description: Minimum rest for a team between matches (default 60)
+ *               scoringFormat:
+ *                 type: string
+ *                 enum: [TOTAL, PERIODS, SETS, RUGBY, BOARDS]
+ *                 description: >
+ *                   How results are broken down: final score only, scores per
+ *                   half or quarter, sets, rugby scoring actions per half, or
+ *                   chess games per board (default TOTAL)
+ *               periodCount:
+ *                 type: integer
+ *                 description: Halves or quarters of regulation time, the most sets to play, or the boards of a chess match (default 2)
+ *               setPoints:
+ *                 type: integer
+ *                 description: Points to win a set (default 25)
+ *               decidingSetPoints:
+ *                 type: integer
+ *                 description: Points to win the deciding set (default 15)
+ *               setWinMargin:
+ *                 type: integer
+ *                 description: Margin a set must be won by (default 2)
+ *               periodMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Length of a period on the game clock; leave unset for sports without a clock
+ *               overtimeMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Length of an overtime period, if different
+ *               clockCountsDown:
+ *                 type: boolean
+ *                 description: Show the time left in the period rather than the match time (default false)
+ *               maxSquadSize:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Most athletes a team may register; unlimited when unset
  *     responses:
  *       201:
  *         description: Sport created successfully
@@ -124,12 +207,52 @@ router.get('/', async (req, res) => {
  *               properties:
  *                 error:
  *                   type: string
+ *       403:
+ *         description: Insufficient permissions
  */
-router.post('/', async (req, res) => {
+router.post('/', authenticate, authorize('sport:create', async (req) => ({ universityId: req.body.universityId })), async (req, res) => {
   try {
-    const { name, type } = req.body;
+    const {
+      name,
+      type,
+      universityId,
+      pointsForWin,
+      pointsForDraw,
+      pointsForLoss,
+      standingsTiebreak,
+      matchDurationMinutes,
+      minRestMinutes,
+      scoringFormat,
+      periodCount,
+      setPoints,
+      decidingSetPoints,
+      setWinMargin,
+      periodMinutes,
+      overtimeMinutes,
+      clockCountsDown,
+      maxSquadSize,
+    } = req.body;
     const sport = await prisma.sport.create({
-      data: { name, type },
+      data: {
+        name,
+        type,
+        universityId,
+        pointsForWin,
+        pointsForDraw,
+        pointsForLoss,
+        standingsTiebreak,
+        matchDurationMinutes,
+        minRestMinutes,
+        scoringFormat,
+        periodCount,
+        setPoints,
+        decidingSetPoints,
+        setWinMargin,
+        periodMinutes,
+        overtimeMinutes,
+        clockCountsDown,
+        maxSquadSize,
+      },
       include: { fixtures: true },
     });
     res.status(201).json(sport);
@@ -199,6 +322,8 @@ router.get('/:id', async (req, res): Promise<any> => {
  *   put:
  *     summary: Update a sport
  *     tags: [Sports]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -219,6 +344,65 @@ router.get('/:id', async (req, res): Promise<any> => {
  *               type:
  *                 type: string
  *                 description: Updated type of the sport
+ *               universityId:
+ *                 type: string
+ *                 description: University the sport belongs to
+ *               pointsForWin:
+ *                 type: integer
+ *                 description: League table points for a win (default 3)
+ *               pointsForDraw:
+ *                 type: integer
+ *                 description: League table points for a draw (default 1)
+ *               pointsForLoss:
+ *                 type: integer
+ *                 description: League table points for a loss (default 0)
+ *               standingsTiebreak:
+ *                 type: string
+ *                 enum: [DIFFERENCE, RATIO, BUCHHOLZ]
+ *                 description: >
+ *                   Orders teams level on points by score difference or ratio,
+ *                   or by the scores of their opponents (Buchholz, then
+ *                   Sonneborn-Berger) for Swiss chess events
+ *               matchDurationMinutes:
+ *                 type: integer
+ *                 description: How long a match occupies its venue (default 90)
+ *               minRestMinutes:
+ *                 type: integer
+ *                 description: Minimum rest for a team between matches (default 60)
+ *               scoringFormat:
+ *                 type: string
+ *                 enum: [TOTAL, PERIODS, SETS, RUGBY, BOARDS]
+ *                 description: >
+ *                   How results are broken down: final score only, scores per
+ *                   half or quarter, sets, rugby scoring actions per half, or
+ *                   chess games per board (default TOTAL)
+ *               periodCount:
+ *                 type: integer
+ *                 description: Halves or quarters of regulation time, the most sets to play, or the boards of a chess match (default 2)
+ *               setPoints:
+ *                 type: integer
+ *                 description: Points to win a set (default 25)
+ *               decidingSetPoints:
+ *                 type: integer
+ *                 description: Points to win the deciding set (default 15)
+ *               setWinMargin:
+ *                 type: integer
+ *                 description: Margin a set must be won by (default 2)
+ *               periodMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Length of a period on the game clock; leave unset for sports without a clock
+ *               overtimeMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Length of an overtime period, if different
+ *               clockCountsDown:
+ *                 type: boolean
+ *                 description: Show the time left in the period rather than the match time (default false)
+ *               maxSquadSize:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Most athletes a team may register; unlimited when unset
  *     responses:
  *       200:
  *         description: Sport updated successfully
@@ -244,14 +428,54 @@ router.get('/:id', async (req, res): Promise<any> => {
  *               properties:
  *                 error:
  *                   type: string
+ *       403:
+ *         description: Insufficient permissions
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', authenticate, authorize('sport:update', resolveSportOwners), async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, type } = req.body;
+    const {
+      name,
+      type,
+      universityId,
+      pointsForWin,
+      pointsForDraw,
+      pointsForLoss,
+      standingsTiebreak,
+      matchDurationMinutes,
+      minRestMinutes,
+      scoringFormat,
+      periodCount,
+      setPoints,
+      decidingSetPoints,
+      setWinMargin,
+      periodMinutes,
+      overtimeMinutes,
+      clockCountsDown,
+      maxSquadSize,
+    } = req.body;
     const sport = await prisma.sport.update({
       where: { id },
-      data: { name, type },
+      data: {
+        name,
+        type,
+        universityId,
+        pointsForWin,
+        pointsForDraw,
+        pointsForLoss,
+        standingsTiebreak,
+        matchDurationMinutes,
+        minRestMinutes,
+        scoringFormat,
+        periodCount,
+        setPoints,
+        decidingSetPoints,
+        setWinMargin,
+        periodMinutes,
+        overtimeMinutes,
+        clockCountsDown,
+        maxSquadSize,
+      },
       include: { university: true, fixtures: true  },
     });
     res.json(sport);
@@ -266,6 +490,8 @@ router.put('/:id', async (req, res) => {
  *   delete:
  *     summary: Delete a sport
  *     tags: [Sports]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -294,8 +520,10 @@ router.put('/:id', async (req, res) => {
  *               properties:
  *                 error:
  *                   type: string
+ *       403:
+ *         description: Insufficient permissions
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', authenticate, authorize('sport:delete', resolveSportOwners), async (req, res) => {
   try {
     const { id } = req.params;
     await prisma.sport.delete({ where: { id } });
@@ -325,6 +553,41 @@ router.delete('/:id', async (req, res) => {
  *         type:
  *           type: string
  *           description: Type of the sport
+ *         pointsForWin:
+ *           type: integer
+ *         pointsForDraw:
+ *           type: integer
+ *         pointsForLoss:
+ *           type: integer
+ *         standingsTiebreak:
+ *           type: string
+ *           enum: [DIFFERENCE, RATIO, BUCHHOLZ]
+ *         matchDurationMinutes:
+ *           type: integer
+ *         minRestMinutes:
+ *           type: integer
+ *         scoringFormat:
+ *           type: string
+ *           enum: [TOTAL, PERIODS, SETS, RUGBY, BOARDS]
+ *         periodCount:
+ *           type: integer
+ *         setPoints:
+ *           type: integer
+ *         decidingSetPoints:
+ *           type: integer
+ *         setWinMargin:
+ *           type: integer
+ *         periodMinutes:
+ *           type: integer
+ *           nullable: true
+ *         overtimeMinutes:
+ *           type: integer
+ *           nullable: true
+ *         clockCountsDown:
+ *           type: boolean
+ *         maxSquadSize:
+ *           type: integer
+ *           nullable: true
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -0,0 +1,263 @@
+import express from 'express';
+import { EligibilityStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { ResourceOwner } from '../utils/permissions';
+import { athleteInclude, publicAthleteSelect } from '../utils/rosterUtils';
+import { findFixtureSuspensions } from '../utils/disciplineUtils';
+
+// Mounted under /api/fixtures/:fixtureId/squads
+const router = express.Router({ mergeParams: true });
+
+type SquadParams = { fixtureId: string; athleteId: string };
+
+const isOverride = (value: unknown) => value === true || value === 'true';
+
+const squadEntryInclude = {
+  athlete: { select: publicAthleteSelect },
+};
+
+// The roster entry that puts an athlete on one of the fixture's teams
+function findFixtureRosterEntry(fixtureId: string, athleteId: string) {
+  return prisma.rosterEntry.findFirst({
+    where: {
+      athleteId,
+      team: { OR: [{ homeFixtures: { some: { id: fixtureId } } }, { awayFixtures: { some: { id: fixtureId } } }] },
+    },
+    include: { team: true },
+  });
+}
+
+// Each team names its own squad; the athlete's team decides who may
+async function resolveSquadTeamOwner(req: express.Request): Promise<ResourceOwner | null> {
+  const athleteId = req.params.athleteId ?? req.body.athleteId;
+  const entry = athleteId && (await findFixtureRosterEntry(req.params.fixtureId, athleteId));
+  return entry ? { universityId: entry.team.universityId } : null;
+}
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/squads:
+ *   get:
+ *     summary: List the match-day squads of a fixture
+ *     tags: [Squads]
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The home and away squads, with the suspension of each suspended athlete
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 home:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SquadEntry'
+ *                 away:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SquadEntry'
+ *       404:
+ *         description: Fixture not found
+ */
+router.get('/', async (req: express.Request<SquadParams>, res): Promise<any> => {
+  try {
+    const fixture = await prisma.fixture.findUnique({
+      where: { id: req.params.fixtureId },
+      include: { squads: { include: squadEntryInclude, orderBy: [{ isStarter: 'desc' }, { jerseyNumber: 'asc' }] } },
+    });
+    if (!fixture) {
+      return res.status(404).json({ error: 'Fixture not found' });
+    }
+    const suspensions = await findFixtureSuspensions(fixture, fixture.squads.map((entry) => entry.athleteId));
+    const squad = fixture.squads.map((entry) => ({ ...entry, suspension: suspensions.get(entry.athleteId) ?? null }));
+    res.json({
+      home: squad.filter((entry) => entry.teamId === fixture.homeTeamId),
+      away: squad.filter((entry) => entry.teamId === fixture.awayTeamId),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the squads' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/squads:
+ *   post:
+ *     summary: Name an athlete in a match-day squad
+ *     description: >
+ *       The athlete must be on the roster of one of the fixture's teams and
+ *       have their eligibility approved. The shirt number defaults to their
+ *       roster number. Athletes serving a suspension in this fixture are
+ *       refused unless allowSuspended is set.
+ *     tags: [Squads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - athleteId
+ *             properties:
+ *               athleteId:
+ *                 type: string
+ *               jerseyNumber:
+ *                 type: integer
+ *               isStarter:
+ *                 type: boolean
+ *                 description: Defaults to true; false for substitutes
+ *               allowSuspended:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Name the athlete despite a suspension, e.g. one overturned on appeal
+ *     responses:
+ *       201:
+ *         description: The athlete's squad entry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SquadEntry'
+ *       400:
+ *         description: Missing athlete, or the athlete is not on either team's roster
+ *       409:
+ *         description: >
+ *           The athlete's eligibility is not approved, they are suspended for
+ *           this fixture, or they are already in the squad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                 suspension:
+ *                   $ref: '#/components/schemas/Suspension'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('team:update', resolveSquadTeamOwner), async (req: express.Request<SquadParams>, res): Promise<any> => {
+  try {
+    const { fixtureId } = req.params;
+    const { athleteId, jerseyNumber, isStarter } = req.body;
+    if (!athleteId) {
+      return res.status(400).json({ error: 'athleteId is required' });
+    }
+
+    const rosterEntry = await findFixtureRosterEntry(fixtureId, athleteId);
+    if (!rosterEntry) {
+      return res.status(400).json({ error: 'The athlete is not on the roster of either team in this fixture' });
+    }
+    const athlete = await prisma.athlete.findUniqueOrThrow({ where: { id: athleteId }, include: athleteInclude });
+    if (athlete.eligibility !== EligibilityStatus.APPROVED) {
+      return res.status(409).json({ error: `${athlete.user.name} cannot play until their eligibility is approved` });
+    }
+    if (await prisma.squadEntry.findUnique({ where: { fixtureId_athleteId: { fixtureId, athleteId } } })) {
+      return res.status(409).json({ error: `${athlete.user.name} is already in the squad` });
+    }
+    const fixture = await prisma.fixture.findUniqueOrThrow({ where: { id: fixtureId } });
+    const suspension = (await findFixtureSuspensions(fixture, [athleteId])).get(athleteId) ?? null;
+    if (suspension && !isOverride(req.body.allowSuspended)) {
+      return res.status(409).json({ error: `${athlete.user.name} is suspended: ${suspension.reason}`, suspension });
+    }
+
+    const entry = await prisma.squadEntry.create({
+      data: {
+        fixtureId,
+        teamId: rosterEntry.teamId,
+        athleteId,
+        jerseyNumber: jerseyNumber ?? rosterEntry.jerseyNumber,
+        isStarter,
+      },
+      include: squadEntryInclude,
+    });
+    res.status(201).json({ ...entry, suspension });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while naming the athlete in the squad' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/fixtures/{fixtureId}/squads/{athleteId}:
+ *   delete:
+ *     summary: Remove an athlete from a match-day squad
+ *     tags: [Squads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: athleteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Athlete removed from the squad
+ *       404:
+ *         description: The athlete is not in the squad
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:athleteId', authenticate, authorize('team:update', resolveSquadTeamOwner), async (req: express.Request<SquadParams>, res): Promise<any> => {
+  try {
+    const { fixtureId, athleteId } = req.params;
+    const { count } = await prisma.squadEntry.deleteMany({ where: { fixtureId, athleteId } });
+    if (!count) {
+      return res.status(404).json({ error: 'The athlete is not in the squad' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while removing the athlete from the squad' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SquadEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         fixtureId:
+ *           type: string
+ *         teamId:
+ *           type: string
+ *         athleteId:
+ *           type: string
+ *         jerseyNumber:
+ *           type: integer
+ *           nullable: true
+ *         isStarter:
+ *           type: boolean
+ *         suspension:
+ *           nullable: true
+ *           description: The suspension the athlete is serving in this fixture, if any
+ *           allOf:
+ *             - $ref: '#/components/schemas/Suspension'
+ *         athlete:
+ *           $ref: '#/components/schemas/Athlete'
+ */
+
+export default router;
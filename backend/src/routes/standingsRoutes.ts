@@ -0,0 +1,167 @@
+import express from 'express';
+import { Gender } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getStandings } from '../utils/standingsUtils';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/standings:
+ *   get:
+ *     summary: Get the league tables of a sport
+ *     description: >
+ *       Computes one table per group from the results, using the sport's points
+ *       for a win, draw and loss. Teams level on points are ordered by score
+ *       difference, or by ratio for sports such as volleyball. Swiss chess
+ *       events order them by Buchholz (the total score of each team's
+ *       opponents), then Sonneborn-Berger (the scores of the opponents beaten,
+ *       plus half of those drawn with); a bye counts as a win. Updated tables
+ *       are also pushed to Socket.IO clients as `standingsUpdate` whenever a
+ *       result changes; the push carries every table of the result's sport,
+ *       tournament and gender category, with the same defaults as this endpoint.
+ *     tags: [Standings]
+ *     parameters:
+ *       - in: query
+ *         name: sportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Sport ID
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         description: Filter by gender category
+ *       - in: query
+ *         name: group
+ *         schema:
+ *           type: string
+ *         description: Group ID or name, e.g. A
+ *       - in: query
+ *         name: live
+ *         schema:
+ *           type: boolean
+ *         description: Also count matches still in progress at their current score (default false)
+ *     responses:
+ *       200:
+ *         description: League tables, one per group
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StandingsTable'
+ *       400:
+ *         description: sportId is required
+ *       404:
+ *         description: Group not found
+ */
+router.get('/', async (req, res): Promise<any> => {
+  try {
+    const { sportId, tournamentId, gender, group, live } = req.query as Record<string, string | undefined>;
+    if (!sportId) {
+      return res.status(400).json({ error: 'sportId is required' });
+    }
+
+    let groupId: string | undefined;
+    if (group) {
+      const match = await prisma.group.findFirst({
+        where: {
+          sportId,
+          tournamentId,
+          gender: gender as Gender | undefined,
+          OR: [{ id: group }, { name: { equals: group, mode: 'insensitive' } }],
+        },
+      });
+      if (!match) {
+        return res.status(404).json({ error: 'Group not found' });
+      }
+      groupId = match.id;
+    }
+
+    const tables = await getStandings({
+      sportId,
+      tournamentId,
+      gender: gender as Gender | undefined,
+      groupId,
+      live: live === 'true',
+    });
+
+    res.json({ data: tables });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching standings' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StandingsRow:
+ *       type: object
+ *       properties:
+ *         team:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *             universityId:
+ *               type: string
+ *         played:
+ *           type: integer
+ *         won:
+ *           type: integer
+ *         drawn:
+ *           type: integer
+ *         lost:
+ *           type: integer
+ *         for:
+ *           type: integer
+ *         against:
+ *           type: integer
+ *         difference:
+ *           type: integer
+ *         ratio:
+ *           type: number
+ *           nullable: true
+ *         points:
+ *           type: integer
+ *         buchholz:
+ *           type: number
+ *           description: Chess only; the total score of the team's opponents
+ *         sonnebornBerger:
+ *           type: number
+ *           description: Chess only; the scores of the opponents beaten, plus half of those drawn with
+ *     StandingsTable:
+ *       type: object
+ *       properties:
+ *         group:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *         gender:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         standings:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/StandingsRow'
+ */
+
+export default router;
@@ -0,0 +1,379 @@
+import express from 'express';
+import { Gender } from '@prisma/client';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { ResourceOwner } from '../utils/permissions';
+import { rosterEntryInclude } from '../utils/rosterUtils';
+
+const router = express.Router();
+
+const tournamentScope: TournamentScope = (tournamentId) => ({ university: { tournaments: { some: { id: tournamentId } } } });
+
+const teamInclude = {
+  university: true,
+  sport: true,
+};
+
+// A team belongs to its university; moving it to another university requires
+// owning both the current and the target university.
+async function resolveTeamOwners(req: express.Request): Promise<ResourceOwner[] | null> {
+  const team = await prisma.team.findUnique({
+    where: { id: req.params.id },
+    select: { universityId: true },
+  });
+  if (!team) {
+    return null;
+  }
+  return req.body.universityId ? [team, { universityId: req.body.universityId }] : [team];
+}
+
+/**
+ * @swagger
+ * /api/teams:
+ *   get:
+ *     summary: Retrieve a list of teams
+ *     tags: [Teams]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *       - in: query
+ *         name: sportId
+ *         schema:
+ *           type: string
+ *         description: Filter by sport ID
+ *       - in: query
+ *         name: universityId
+ *         schema:
+ *           type: string
+ *         description: Filter by university ID
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         description: Filter by gender category
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
+ *     responses:
+ *       200:
+ *         description: A list of teams
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Team'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { universityId, ...options }: QueryOptions = req.query;
+    const queryOptions: any = buildQueryOptions(options, ['name', 'university.name'], tournamentScope);
+    if (universityId) {
+      queryOptions.where.universityId = universityId;
+    }
+
+    const [teams, total] = await Promise.all([
+      prisma.team.findMany({
+        ...queryOptions,
+        include: teamInclude,
+      }),
+      prisma.team.count({ where: queryOptions.where }),
+    ]);
+
+    res.json({
+      data: teams,
+      total,
+      page: options.page || 1,
+      limit: options.limit || 10,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching teams' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/teams:
+ *   post:
+ *     summary: Create a new team
+ *     description: A university can enter one team per sport and gender category.
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - universityId
+ *               - sportId
+ *               - gender
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Defaults to the university name
+ *               universityId:
+ *                 type: string
+ *               sportId:
+ *                 type: string
+ *               gender:
+ *                 type: string
+ *                 enum: [MALE, FEMALE, OTHER]
+ *     responses:
+ *       201:
+ *         description: Created team
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Team'
+ *       400:
+ *         description: Invalid university, sport or gender
+ *       409:
+ *         description: The university already has a team in this sport and category
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('team:create', async (req) => ({ universityId: req.body.universityId })), async (req, res): Promise<any> => {
+  try {
+    const { name, universityId, sportId, gender } = req.body;
+    if (!universityId || !sportId || !(gender in Gender)) {
+      return res.status(400).json({ error: 'universityId, sportId and a valid gender are required' });
+    }
+
+    const university = await prisma.university.findUnique({ where: { id: universityId } });
+    if (!university) {
+      return res.status(400).json({ error: 'University not found' });
+    }
+
+    const existing = await prisma.team.findUnique({
+      where: { universityId_sportId_gender: { universityId, sportId, gender: gender as Gender } },
+    });
+    if (existing) {
+      return res.status(409).json({ error: 'The university already has a team in this sport and category' });
+    }
+
+    const team = await prisma.team.create({
+      data: {
+        name: name || university.name,
+        universityId,
+        sportId,
+        gender: gender as Gender,
+      },
+      include: teamInclude,
+    });
+    res.status(201).json(team);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while creating the team' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/teams/{id}:
+ *   get:
+ *     summary: Get a team by ID
+ *     tags: [Teams]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Team details with its fixtures and roster
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Team'
+ *       404:
+ *         description: Team not found
+ */
+router.get('/:id', async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const team = await prisma.team.findUnique({
+      where: { id },
+      include: {
+        ...teamInclude,
+        homeFixtures: { include: { result: true } },
+        awayFixtures: { include: { result: true } },
+        roster: { include: rosterEntryInclude, orderBy: { jerseyNumber: 'asc' } },
+      },
+    });
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    res.json(team);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the team' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/teams/{id}:
+ *   put:
+ *     summary: Update a team
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               universityId:
+ *                 type: string
+ *               sportId:
+ *                 type: string
+ *               gender:
+ *                 type: string
+ *                 enum: [MALE, FEMALE, OTHER]
+ *     responses:
+ *       200:
+ *         description: Updated team
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Team'
+ *       404:
+ *         description: Team not found
+ *       409:
+ *         description: The team has a roster, so its university, sport or category cannot change
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id', authenticate, authorize('team:update', resolveTeamOwners), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const { name, universityId, sportId, gender } = req.body;
+    // The roster was checked against the team's university, sport and category
+    const current = await prisma.team.findUnique({ where: { id }, include: { _count: { select: { roster: true } } } });
+    if (!current) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    const changesEligibility =
+      (universityId && universityId !== current.universityId) ||
+      (sportId && sportId !== current.sportId) ||
+      (gender && gender !== current.gender);
+    if (changesEligibility && current._count.roster) {
+      return res.status(409).json({ error: 'Clear the roster before changing the team\'s university, sport or category' });
+    }
+
+    const team = await prisma.team.update({
+      where: { id },
+      data: {
+        name,
+        universityId,
+        sportId,
+        gender: gender as Gender,
+      },
+      include: teamInclude,
+    });
+    res.json(team);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the team' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/teams/{id}:
+ *   delete:
+ *     summary: Delete a team
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Team deleted successfully
+ *       404:
+ *         description: Team not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('team:delete', resolveTeamOwners), async (req, res) => {
+  try {
+    const { id } = req.params;
+    await prisma.team.delete({ where: { id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while deleting the team' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Team:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         universityId:
+ *           type: string
+ *         sportId:
+ *           type: string
+ *         gender:
+ *           type: string
+ *           enum: [MALE, FEMALE, OTHER]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         university:
+ *           $ref: '#/components/schemas/University'
+ *         sport:
+ *           $ref: '#/components/schemas/Sport'
+ *         roster:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/RosterEntry'
+ */
+
+export default router;
@@ -0,0 +1,462 @@
+import express from 'express';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+const tournamentInclude = {
+  host: true,
+  participants: true,
+};
+
+// A tournamentId filter on the list picks out that tournament itself
+const tournamentScope: TournamentScope = (tournamentId) => ({ id: tournamentId });
+
+const isPlacingPoints = (value: unknown) =>
+  value === undefined || (Array.isArray(value) && value.every((points) => Number.isInteger(points) && points >= 0));
+
+/**
+ * @swagger
+ * /api/tournaments:
+ *   get:
+ *     summary: Retrieve a list of tournaments
+ *     tags: [Tournaments]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *     responses:
+ *       200:
+ *         description: A list of tournaments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Tournament'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+router.get('/', async (req, res) => {
+  try {
+    const options: QueryOptions = req.query;
+    const queryOptions: any = buildQueryOptions({ sortBy: 'startDate', sortOrder: 'desc', ...options }, ['name'], tournamentScope);
+
+    const [tournaments, total] = await Promise.all([
+      prisma.tournament.findMany({
+        ...queryOptions,
+        include: tournamentInclude,
+      }),
+      prisma.tournament.count({ where: queryOptions.where }),
+    ]);
+
+    res.json({
+      data: tournaments,
+      total,
+      page: options.page || 1,
+      limit: options.limit || 10,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching tournaments' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments:
+ *   post:
+ *     summary: Create a new tournament
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: 13th EAUG 2024
+ *               edition:
+ *                 type: integer
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               hostId:
+ *                 type: string
+ *                 description: ID of the host university
+ *               participantIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IDs of the participating universities
+ *               placingPoints:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Championship points for 1st, 2nd, 3rd... place in each sport
+ *     responses:
+ *       201:
+ *         description: Created tournament
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tournament'
+ *       400:
+ *         description: The end date is before the start date, or invalid placingPoints
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('tournament:create'), async (req, res): Promise<any> => {
+  try {
+    const { name, edition, startDate, endDate, hostId, participantIds, placingPoints } = req.body;
+    if (new Date(endDate) < new Date(startDate)) {
+      return res.status(400).json({ error: 'The end date must not be before the start date' });
+    }
+    if (!isPlacingPoints(placingPoints)) {
+      return res.status(400).json({ error: 'placingPoints must be a list of whole numbers' });
+    }
+
+    const tournament = await prisma.tournament.create({
+      data: {
+        name,
+        edition: edition !== undefined ? parseInt(edition) : undefined,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        hostId,
+        placingPoints,
+        participants: participantIds
+          ? { connect: participantIds.map((id: string) => ({ id })) }
+          : undefined,
+      },
+      include: tournamentInclude,
+    });
+    res.status(201).json(tournament);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while creating the tournament' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}:
+ *   get:
+ *     summary: Get a tournament by ID
+ *     tags: [Tournaments]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tournament details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tournament'
+ *       404:
+ *         description: Tournament not found
+ */
+router.get('/:id', async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const tournament = await prisma.tournament.findUnique({
+      where: { id },
+      include: {
+        ...tournamentInclude,
+        _count: { select: { fixtures: true } },
+      },
+    });
+    if (!tournament) {
+      return res.status(404).json({ error: 'Tournament not found' });
+    }
+    res.json(tournament);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the tournament' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}:
+ *   put:
+ *     summary: Update a tournament
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               edition:
+ *                 type: integer
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               hostId:
+ *                 type: string
+ *               participantIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Replaces the participating universities
+ *               placingPoints:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Championship points for 1st, 2nd, 3rd... place in each sport
+ *     responses:
+ *       200:
+ *         description: Updated tournament
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tournament'
+ *       400:
+ *         description: Invalid placingPoints, or the end date would be before the start date
+ *       404:
+ *         description: Tournament not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id', authenticate, authorize('tournament:update'), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const { name, edition, startDate, endDate, hostId, participantIds, placingPoints } = req.body;
+    if (!isPlacingPoints(placingPoints)) {
+      return res.status(400).json({ error: 'placingPoints must be a list of whole numbers' });
+    }
+
+    const current = await prisma.tournament.findUnique({ where: { id } });
+    if (!current) {
+      return res.status(404).json({ error: 'Tournament not found' });
+    }
+    // Either date may be changed alone, so check it against the stored other
+    const start = startDate ? new Date(startDate) : current.startDate;
+    const end = endDate ? new Date(endDate) : current.endDate;
+    if (end < start) {
+      return res.status(400).json({ error: 'The end date must not be before the start date' });
+    }
+
+    const tournament = await prisma.tournament.update({
+      where: { id },
+      data: {
+        name,
+        edition: edition !== undefined ? parseInt(edition) : undefined,
+        startDate: start,
+        endDate: end,
+        hostId,
+        placingPoints,
+        participants: participantIds
+          ? { set: participantIds.map((id: string) => ({ id })) }
+          : undefined,
+      },
+      include: tournamentInclude,
+    });
+    res.json(tournament);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the tournament' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}:
+ *   delete:
+ *     summary: Delete a tournament
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Tournament deleted successfully
+ *       404:
+ *         description: Tournament not found
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('tournament:delete'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    await prisma.tournament.delete({ where: { id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while deleting the tournament' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/participants:
+ *   post:
+ *     summary: Add a participating university to a tournament
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - universityId
+ *             properties:
+ *               universityId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated tournament
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tournament'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/:id/participants', authenticate, authorize('tournament:update'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { universityId } = req.body;
+    const tournament = await prisma.tournament.update({
+      where: { id },
+      data: { participants: { connect: { id: universityId } } },
+      include: tournamentInclude,
+    });
+    res.json(tournament);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while adding the participant' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/participants/{universityId}:
+ *   delete:
+ *     summary: Remove a participating university from a tournament
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: universityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Participant removed successfully
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id/participants/:universityId', authenticate, authorize('tournament:update'), async (req, res) => {
+  try {
+    const { id, universityId } = req.params;
+    await prisma.tournament.update({
+      where: { id },
+      data: { participants: { disconnect: { id: universityId } } },
+    });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while removing the participant' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Tournament:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         edition:
+ *           type: integer
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         hostId:
+ *           type: string
+ *         placingPoints:
+ *           type: array
+ *           items:
+ *             type: integer
+ *           description: Championship points for 1st, 2nd, 3rd... place in each sport
+ *         host:
+ *           $ref: '#/components/schemas/University'
+ *         participants:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/University'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export default router;
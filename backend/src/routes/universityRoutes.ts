@@ -1,11 +1,14 @@
 import express from 'express';
-import { buildQueryOptions, QueryOptions } from '../utils/queryUtils';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
 import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
 import cloudinary from 'cloudinary';
 import multer from 'multer';
 
 const router = express.Router();
 
+const tournamentScope: TournamentScope = (tournamentId) => ({ tournaments: { some: { id: tournamentId } } });
+
 // Configure Cloudinary
 cloudinary.v2.config({
   cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
@@ -33,6 +36,11 @@ const upload = multer({ dest: 'uploads/' });
  *         schema:
  *           type: integer
  *         description: Number of items per page
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
  *     responses:
  *       200:
  *         description: A list of universities
@@ -55,7 +63,7 @@ const upload = multer({ dest: 'uploads/' });
 router.get('/', async (req, res) => {
   try {
     const options: QueryOptions = req.query;
-    const queryOptions: any = buildQueryOptions(options, ['name', 'location']);
+    const queryOptions: any = buildQueryOptions(options, ['name', 'location'], tournamentScope);
 
     const [universities, total] = await Promise.all([
       prisma.university.findMany({
@@ -92,6 +100,8 @@ router.get('/', async (req, res) => {
  *   post:
  *     summary: Create a new university
  *     tags: [Universities]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -113,8 +123,10 @@ router.get('/', async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/University'
+ *       403:
+ *         description: Insufficient permissions
  */
-router.post('/', upload.single('image'), async (req, res) => {
+router.post('/', authenticate, authorize('university:create'), upload.single('image'), async (req, res) => {
   try {
     const { name, location } = req.body;
     let imageUrl = null;
@@ -202,6 +214,8 @@ router.get('/:id', async (req, res): Promise<any> => {
  *   put:
  *     summary: Update a university
  *     tags: [Universities]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -231,8 +245,10 @@ router.get('/:id', async (req, res): Promise<any> => {
  *               $ref: '#/components/schemas/University'
  *       404:
  *         description: University not found
+ *       403:
+ *         description: Insufficient permissions
  */
-router.put('/:id', upload.single('image'), async (req, res) => {
+router.put('/:id', authenticate, authorize('university:update', async (req) => ({ universityId: req.params.id })), upload.single('image'), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, location } = req.body;
@@ -274,6 +290,8 @@ router.put('/:id', upload.single('image'), async (req, res) => {
  *   delete:
  *     summary: Delete a university
  *     tags: [Universities]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -285,8 +303,10 @@ router.put('/:id', upload.single('image'), async (req, res) => {
  *         description: University deleted successfully
  *       404:
  *         description: University not found
+ *       403:
+ *         description: Insufficient permissions
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', authenticate, authorize('university:delete'), async (req, res) => {
   try {
     const { id } = req.params;
     await prisma.university.delete({ where: { id } });
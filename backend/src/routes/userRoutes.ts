@@ -1,11 +1,15 @@
 import express from 'express';
 import { Role, Gender } from '@prisma/client';
-import { buildQueryOptions, QueryOptions } from '../utils/queryUtils';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
 import { prisma } from '../lib/prisma';
+import { authenticate, authenticateUnlessNoUsers, authorize } from '../middleware/auth';
 import bcrypt from 'bcrypt';
+import { checkRosterIdentity } from '../utils/rosterUtils';
 
 const router = express.Router();
 
+const tournamentScope: TournamentScope = (tournamentId) => ({ university: { tournaments: { some: { id: tournamentId } } } });
+
 /**
  * @swagger
  * /api/users:
@@ -23,6 +27,11 @@ const router = express.Router();
  *         schema:
  *           type: integer
  *         description: Number of items per page
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Filter by tournament ID
  *     responses:
  *       200:
  *         description: A list of users
@@ -45,7 +54,7 @@ const router = express.Router();
 router.get('/', async (req, res) => {
   try {
     const options: QueryOptions = req.query;
-    const queryOptions: any = buildQueryOptions(options, ['name', 'email', 'role', 'gender']);
+    const queryOptions: any = buildQueryOptions(options, ['name', 'email', 'role', 'gender'], tournamentScope);
 
     const [users, total] = await Promise.all([
       prisma.user.findMany({
@@ -87,6 +96,8 @@ router.get('/', async (req, res) => {
  *   post:
  *     summary: Create a new user
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -115,37 +126,55 @@ router.get('/', async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/User'
+ *       401:
+ *         description: No token, and the database already has a user
+ *       403:
+ *         description: Insufficient permissions
  */
-router.post('/', async (req, res) => {
+router.post('/', authenticateUnlessNoUsers, authorize('user:create'), async (req, res): Promise<any> => {
   try {
     const { name, email, password, role, gender, universityId } = req.body;
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    const user = await prisma.user.create({
-      data: {
+    const user = await prisma.$transaction(async (tx) => {
+      if (res.locals.bootstrap) {
+        // Concurrent anonymous requests on an empty database take turns, so
+        // only the first becomes the administrator
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('bootstrap-user'))`;
+        if (await tx.user.count()) {
+          return null;
+        }
+      }
+      return tx.user.create({
+        data: {
         name,
         email,
         password: hashedPassword,
-        role: role as Role,
-        gender: gender as Gender,
-        universityId,
-      },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        gender: true,
-        universityId: true,
-        university: {
-          select: {
-            name: true,
+          // The bootstrap user is always an administrator
+          role: res.locals.bootstrap ? Role.ADMIN : (role as Role),
+          gender: gender as Gender,
+          universityId,
+        },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          gender: true,
+          universityId: true,
+          university: {
+            select: {
+              name: true,
+            },
           },
+          createdAt: true,
+          updatedAt: true,
         },
-        createdAt: true,
-        updatedAt: true,
-      },
+      });
     });
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
 
     res.status(201).json(user);
   } catch (error) {
@@ -211,6 +240,8 @@ router.get('/:id', async (req, res): Promise<any> => {
  *   put:
  *     summary: Update a user
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -245,11 +276,41 @@ router.get('/:id', async (req, res): Promise<any> => {
  *               $ref: '#/components/schemas/User'
  *       404:
  *         description: User not found
+ *       409:
+ *         description: The new gender or university would make the user's athlete ineligible for a roster they are on
+ *       403:
+ *         description: Insufficient permissions
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', authenticate, authorize('user:update', async (req) => ({ userId: req.params.id })), async (req, res): Promise<any> => {
   try {
     const { id } = req.params;
     const { name, email, role, gender, universityId } = req.body;
+    if (req.user?.role !== Role.ADMIN && (role !== undefined || universityId !== undefined)) {
+      return res.status(403).json({ error: 'Only administrators can change a user\'s role or university' });
+    }
+
+    // An athlete must stay eligible for every roster they are on
+    if (gender !== undefined || universityId !== undefined) {
+      const current = await prisma.user.findUnique({
+        where: { id },
+        include: { athlete: { include: { roster: { include: { team: true } } } } },
+      });
+      if (!current) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      const updated = {
+        name: current.name,
+        gender: gender !== undefined ? (gender as Gender) : current.gender,
+        universityId: universityId !== undefined ? universityId : current.universityId,
+      };
+      for (const entry of current.athlete?.roster ?? []) {
+        const rosterError = checkRosterIdentity(entry.team, updated);
+        if (rosterError) {
+          return res.status(409).json({ error: `${rosterError}; remove them from the roster of ${entry.team.name} first` });
+        }
+      }
+    }
+
     const user = await prisma.user.update({
       where: { id },
       data: { 
@@ -287,6 +348,8 @@ router.put('/:id', async (req, res) => {
  *   delete:
  *     summary: Delete a user
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -298,8 +361,10 @@ router.put('/:id', async (req, res) => {
  *         description: User deleted successfully
  *       404:
  *         description: User not found
+ *       403:
+ *         description: Insufficient permissions
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', authenticate, authorize('user:delete'), async (req, res) => {
   try {
     const { id } = req.params;
     await prisma.user.delete({ where: { id } });
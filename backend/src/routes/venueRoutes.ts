@@ -0,0 +1,573 @@
+import express from 'express';
+import { buildQueryOptions, QueryOptions, TournamentScope } from '../utils/queryUtils';
+import { prisma } from '../lib/prisma';
+import { authenticate, authorize } from '../middleware/auth';
+import { isTimeOfDay, venueAvailabilityInclude, venueFamily } from '../utils/venueUtils';
+import { parseDay, startOfDay } from '../utils/timeUtils';
+
+const router = express.Router();
+
+const tournamentScope: TournamentScope = (tournamentId) => ({ fixtures: { some: { tournamentId } } });
+
+const venueInclude = {
+  parent: true,
+  areas: true,
+  sports: true,
+  unavailability: { orderBy: { startsAt: 'asc' as const } },
+};
+
+function validateOpeningHours(opensAt: unknown, closesAt: unknown): string | null {
+  if (opensAt == null && closesAt == null) {
+    return null;
+  }
+  if (!isTimeOfDay(opensAt) || !isTimeOfDay(closesAt) || opensAt >= closesAt) {
+    return 'opensAt and closesAt must both be times such as 08:00 and 20:00, opening before closing';
+  }
+  return null;
+}
+
+/**
+ * @swagger
+ * /api/venues:
+ *   get:
+ *     summary: Retrieve a list of venues
+ *     tags: [Venues]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by name or location
+ *       - in: query
+ *         name: tournamentId
+ *         schema:
+ *           type: string
+ *         description: Only venues with fixtures in this tournament
+ *     responses:
+ *       200:
+ *         description: A list of venues
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Venue'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ */
+router.get('/', async (req, res) => {
+  try {
+    const options: QueryOptions = req.query;
+    const queryOptions: any = buildQueryOptions(options, ['name', 'location'], tournamentScope);
+
+    const [venues, total] = await Promise.all([
+      prisma.venue.findMany({
+        ...queryOptions,
+        include: { parent: true, areas: true, sports: true },
+      }),
+      prisma.venue.count({ where: queryOptions.where }),
+    ]);
+
+    res.json({
+      data: venues,
+      total,
+      page: options.page || 1,
+      limit: options.limit || 10,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching venues' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/venues:
+ *   post:
+ *     summary: Create a venue or a sub-area of one
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VenueInput'
+ *     responses:
+ *       201:
+ *         description: Created venue
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Venue'
+ *       400:
+ *         description: Invalid opening hours or parent venue
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticate, authorize('venue:create'), async (req, res): Promise<any> => {
+  try {
+    const { name, location, capacity, opensAt, closesAt, parentId, sportIds } = req.body;
+    const hoursError = validateOpeningHours(opensAt, closesAt);
+    if (hoursError) {
+      return res.status(400).json({ error: hoursError });
+    }
+    if (parentId) {
+      const parent = await prisma.venue.findUnique({ where: { id: parentId } });
+      if (!parent) {
+        return res.status(400).json({ error: 'Parent venue not found' });
+      }
+      if (parent.parentId) {
+        return res.status(400).json({ error: 'Sub-areas cannot have sub-areas of their own' });
+      }
+    }
+
+    const venue = await prisma.venue.create({
+      data: {
+        name,
+        location,
+        capacity: capacity !== undefined ? parseInt(capacity) : undefined,
+        opensAt,
+        closesAt,
+        parentId,
+        sports: sportIds ? { connect: sportIds.map((id: string) => ({ id })) } : undefined,
+      },
+      include: venueInclude,
+    });
+    res.status(201).json(venue);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while creating the venue' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   get:
+ *     summary: Get a venue by ID
+ *     tags: [Venues]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Venue details with its areas, sports and unavailable windows
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Venue'
+ *       404:
+ *         description: Venue not found
+ */
+router.get('/:id', async (req, res): Promise<any> => {
+  try {
+    const venue = await prisma.venue.findUnique({
+      where: { id: req.params.id },
+      include: venueInclude,
+    });
+    if (!venue) {
+      return res.status(404).json({ error: 'Venue not found' });
+    }
+    res.json(venue);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the venue' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/venues/{id}/schedule:
+ *   get:
+ *     summary: Get a venue's order of play for a day
+ *     description: >
+ *       Lists the fixtures on the venue in kickoff order, including those on its
+ *       sub-areas and those that book the whole venue it is part of, along with
+ *       the windows it is unavailable that day.
+ *     tags: [Venues]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: The day to list, e.g. 2024-12-16 (defaults to today)
+ *     responses:
+ *       200:
+ *         description: The day's order of play
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VenueSchedule'
+ *       400:
+ *         description: Invalid date
+ *       404:
+ *         description: Venue not found
+ */
+router.get('/:id/schedule', async (req, res): Promise<any> => {
+  try {
+    // The day runs from midnight to midnight in the app's time zone
+    const start = req.query.date ? parseDay(String(req.query.date)) : startOfDay(new Date());
+    if (!start) {
+      return res.status(400).json({ error: 'date must be a day such as 2024-12-16' });
+    }
+    const end = startOfDay(start, 1);
+
+    const venue = await prisma.venue.findUnique({ where: { id: req.params.id }, include: venueAvailabilityInclude });
+    if (!venue) {
+      return res.status(404).json({ error: 'Venue not found' });
+    }
+
+    const venueIds = venueFamily(venue);
+    const [fixtures, unavailability] = await Promise.all([
+      prisma.fixture.findMany({
+        where: { venueId: { in: venueIds }, date: { gte: start, lt: end } },
+        include: {
+          sport: true,
+          venue: true,
+          homeTeam: { include: { university: true } },
+          awayTeam: { include: { university: true } },
+          result: true,
+        },
+        orderBy: { date: 'asc' },
+      }),
+      prisma.venueUnavailability.findMany({
+        where: { venueId: { in: venueIds }, startsAt: { lt: end }, endsAt: { gt: start } },
+        orderBy: { startsAt: 'asc' },
+      }),
+    ]);
+
+    const { areas, parent, sports, unavailability: _, ...details } = venue;
+    res.json({
+      venue: details,
+      date: start,
+      opensAt: venue.opensAt ?? parent?.opensAt ?? null,
+      closesAt: venue.closesAt ?? parent?.closesAt ?? null,
+      fixtures: fixtures.map((fixture, index) => ({ order: index + 1, ...fixture })),
+      unavailability,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while fetching the venue schedule' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   put:
+ *     summary: Update a venue
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VenueInput'
+ *     responses:
+ *       200:
+ *         description: Updated venue
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Venue'
+ *       400:
+ *         description: Invalid opening hours
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id', authenticate, authorize('venue:update'), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const { name, location, capacity, opensAt, closesAt, sportIds } = req.body;
+    const hoursError = validateOpeningHours(opensAt, closesAt);
+    if (hoursError) {
+      return res.status(400).json({ error: hoursError });
+    }
+
+    const venue = await prisma.venue.update({
+      where: { id },
+      data: {
+        name,
+        location,
+        capacity: capacity !== undefined ? parseInt(capacity) : undefined,
+        opensAt,
+        closesAt,
+        sports: sportIds ? { set: sportIds.map((sportId: string) => ({ id: sportId })) } : undefined,
+      },
+      include: venueInclude,
+    });
+    res.json(venue);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while updating the venue' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   delete:
+ *     summary: Delete a venue and its sub-areas
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Venue deleted successfully
+ *       409:
+ *         description: Fixtures are scheduled on the venue
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id', authenticate, authorize('venue:delete'), async (req, res): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const scheduled = await prisma.fixture.count({
+      where: { OR: [{ venueId: id }, { venue: { parentId: id } }] },
+    });
+    if (scheduled) {
+      return res.status(409).json({ error: 'Fixtures are scheduled on this venue; move them first' });
+    }
+
+    await prisma.venue.delete({ where: { id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while deleting the venue' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/venues/{id}/unavailability:
+ *   post:
+ *     summary: Block out a period the venue cannot be used
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startsAt
+ *               - endsAt
+ *             properties:
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *                 example: Pitch maintenance
+ *     responses:
+ *       201:
+ *         description: Created window
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VenueUnavailability'
+ *       400:
+ *         description: Invalid period
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/:id/unavailability', authenticate, authorize('venue:update'), async (req, res): Promise<any> => {
+  try {
+    const startsAt = new Date(req.body.startsAt);
+    const endsAt = new Date(req.body.endsAt);
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+      return res.status(400).json({ error: 'A valid startsAt before endsAt is required' });
+    }
+
+    const window = await prisma.venueUnavailability.create({
+      data: { venueId: req.params.id, startsAt, endsAt, reason: req.body.reason },
+    });
+    res.status(201).json(window);
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while adding the unavailable window' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/venues/{id}/unavailability/{windowId}:
+ *   delete:
+ *     summary: Remove an unavailable window
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: windowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Window removed
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.delete('/:id/unavailability/:windowId', authenticate, authorize('venue:update'), async (req, res) => {
+  try {
+    await prisma.venueUnavailability.delete({ where: { id: req.params.windowId, venueId: req.params.id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: 'An error occurred while removing the unavailable window' });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     VenueInput:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Court 1
+ *         location:
+ *           type: string
+ *         capacity:
+ *           type: integer
+ *         opensAt:
+ *           type: string
+ *           example: "08:00"
+ *         closesAt:
+ *           type: string
+ *           example: "20:00"
+ *         parentId:
+ *           type: string
+ *           description: The venue this is a sub-area of (create only)
+ *         sportIds:
+ *           type: array
+ *           description: Sports the venue hosts; empty means any sport
+ *           items:
+ *             type: string
+ *     VenueUnavailability:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         venueId:
+ *           type: string
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *         reason:
+ *           type: string
+ *     Venue:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         location:
+ *           type: string
+ *         capacity:
+ *           type: integer
+ *         opensAt:
+ *           type: string
+ *         closesAt:
+ *           type: string
+ *         parentId:
+ *           type: string
+ *         areas:
+ *           type: array
+ *           items:
+ *             type: object
+ *         sports:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Sport'
+ *         unavailability:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/VenueUnavailability'
+ *     VenueSchedule:
+ *       type: object
+ *       properties:
+ *         venue:
+ *           $ref: '#/components/schemas/Venue'
+ *         date:
+ *           type: string
+ *           format: date-time
+ *         opensAt:
+ *           type: string
+ *         closesAt:
+ *           type: string
+ *         fixtures:
+ *           type: array
+ *           items:
+ *             allOf:
+ *               - $ref: '#/components/schemas/Fixture'
+ *               - type: object
+ *                 properties:
+ *                   order:
+ *                     type: integer
+ *         unavailability:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/VenueUnavailability'
+ */
+
+export default router;
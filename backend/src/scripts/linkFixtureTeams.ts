@@ -0,0 +1,68 @@
+/**
+ * Links fixtures created before the Team model existed to teams. Each legacy
+ * homeTeam/awayTeam name is matched to a university by full name, acronym
+ * (e.g. "JKUAT") or an existing team name, and the university's team for the
+ * fixture's sport and gender is created if it does not exist yet. Names that
+ * match no university, or more than one, are reported and left untouched.
+ *
+ * Run after `pnpm run build` with `pnpm run teams:link`.
+ */
+import { Gender, University } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { buildUniversityIndex, findUniversities } from '../utils/universityUtils';
+
+async function findOrCreateTeam(university: University, sportId: string, gender: Gender): Promise<string> {
+  const team = await prisma.team.upsert({
+    where: { universityId_sportId_gender: { universityId: university.id, sportId, gender } },
+    update: {},
+    create: { name: university.name, universityId: university.id, sportId, gender },
+  });
+  return team.id;
+}
+
+async function main() {
+  const index = await buildUniversityIndex();
+  const fixtures = await prisma.fixture.findMany({
+    where: { OR: [{ homeTeamId: null }, { awayTeamId: null }] },
+  });
+
+  const unmatched = new Set<string>();
+  let linked = 0;
+
+  const resolve = async (name: string | null, sportId: string, gender: Gender) => {
+    if (!name) {
+      return undefined;
+    }
+    const matches = findUniversities(index, name);
+    if (matches.length !== 1) {
+      unmatched.add(matches.length ? `${name} (ambiguous)` : name);
+      return undefined;
+    }
+    return findOrCreateTeam(matches[0], sportId, gender);
+  };
+
+  for (const fixture of fixtures) {
+    const homeTeamId = fixture.homeTeamId ?? (await resolve(fixture.homeTeamName, fixture.sportId, fixture.gender));
+    const awayTeamId = fixture.awayTeamId ?? (await resolve(fixture.awayTeamName, fixture.sportId, fixture.gender));
+
+    if (homeTeamId !== fixture.homeTeamId || awayTeamId !== fixture.awayTeamId) {
+      await prisma.fixture.update({
+        where: { id: fixture.id },
+        data: { homeTeamId, awayTeamId },
+      });
+      linked++;
+    }
+  }
+
+  console.log(`Linked ${linked} of ${fixtures.length} fixtures to teams`);
+  if (unmatched.size) {
+    console.log(`Unmatched team names: ${[...unmatched].join(', ')}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
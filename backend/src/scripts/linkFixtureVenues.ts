@@ -0,0 +1,47 @@
+/**
+ * Links fixtures created before the Venue model existed to venues. Each
+ * distinct legacy venue name becomes a venue (matched case-insensitively to
+ * an existing one first), and every fixture with that name is pointed at it.
+ * The free-text name is kept on the fixture.
+ *
+ * Run after `pnpm run build` with `pnpm run venues:link`.
+ */
+import { prisma } from '../lib/prisma';
+
+async function main() {
+  const fixtures = await prisma.fixture.findMany({
+    where: { venueId: null, venueName: { not: null } },
+    select: { id: true, venueName: true },
+  });
+
+  const venueIds = new Map<string, string>();
+  let created = 0;
+
+  for (const fixture of fixtures) {
+    const name = fixture.venueName!.trim();
+    const key = name.toUpperCase();
+    if (!name) {
+      continue;
+    }
+
+    if (!venueIds.has(key)) {
+      const existing = await prisma.venue.findFirst({ where: { name: { equals: name, mode: 'insensitive' } } });
+      const venue = existing ?? (await prisma.venue.create({ data: { name } }));
+      if (!existing) {
+        created++;
+      }
+      venueIds.set(key, venue.id);
+    }
+
+    await prisma.fixture.update({ where: { id: fixture.id }, data: { venueId: venueIds.get(key) } });
+  }
+
+  console.log(`Linked ${fixtures.length} fixtures to ${venueIds.size} venues (${created} created)`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,51 @@
+/**
+ * Sets the game clock of the sports created before periodMinutes had to be
+ * set per sport, when every sport was given 45-minute periods. Sports are
+ * matched by name; those not listed below are reported so their clock can be
+ * set by hand through PUT /api/sports/:id.
+ *
+ * Run after `pnpm run build` with `pnpm run sports:clock`.
+ */
+import { Sport } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+type SportClock = Pick<Sport, 'periodMinutes' | 'overtimeMinutes' | 'clockCountsDown'>;
+
+// The first pattern a sport's name matches wins, so sevens comes before rugby
+const clocks: [RegExp, SportClock][] = [
+  [/football|soccer/i, { periodMinutes: 45, overtimeMinutes: 15, clockCountsDown: false }],
+  [/basketball/i, { periodMinutes: 10, overtimeMinutes: 5, clockCountsDown: true }],
+  [/handball/i, { periodMinutes: 30, overtimeMinutes: 5, clockCountsDown: false }],
+  [/hockey/i, { periodMinutes: 15, overtimeMinutes: null, clockCountsDown: false }],
+  [/netball/i, { periodMinutes: 15, overtimeMinutes: 7, clockCountsDown: false }],
+  [/rugby.*(sevens|7s)/i, { periodMinutes: 7, overtimeMinutes: 5, clockCountsDown: false }],
+  [/rugby/i, { periodMinutes: 40, overtimeMinutes: 10, clockCountsDown: false }],
+  // Not played to a clock
+  [/volleyball|chess|tennis|badminton|athletics|swimming/i, { periodMinutes: null, overtimeMinutes: null, clockCountsDown: false }],
+];
+
+async function main() {
+  const sports = await prisma.sport.findMany({ orderBy: { name: 'asc' } });
+  const unmatched: string[] = [];
+
+  for (const sport of sports) {
+    const clock = clocks.find(([pattern]) => pattern.test(sport.name))?.[1];
+    if (!clock) {
+      unmatched.push(`${sport.name} (${sport.periodMinutes ?? 'no'} minute periods)`);
+      continue;
+    }
+    await prisma.sport.update({ where: { id: sport.id }, data: clock });
+  }
+
+  console.log(`Set the clock of ${sports.length - unmatched.length} sports`);
+  if (unmatched.length) {
+    console.log(`Check these by hand:\n  ${unmatched.join('\n  ')}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../lib/prisma';
+import { rotateRefreshToken } from './authUtils';
+
+vi.mock('../lib/prisma', () => ({
+  prisma: { refreshToken: { updateMany: vi.fn(), findUniqueOrThrow: vi.fn(), create: vi.fn() } },
+}));
+
+const refreshTokens = vi.mocked(prisma.refreshToken);
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('rotateRefreshToken', () => {
+  it('revokes only a live token, in a single guarded update', async () => {
+    refreshTokens.updateMany.mockResolvedValueOnce({ count: 0 });
+    await expect(rotateRefreshToken('spent')).resolves.toBeNull();
+
+    const { where } = refreshTokens.updateMany.mock.calls[0][0]!;
+    expect(where).toMatchObject({ revokedAt: null, expiresAt: { gt: expect.any(Date) } });
+    expect(refreshTokens.create).not.toHaveBeenCalled();
+  });
+
+  it('issues a new token to the owner once the old one is revoked', async () => {
+    const user = { id: 'user-1', name: 'Jane', email: 'jane@uni.ac.ke', role: 'STAFF', gender: 'FEMALE', universityId: null };
+    refreshTokens.updateMany.mockResolvedValueOnce({ count: 1 });
+    refreshTokens.findUniqueOrThrow.mockResolvedValueOnce({ user } as never);
+
+    const rotated = await rotateRefreshToken('live');
+    expect(rotated?.user).toBe(user);
+    expect(rotated?.refreshToken).toMatch(/^[0-9a-f]{96}$/);
+    expect(refreshTokens.create).toHaveBeenCalledWith({ data: expect.objectContaining({ userId: 'user-1' }) });
+  });
+});
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+const ACCESS_TOKEN_TTL = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.JWT_REFRESH_TTL_DAYS || '7');
+
+// Fields of a User that are safe to attach to a request or return to a client
+export const authUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  gender: true,
+  universityId: true,
+} satisfies Prisma.UserSelect;
+
+export type AuthUser = Prisma.UserGetPayload<{ select: typeof authUserSelect }>;
+
+export interface AccessTokenPayload {
+  sub: string;
+  role: Role;
+}
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function signAccessToken(user: AuthUser): string {
+  const payload: AccessTokenPayload = { sub: user.id, role: user.role };
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL } as jwt.SignOptions);
+}
+
+export function verifyAccessToken(token: string): AccessTokenPayload {
+  return jwt.verify(token, getJwtSecret()) as unknown as AccessTokenPayload;
+}
+
+/**
+ * Creates an opaque refresh token for the user. Only a hash of the token is
+ * stored so a leaked database does not expose usable sessions.
+ */
+export async function issueRefreshToken(userId: string): Promise<string> {
+  const token = crypto.randomBytes(48).toString('hex');
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.refreshToken.create({
+    data: { tokenHash: hashToken(token), userId, expiresAt },
+  });
+
+  return token;
+}
+
+/**
+ * Exchanges a refresh token for a new one, revoking the old token. Returns
+ * null when the token is unknown, expired or already revoked. The token is
+ * revoked in the same statement that checks it, so of two requests racing
+ * with one token only the first gets a new one.
+ */
+export async function rotateRefreshToken(token: string) {
+  const tokenHash = hashToken(token);
+  const now = new Date();
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { tokenHash, revokedAt: null, expiresAt: { gt: now } },
+    data: { revokedAt: now },
+  });
+  if (count !== 1) {
+    return null;
+  }
+
+  const { user } = await prisma.refreshToken.findUniqueOrThrow({
+    where: { tokenHash },
+    select: { user: { select: authUserSelect } },
+  });
+  const refreshToken = await issueRefreshToken(user.id);
+  return { user, refreshToken };
+}
+
+export async function revokeRefreshToken(token: string): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { tokenHash: hashToken(token), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
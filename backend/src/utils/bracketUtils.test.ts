@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { checkPairings, defaultPairings } from './bracketUtils';
+
+vi.mock('../lib/prisma', () => ({ prisma: {} }));
+
+describe('checkPairings', () => {
+  const groups = ['A', 'B'];
+
+  it('accepts every qualifier placed once, in any case', () => {
+    expect(checkPairings(defaultPairings(groups, 2), groups, 2)).toBeNull();
+    expect(checkPairings([['a1', 'b2'], ['B1', 'A2']], groups, 2)).toBeNull();
+  });
+
+  it('rejects malformed pairings', () => {
+    expect(checkPairings('A1-B2', groups, 2)).toMatch(/list of pairs/);
+    expect(checkPairings([['A1', 'B2', 'A2']], groups, 2)).toMatch(/list of pairs/);
+    expect(checkPairings([['A1', 2]], groups, 2)).toMatch(/list of pairs/);
+  });
+
+  it('rejects positions outside the draw', () => {
+    expect(checkPairings([['A1', 'C2'], ['B1', 'A2']], groups, 2)).toBe('Not in the draw of 2 qualifiers per group: C2');
+    expect(checkPairings([['A1', 'B3'], ['B1', 'A2']], groups, 2)).toMatch(/B3$/);
+  });
+
+  it('rejects a team paired twice', () => {
+    expect(checkPairings([['A1', 'B2'], ['A1', 'A2']], groups, 2)).toBe('Paired more than once: A1');
+  });
+
+  it('rejects pairings that leave qualifiers out', () => {
+    expect(checkPairings([['A1', 'B2']], groups, 2)).toBe('Expected 2 pairings to place all 4 qualifiers, got 1');
+  });
+});
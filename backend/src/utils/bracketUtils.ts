@@ -0,0 +1,298 @@
+import { BracketSlot, BracketStage, GameStatus, Result } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export interface BracketSeed {
+  // Where the team comes from, e.g. "A1" for the winner of group A
+  label: string;
+  teamId: string | null;
+}
+
+export interface PlannedAdvancement {
+  key: string;
+  slot: BracketSlot;
+}
+
+export interface PlannedMatch {
+  key: string;
+  stage: BracketStage;
+  round: number;
+  position: number;
+  home: BracketSeed;
+  away: BracketSeed;
+  winnerTo?: PlannedAdvancement;
+  loserTo?: PlannedAdvancement;
+}
+
+const stageByMatchCount: Record<number, BracketStage> = {
+  1: BracketStage.FINAL,
+  2: BracketStage.SEMI_FINAL,
+  4: BracketStage.QUARTER_FINAL,
+  8: BracketStage.ROUND_OF_16,
+  16: BracketStage.ROUND_OF_32,
+};
+
+const stageAbbreviations: Record<BracketStage, string> = {
+  ROUND_OF_32: 'R32-',
+  ROUND_OF_16: 'R16-',
+  QUARTER_FINAL: 'QF',
+  SEMI_FINAL: 'SF',
+  THIRD_PLACE: '3P',
+  FINAL: 'F',
+};
+
+function matchLabel(stage: BracketStage, position: number): string {
+  return stage === BracketStage.FINAL || stage === BracketStage.THIRD_PLACE
+    ? stageAbbreviations[stage]
+    : `${stageAbbreviations[stage]}${position}`;
+}
+
+/**
+ * Standard seeding order so the top seeds can only meet in the final, e.g.
+ * [1, 8, 4, 5, 2, 7, 3, 6] for eight teams.
+ */
+function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * Default first-round pairings from group positions. With an even number of
+ * groups and two qualifiers each, winners meet runners-up of the neighbouring
+ * group (A1-B2, C1-D2, B1-A2, D1-C2) so teams from the same group can only
+ * meet again in the final. A single group is seeded 1 v N, 2 v N-1, and so on.
+ * Returns null for layouts that need explicit pairings.
+ */
+export function defaultPairings(groupNames: string[], qualifiersPerGroup: number): [string, string][] | null {
+  if (groupNames.length === 1) {
+    const [group] = groupNames;
+    const order = seedOrder(qualifiersPerGroup);
+    if (order.length !== qualifiersPerGroup || qualifiersPerGroup < 2) {
+      return null;
+    }
+    const pairings: [string, string][] = [];
+    for (let i = 0; i < order.length; i += 2) {
+      pairings.push([`${group}${order[i]}`, `${group}${order[i + 1]}`]);
+    }
+    return pairings;
+  }
+
+  if (groupNames.length % 2 === 1 || qualifiersPerGroup !== 2) {
+    return null;
+  }
+
+  const winners: [string, string][] = [];
+  const runnersUp: [string, string][] = [];
+  for (let i = 0; i < groupNames.length; i += 2) {
+    const [first, second] = [groupNames[i], groupNames[i + 1]];
+    winners.push([`${first}1`, `${second}2`]);
+    runnersUp.push([`${second}1`, `${first}2`]);
+  }
+  return [...winners, ...runnersUp];
+}
+
+/**
+ * Checks explicit first-round pairings against the draw: every qualifier, from
+ * A1 to the last place that goes through in each group, must appear exactly
+ * once. Returns an error message, or null when the pairings are usable.
+ */
+export function checkPairings(pairings: unknown, groupNames: string[], qualifiersPerGroup: number): string | null {
+  const isPair = (pair: unknown) =>
+    Array.isArray(pair) && pair.length === 2 && pair.every((label) => typeof label === 'string');
+  if (!Array.isArray(pairings) || !pairings.every(isPair)) {
+    return 'pairings must be a list of pairs of group positions, e.g. [["A1", "B2"]]';
+  }
+
+  const draw = groupNames.flatMap((group) =>
+    Array.from({ length: qualifiersPerGroup }, (_, index) => `${group}${index + 1}`.toUpperCase())
+  );
+  const labels = (pairings as [string, string][]).flat().map((label) => label.toUpperCase());
+  const outside = labels.filter((label) => !draw.includes(label));
+  if (outside.length) {
+    return `Not in the draw of ${qualifiersPerGroup} qualifiers per group: ${outside.join(', ')}`;
+  }
+  const repeated = labels.filter((label, index) => labels.indexOf(label) !== index);
+  if (repeated.length) {
+    return `Paired more than once: ${[...new Set(repeated)].join(', ')}`;
+  }
+  if (labels.length !== draw.length) {
+    return `Expected ${draw.length / 2} pairings to place all ${draw.length} qualifiers, got ${pairings.length}`;
+  }
+  return null;
+}
+
+/**
+ * Lays out every match of a single-elimination bracket from its first-round
+ * pairings, linking each match to the one its winner (and, for semi-finals
+ * with a third-place match, its loser) advances to.
+ */
+export function planBracket(firstRound: [BracketSeed, BracketSeed][], thirdPlace: boolean): PlannedMatch[] {
+  if (!stageByMatchCount[firstRound.length]) {
+    throw new Error('The first round must have 1, 2, 4, 8 or 16 matches');
+  }
+
+  const matches: PlannedMatch[] = [];
+  let previous: PlannedMatch[] = firstRound.map(([home, away], index) => ({
+    key: `1-${index + 1}`,
+    stage: stageByMatchCount[firstRound.length],
+    round: 1,
+    position: index + 1,
+    home,
+    away,
+  }));
+  matches.push(...previous);
+
+  for (let round = 2; previous.length > 1; round++) {
+    const stage = stageByMatchCount[previous.length / 2];
+    const current: PlannedMatch[] = [];
+
+    for (let i = 0; i < previous.length; i += 2) {
+      const [homeFeeder, awayFeeder] = [previous[i], previous[i + 1]];
+      const match: PlannedMatch = {
+        key: `${round}-${i / 2 + 1}`,
+        stage,
+        round,
+        position: i / 2 + 1,
+        home: { label: `Winner ${matchLabel(homeFeeder.stage, homeFeeder.position)}`, teamId: null },
+        away: { label: `Winner ${matchLabel(awayFeeder.stage, awayFeeder.position)}`, teamId: null },
+      };
+      homeFeeder.winnerTo = { key: match.key, slot: BracketSlot.HOME };
+      awayFeeder.winnerTo = { key: match.key, slot: BracketSlot.AWAY };
+      current.push(match);
+    }
+
+    if (stage === BracketStage.FINAL && thirdPlace) {
+      const [homeFeeder, awayFeeder] = previous;
+      const match: PlannedMatch = {
+        key: `${round}-2`,
+        stage: BracketStage.THIRD_PLACE,
+        round,
+        position: 2,
+        home: { label: `Loser ${matchLabel(homeFeeder.stage, homeFeeder.position)}`, teamId: null },
+        away: { label: `Loser ${matchLabel(awayFeeder.stage, awayFeeder.position)}`, teamId: null },
+      };
+      homeFeeder.loserTo = { key: match.key, slot: BracketSlot.HOME };
+      awayFeeder.loserTo = { key: match.key, slot: BracketSlot.AWAY };
+      current.push(match);
+    }
+
+    matches.push(...current);
+    previous = current.filter((match) => match.stage !== BracketStage.THIRD_PLACE);
+  }
+
+  return matches;
+}
+
+export interface MatchOutcome {
+  winnerTeamId: string;
+  loserTeamId: string;
+}
+
+/**
+ * Decides a finished knockout match on the score (including extra time), then
+ * on the penalty shoot-out. Returns null while the match is undecided.
+ */
+export function getMatchOutcome(
+  fixture: { homeTeamId: string | null; awayTeamId: string | null },
+  result: Pick<Result, 'status' | 'homeScore' | 'awayScore' | 'homePenalties' | 'awayPenalties'>
+): MatchOutcome | null {
+  const { homeTeamId, awayTeamId } = fixture;
+  if (!homeTeamId || !awayTeamId || result.status !== GameStatus.FINISHED) {
+    return null;
+  }
+
+  let homeWins: boolean;
+  if (result.homeScore !== result.awayScore) {
+    homeWins = result.homeScore > result.awayScore;
+  } else if (result.homePenalties != null && result.awayPenalties != null && result.homePenalties !== result.awayPenalties) {
+    homeWins = result.homePenalties > result.awayPenalties;
+  } else {
+    return null;
+  }
+
+  return homeWins
+    ? { winnerTeamId: homeTeamId, loserTeamId: awayTeamId }
+    : { winnerTeamId: awayTeamId, loserTeamId: homeTeamId };
+}
+
+/**
+ * Moves the winner and loser of a finished knockout fixture into the matches
+ * they advance to. Matches that already have a result are left untouched so a
+ * late correction cannot rewrite a round that has been played. Returns the
+ * bracket ID when anything changed.
+ */
+export async function advanceBracket(fixtureId: string): Promise<string | null> {
+  const match = await prisma.bracketMatch.findUnique({
+    where: { fixtureId },
+    include: {
+      fixture: { include: { result: true } },
+      winnerTo: { include: { fixture: { include: { result: true } } } },
+      loserTo: { include: { fixture: { include: { result: true } } } },
+    },
+  });
+  if (!match?.fixture.result) {
+    return null;
+  }
+
+  const outcome = getMatchOutcome(match.fixture, match.fixture.result);
+  if (!outcome) {
+    return null;
+  }
+
+  const moves = [
+    { target: match.winnerTo, slot: match.winnerSlot, teamId: outcome.winnerTeamId },
+    { target: match.loserTo, slot: match.loserSlot, teamId: outcome.loserTeamId },
+  ];
+
+  let changed = false;
+  for (const { target, slot, teamId } of moves) {
+    if (!target || !slot || target.fixture.result) {
+      continue;
+    }
+    const field = slot === BracketSlot.HOME ? 'homeTeamId' : 'awayTeamId';
+    if (target.fixture[field] === teamId) {
+      continue;
+    }
+    await prisma.fixture.update({
+      where: { id: target.fixtureId },
+      data: { [field]: teamId },
+    });
+    changed = true;
+  }
+
+  return changed ? match.bracketId : null;
+}
+
+const teamInclude = { include: { university: true } };
+
+/**
+ * Loads a bracket with its matches grouped into rounds, in the shape the
+ * frontend draws the tree from.
+ */
+export async function getBracketTree(id: string) {
+  const bracket = await prisma.bracket.findUnique({
+    where: { id },
+    include: {
+      sport: true,
+      matches: {
+        include: {
+          fixture: { include: { homeTeam: teamInclude, awayTeam: teamInclude, result: true } },
+        },
+        orderBy: [{ round: 'asc' }, { position: 'asc' }],
+      },
+    },
+  });
+  if (!bracket) {
+    return null;
+  }
+
+  const { matches, ...rest } = bracket;
+  const rounds = [...new Set(matches.map((match) => match.round))].map((round) => ({
+    round,
+    matches: matches.filter((match) => match.round === round),
+  }));
+  return { ...rest, rounds };
+}
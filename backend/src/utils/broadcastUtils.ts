@@ -0,0 +1,97 @@
+import { io } from '../app';
+import { recordLiveEvent } from '../lib/liveLog';
+import { fixtureRooms, LiveUpdate, room, sendLive } from '../lib/realtime';
+import { getStandingsForFixture } from './standingsUtils';
+import { advanceBracket, getBracketTree } from './bracketUtils';
+import { awardHeatMedals, awardMedals, getMedalTable } from './medalUtils';
+import { CompetitionWithHeats } from './competitionUtils';
+
+// Updates are numbered and sent one at a time, so clients receive them in
+// the order of their numbers
+let publishing = Promise.resolve();
+
+// Logs updates for replay and sends them to every room at once, so a client
+// in several of the rooms hears each update once
+function publish(rooms: string[], updates: LiveUpdate[]): Promise<void> {
+  publishing = publishing.then(async () => {
+    for (const update of updates) {
+      const seq = await recordLiveEvent(update[0], rooms, update[1]);
+      sendLive(io.to(rooms), update, seq);
+    }
+  });
+  const sent = publishing;
+  // A failed update must not hold up the ones queued after it
+  publishing = publishing.catch(() => undefined);
+  return sent;
+}
+
+// Sends updates to the rooms that follow a fixture, in the order given
+export function emitToFixture(fixtureId: string, ...updates: LiveUpdate[]) {
+  fixtureRooms(fixtureId)
+    .then((rooms) => {
+      if (rooms.length) {
+        return publish(rooms, updates);
+      }
+    })
+    .catch((error) => console.error('Failed to push fixture update', error));
+}
+
+// Pushes the recomputed tables a fixture counts towards. Runs after the
+// response so a failure here never fails the result update itself.
+export function emitStandingsUpdate(fixtureId: string) {
+  getStandingsForFixture(fixtureId)
+    .then((standings) => {
+      if (standings) {
+        const rooms = [room('sport', standings.sportId)];
+        if (standings.tournamentId) {
+          rooms.push(room('tournament', standings.tournamentId));
+        }
+        return publish(rooms, [['standingsUpdate', standings]]);
+      }
+    })
+    .catch((error) => console.error('Failed to push standings update', error));
+}
+
+// Moves the teams of a finished knockout match into the next round and pushes
+// the updated tree. Like the standings push, it never fails the request.
+export function emitBracketUpdate(fixtureId: string) {
+  advanceBracket(fixtureId)
+    .then(async (bracketId) => {
+      const bracket = bracketId && (await getBracketTree(bracketId));
+      if (bracket) {
+        await publish([room('sport', bracket.sportId), room('tournament', bracket.tournamentId)], [['bracketUpdate', bracket]]);
+      }
+    })
+    .catch((error) => console.error('Failed to advance bracket', error));
+}
+
+// Pushes the medal table of the tournament whose medals changed, if any
+function publishMedals(awarding: Promise<string | null>) {
+  awarding
+    .then(async (tournamentId) => {
+      if (tournamentId) {
+        await publish([room('tournament', tournamentId)], [['medalUpdate', await getMedalTable(tournamentId)]]);
+      }
+    })
+    .catch((error) => console.error('Failed to award medals', error));
+}
+
+// Awards or takes back the medals a knockout match decides and pushes the
+// tournament's medal table. Like the bracket push, it never fails the request.
+export function emitMedalUpdate(fixtureId: string) {
+  publishMedals(awardMedals(fixtureId));
+}
+
+// The same for the medals of a competition final
+export function emitHeatMedalUpdate(heatId: string) {
+  publishMedals(awardHeatMedals(heatId));
+}
+
+// Pushes a competition after its heats were drawn or their results changed
+export function emitCompetitionUpdate(competition: CompetitionWithHeats) {
+  const rooms = [room('sport', competition.sportId)];
+  if (competition.tournamentId) {
+    rooms.push(room('tournament', competition.tournamentId));
+  }
+  publish(rooms, [['competitionUpdate', competition]]).catch((error) => console.error('Failed to push competition update', error));
+}
@@ -0,0 +1,94 @@
+import { ClockState, ScoringFormat } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { applyClockAction, ClockChange, clockActionError, clockNotStarted, ClockRules, readClock } from './clockUtils';
+
+const football: ClockRules = {
+  name: 'Football',
+  scoringFormat: ScoringFormat.PERIODS,
+  periodCount: 2,
+  setPoints: 25,
+  decidingSetPoints: 15,
+  setWinMargin: 2,
+  periodMinutes: 45,
+  overtimeMinutes: 15,
+  clockCountsDown: false,
+};
+const basketball: ClockRules = { ...football, name: 'Basketball', periodCount: 4, periodMinutes: 10, overtimeMinutes: 5, clockCountsDown: true };
+
+const kickoff = new Date('2024-12-16T06:00:00Z');
+const after = (seconds: number) => new Date(kickoff.getTime() + seconds * 1000);
+
+// Takes an action that must succeed
+function act(clock: ClockChange, action: Parameters<typeof applyClockAction>[1], at: Date, options = {}): ClockChange {
+  expect(clockActionError(clock.state, action)).toBeNull();
+  const change = applyClockAction(clock, action, options, football, at);
+  if (typeof change === 'string') {
+    throw new Error(change);
+  }
+  return change;
+}
+
+describe('readClock', () => {
+  it('shows the match time, with stoppage time after the period', () => {
+    const firstHalf = act(clockNotStarted, 'start', kickoff);
+    expect(readClock({ ...firstHalf, fixtureId: 'f1' }, football, after(600))).toMatchObject({
+      state: ClockState.RUNNING,
+      label: '1st half',
+      elapsedSeconds: 600,
+      display: '10:00',
+    });
+    expect(readClock({ ...firstHalf, fixtureId: 'f1' }, football, after(45 * 60 + 90)).display).toBe('45:00+01:30');
+
+    const secondHalf = { ...firstHalf, period: 2 };
+    expect(readClock({ ...secondHalf, fixtureId: 'f1' }, football, after(60)).display).toBe('46:00');
+    expect(readClock({ ...secondHalf, fixtureId: 'f1' }, football, after(60)).matchSeconds).toBe(46 * 60);
+  });
+
+  it('counts down in sports such as basketball', () => {
+    const clock = { ...clockNotStarted, state: ClockState.RUNNING, period: 5, runningSince: kickoff, fixtureId: 'f1' };
+    expect(readClock(clock, basketball, after(9))).toMatchObject({ label: 'OT1', remainingSeconds: 291, display: '04:51' });
+  });
+});
+
+describe('applyClockAction', () => {
+  it('keeps the time played while paused', () => {
+    const paused = act(act(clockNotStarted, 'start', kickoff), 'pause', after(120));
+    expect(paused).toMatchObject({ state: ClockState.PAUSED, elapsedMs: 120000, runningSince: null });
+    expect(readClock({ ...paused, fixtureId: 'f1' }, football, after(600)).elapsedSeconds).toBe(120);
+
+    const resumed = act(paused, 'resume', after(600));
+    expect(readClock({ ...resumed, fixtureId: 'f1' }, football, after(630)).elapsedSeconds).toBe(150);
+  });
+
+  it('breaks between periods and stops at full time after the last', () => {
+    const halfTime = act(act(clockNotStarted, 'start', kickoff), 'end-period', after(2760));
+    expect(halfTime.state).toBe(ClockState.BREAK);
+
+    const fullTime = act(act(halfTime, 'start', after(3600)), 'end-period', after(6400));
+    expect(fullTime).toMatchObject({ state: ClockState.FULL_TIME, period: 2 });
+    expect(clockActionError(fullTime.state, 'resume')).toMatch(/cannot resume while full time/);
+  });
+
+  it('plays overtime only when started again from full time', () => {
+    const fullTime = { ...clockNotStarted, state: ClockState.FULL_TIME, period: 2 };
+    const extraTime = act(fullTime, 'start', kickoff);
+    expect(extraTime).toMatchObject({ state: ClockState.RUNNING, period: 3, elapsedMs: 0 });
+    expect(act(extraTime, 'end-period', after(60)).state).toBe(ClockState.FULL_TIME);
+  });
+
+  it('refuses actions the state does not allow', () => {
+    expect(clockActionError(ClockState.BREAK, 'pause')).toBe('The clock cannot pause while break');
+    expect(clockActionError(ClockState.RUNNING, 'start')).not.toBeNull();
+  });
+
+  it('validates added minutes and adjusted seconds', () => {
+    const running = act(clockNotStarted, 'start', kickoff);
+    expect(applyClockAction(running, 'added-time', { minutes: 3 }, football, kickoff)).toMatchObject({ addedMinutes: 3 });
+    expect(applyClockAction(running, 'added-time', { minutes: 1.5 }, football, kickoff)).toMatch(/whole number/);
+    expect(applyClockAction(running, 'adjust', { seconds: -1 }, football, kickoff)).toMatch(/whole seconds/);
+    expect(applyClockAction(running, 'adjust', { seconds: 90 }, football, after(600))).toMatchObject({
+      elapsedMs: 90000,
+      runningSince: after(600),
+    });
+  });
+});
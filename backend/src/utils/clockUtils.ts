@@ -0,0 +1,156 @@
+import { ClockState, GameClock, Sport } from '@prisma/client';
+import { periodLabel, ScoringRules } from './scoringUtils';
+
+export type ClockRules = ScoringRules & Pick<Sport, 'periodMinutes' | 'overtimeMinutes' | 'clockCountsDown'>;
+
+export type ClockAction = 'start' | 'pause' | 'resume' | 'end-period' | 'added-time' | 'adjust';
+
+export const clockActions: ClockAction[] = ['start', 'pause', 'resume', 'end-period', 'added-time', 'adjust'];
+
+export type ClockChange = Pick<GameClock, 'state' | 'period' | 'elapsedMs' | 'runningSince' | 'addedMinutes'>;
+
+// A clock before kick-off
+export const clockNotStarted: ClockChange = {
+  state: ClockState.NOT_STARTED,
+  period: 0,
+  elapsedMs: 0,
+  runningSince: null,
+  addedMinutes: 0,
+};
+
+export interface ClockReading {
+  fixtureId: string;
+  state: ClockState;
+  period: number;
+  label: string | null;
+  // Time played in the current period, and in the match so far
+  elapsedSeconds: number;
+  matchSeconds: number;
+  periodSeconds: number;
+  // Time left in the period; 0 once it is in added time
+  remainingSeconds: number;
+  addedMinutes: number;
+  // What the scoreboard shows, e.g. "67:12", "45:00+01:30" or "04:51"
+  display: string;
+  serverTime: Date;
+}
+
+// Which states each action may be taken from
+const allowedFrom: Record<ClockAction, ClockState[]> = {
+  start: [ClockState.NOT_STARTED, ClockState.BREAK, ClockState.FULL_TIME],
+  pause: [ClockState.RUNNING],
+  resume: [ClockState.PAUSED],
+  'end-period': [ClockState.RUNNING, ClockState.PAUSED],
+  'added-time': [ClockState.RUNNING, ClockState.PAUSED],
+  adjust: [ClockState.RUNNING, ClockState.PAUSED, ClockState.BREAK],
+};
+
+function periodLength(rules: ClockRules, period: number): number {
+  const minutes = period > rules.periodCount ? rules.overtimeMinutes ?? rules.periodMinutes! : rules.periodMinutes!;
+  return minutes * 60;
+}
+
+function elapsedMs(clock: ClockChange, now: Date): number {
+  return clock.elapsedMs + (clock.runningSince ? now.getTime() - clock.runningSince.getTime() : 0);
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Reads the clock at a moment. Counting-up clocks show the match time, so the
+ * second half starts at 45:00 and stoppage time is shown after the period's
+ * end (45:00+01:30); counting-down clocks show the time left in the period.
+ */
+export function readClock(
+  clock: ClockChange & Pick<GameClock, 'fixtureId'>,
+  rules: ClockRules,
+  now = new Date()
+): ClockReading {
+  const length = clock.period ? periodLength(rules, clock.period) : periodLength(rules, 1);
+  const elapsed = Math.floor(elapsedMs(clock, now) / 1000);
+  let before = 0;
+  for (let period = 1; period < clock.period; period++) {
+    before += periodLength(rules, period);
+  }
+
+  const remaining = Math.max(0, length - elapsed);
+  let display = formatTime(remaining);
+  if (!rules.clockCountsDown) {
+    display = elapsed > length
+      ? `${formatTime(before + length)}+${formatTime(elapsed - length)}`
+      : formatTime(before + elapsed);
+  }
+
+  return {
+    fixtureId: clock.fixtureId,
+    state: clock.state,
+    period: clock.period,
+    label: clock.period ? periodLabel(rules, clock.period) : null,
+    elapsedSeconds: elapsed,
+    matchSeconds: before + elapsed,
+    periodSeconds: length,
+    remainingSeconds: remaining,
+    addedMinutes: clock.addedMinutes,
+    display,
+    serverTime: now,
+  };
+}
+
+// Explains why an action cannot be taken in the clock's state, if it cannot
+export function clockActionError(state: ClockState, action: ClockAction): string | null {
+  if (allowedFrom[action].includes(state)) {
+    return null;
+  }
+  return `The clock cannot ${action.replace('-', ' ')} while ${state.toLowerCase().replace('_', ' ')}`;
+}
+
+/**
+ * Works out the clock after an action: `start` kicks off the next period,
+ * `pause` and `resume` stop and restart it, `end-period` blows the whistle
+ * for a break, or for full time once the sport's periodCount has been played,
+ * `added-time` announces stoppage minutes and `adjust` corrects the time
+ * played in the period to `seconds`. Starting from full time plays an
+ * overtime period. Returns an error message when the minutes or seconds are
+ * invalid; check clockActionError first.
+ */
+export function applyClockAction(
+  clock: ClockChange,
+  action: ClockAction,
+  options: { minutes?: number; seconds?: number },
+  rules: Pick<ClockRules, 'periodCount'>,
+  now = new Date()
+): ClockChange | string {
+  const running = clock.state === ClockState.RUNNING;
+  // Only the clock's own fields, so the change can be saved as it is
+  const { state, period, runningSince, addedMinutes } = clock;
+  const current: ClockChange = { state, period, elapsedMs: clock.elapsedMs, runningSince, addedMinutes };
+
+  switch (action) {
+    case 'start':
+      return { state: ClockState.RUNNING, period: period + 1, elapsedMs: 0, runningSince: now, addedMinutes: 0 };
+    case 'pause':
+      return { ...current, state: ClockState.PAUSED, elapsedMs: elapsedMs(current, now), runningSince: null };
+    case 'resume':
+      return { ...current, state: ClockState.RUNNING, runningSince: now };
+    case 'end-period':
+      return {
+        ...current,
+        state: period >= rules.periodCount ? ClockState.FULL_TIME : ClockState.BREAK,
+        elapsedMs: elapsedMs(current, now),
+        runningSince: null,
+      };
+    case 'added-time':
+      if (!Number.isInteger(options.minutes) || options.minutes! < 0) {
+        return 'minutes must be a whole number of added minutes';
+      }
+      return { ...current, addedMinutes: options.minutes! };
+    case 'adjust':
+      if (!Number.isInteger(options.seconds) || options.seconds! < 0) {
+        return 'seconds must be the whole seconds played in the period';
+      }
+      return { ...current, elapsedMs: options.seconds! * 1000, runningSince: running ? now : null };
+  }
+}
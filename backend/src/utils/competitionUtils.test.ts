@@ -0,0 +1,106 @@
+import { EntryStatus, HeatStage, MarkType } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import { CompetitionWithHeats, drawHeats, laneOrder, parseMark, rankCompetition, rankHeat, selectQualifiers } from './competitionUtils';
+
+vi.mock('../lib/prisma', () => ({ prisma: {} }));
+
+type Heat = CompetitionWithHeats['heats'][number];
+
+const entry = (athleteId: string, mark: number | null, rank: number | null, status: EntryStatus = EntryStatus.OK) => ({
+  athleteId,
+  athlete: { id: athleteId },
+  mark,
+  rank,
+  status,
+});
+
+const heat = (round: number, stage: HeatStage, entries: ReturnType<typeof entry>[]) => ({ round, stage, entries }) as unknown as Heat;
+
+// Two heats of 100m; the winners and the next two fastest go through
+const heats = [
+  heat(1, HeatStage.HEAT, [entry('a', 10.0, 1), entry('b', 10.3, 2), entry('c', 10.6, 3)]),
+  heat(1, HeatStage.HEAT, [entry('d', 10.1, 1), entry('e', 10.2, 2), entry('f', null, null, EntryStatus.DNF)]),
+];
+
+describe('parseMark', () => {
+  it('reads times as clock readings in seconds', () => {
+    expect(parseMark('10.54', MarkType.TIME)).toBe(10.54);
+    expect(parseMark('1:02.35', MarkType.TIME)).toBeCloseTo(62.35);
+    expect(parseMark('2:11:04', MarkType.TIME)).toBe(7864);
+    expect(parseMark(12.5, MarkType.DISTANCE)).toBe(12.5);
+  });
+
+  it('tells a missing mark from one it cannot read', () => {
+    expect(parseMark('', MarkType.TIME)).toBeNull();
+    expect(parseMark(null, MarkType.TIME)).toBeNull();
+    expect(parseMark('1:02', MarkType.DISTANCE)).toBeUndefined();
+    expect(parseMark('1:2:3:4', MarkType.TIME)).toBeUndefined();
+    expect(parseMark(-1, MarkType.POINTS)).toBeUndefined();
+  });
+});
+
+describe('drawHeats', () => {
+  it('orders lanes from the middle outwards', () => {
+    expect(laneOrder(8)).toEqual([4, 5, 3, 6, 2, 7, 1, 8]);
+    expect(laneOrder(5)).toEqual([3, 4, 2, 5, 1]);
+  });
+
+  it('spreads the seeds over the heats in a serpentine, best in the middle lanes', () => {
+    const entrants = ['a', 'b', 'c', 'd', 'e', 'f'].map((athleteId, index) => ({ athleteId, seedMark: 10 + index / 10 }));
+    const drawn = drawHeats(entrants, 2, 8);
+    expect(drawn.map((heat) => heat.entries.map((entry) => [entry.seed, entry.lane]))).toEqual([
+      [[1, 4], [4, 5], [5, 3]],
+      [[2, 4], [3, 5], [6, 3]],
+    ]);
+  });
+});
+
+describe('rankHeat', () => {
+  it('places finishers by mark, sharing places on equal marks', () => {
+    const entries = [
+      entry('a', 10.5, null),
+      entry('b', 10.2, null),
+      entry('c', 10.5, null),
+      entry('d', null, null),
+      entry('e', 9.9, null, EntryStatus.DQ),
+    ];
+    expect(rankHeat(MarkType.TIME, entries).map((entry) => entry.rank)).toEqual([2, 1, 2, null, null]);
+    expect(rankHeat(MarkType.DISTANCE, entries).map((entry) => entry.rank)).toEqual([1, 3, 1, null, null]);
+  });
+
+  it('keeps the places given in a RANK competition', () => {
+    const entries = [entry('a', null, 2), entry('b', null, 1, EntryStatus.DNF)];
+    expect(rankHeat(MarkType.RANK, entries).map((entry) => entry.rank)).toEqual([2, null]);
+  });
+});
+
+describe('selectQualifiers', () => {
+  it('takes the places first, then the best marks of the rest', () => {
+    expect(selectQualifiers(MarkType.TIME, heats, 1, 2)).toEqual([
+      { athleteId: 'a', seedMark: 10.0, qualified: 'Q' },
+      { athleteId: 'd', seedMark: 10.1, qualified: 'Q' },
+      { athleteId: 'e', seedMark: 10.2, qualified: 'q' },
+      { athleteId: 'b', seedMark: 10.3, qualified: 'q' },
+    ]);
+  });
+});
+
+describe('rankCompetition', () => {
+  it('ranks finalists by place, then those knocked out by their mark', () => {
+    const final = heat(2, HeatStage.FINAL, [
+      entry('d', 10.0, 1),
+      entry('a', 10.0, 1),
+      entry('b', 10.4, 3),
+      entry('e', null, null, EntryStatus.DQ),
+    ]);
+    const competition = { markType: MarkType.TIME, heats: [...heats, final] } as unknown as CompetitionWithHeats;
+    expect(rankCompetition(competition).map((row) => [row.athlete.id, row.place, row.stage])).toEqual([
+      ['d', 1, HeatStage.FINAL],
+      ['a', 1, HeatStage.FINAL],
+      ['b', 3, HeatStage.FINAL],
+      ['e', null, HeatStage.FINAL],
+      ['c', 5, HeatStage.HEAT],
+      ['f', null, HeatStage.HEAT],
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+import { EntryStatus, HeatStage, MarkType, Prisma } from '@prisma/client';
+import { publicAthleteSelect } from './rosterUtils';
+
+export const heatInclude = {
+  venue: true,
+  entries: {
+    include: { athlete: { select: publicAthleteSelect } },
+    orderBy: [{ rank: { sort: 'asc', nulls: 'last' } }, { lane: 'asc' }],
+  },
+} satisfies Prisma.HeatInclude;
+
+export const competitionInclude = {
+  sport: true,
+  tournament: true,
+  heats: { include: heatInclude, orderBy: [{ round: 'asc' }, { number: 'asc' }] },
+} satisfies Prisma.CompetitionInclude;
+
+export type CompetitionWithHeats = Prisma.CompetitionGetPayload<{ include: typeof competitionInclude }>;
+
+type HeatWithEntries = CompetitionWithHeats['heats'][number];
+
+type EntryWithAthlete = HeatWithEntries['entries'][number];
+
+export interface SeededEntrant {
+  athleteId: string;
+  seedMark: number | null;
+}
+
+export interface DrawnHeat {
+  number: number;
+  entries: (SeededEntrant & { seed: number; lane: number })[];
+}
+
+export interface Qualifier extends SeededEntrant {
+  qualified: 'Q' | 'q';
+}
+
+export interface RankingRow {
+  place: number | null;
+  athlete: EntryWithAthlete['athlete'];
+  // The furthest round the athlete reached, and how they did in it
+  round: number;
+  stage: HeatStage;
+  mark: number | null;
+  status: EntryStatus;
+}
+
+const lowerIsBetter = (markType: MarkType) => markType === MarkType.TIME || markType === MarkType.RANK;
+
+// Negative when mark a is better than mark b
+export function compareMarks(markType: MarkType, a: number, b: number): number {
+  return lowerIsBetter(markType) ? a - b : b - a;
+}
+
+// Best first; entrants without a mark go last
+function compareOptionalMarks(markType: MarkType, a: number | null, b: number | null): number {
+  if (a === null || b === null) {
+    return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  }
+  return compareMarks(markType, a, b);
+}
+
+/**
+ * Reads a mark: a number, or for times a clock reading such as "10.54",
+ * "1:02.35" or "2:11:04". Returns null when there is no mark and undefined
+ * when it cannot be read.
+ */
+export function parseMark(value: unknown, markType: MarkType): number | null | undefined {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const parts = markType === MarkType.TIME ? value.trim().split(':') : [value.trim()];
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return undefined;
+  }
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+// Lanes from the middle outwards, e.g. 4, 5, 3, 6, 2, 7, 1, 8 for eight lanes
+export function laneOrder(lanes: number): number[] {
+  const centre = Math.ceil(lanes / 2);
+  const order = [centre];
+  for (let offset = 1; order.length < lanes; offset++) {
+    for (const lane of [centre + offset, centre - offset]) {
+      if (lane >= 1 && lane <= lanes) {
+        order.push(lane);
+      }
+    }
+  }
+  return order;
+}
+
+export function sortBySeedMark<T extends SeededEntrant>(markType: MarkType, entrants: T[]): T[] {
+  return [...entrants].sort((a, b) => compareOptionalMarks(markType, a.seedMark, b.seedMark));
+}
+
+/**
+ * Spreads entrants, best first, over heats in a serpentine (1, 2, 3, 3, 2,
+ * 1, ...) so every heat is equally strong, then gives the best seeds in each
+ * heat the middle lanes.
+ */
+export function drawHeats(entrants: SeededEntrant[], heatCount: number, lanes: number): DrawnHeat[] {
+  const heats: DrawnHeat[] = Array.from({ length: heatCount }, (_, index) => ({ number: index + 1, entries: [] }));
+  const order = laneOrder(lanes);
+  entrants.forEach((entrant, index) => {
+    const row = Math.floor(index / heatCount);
+    const column = index % heatCount;
+    const heat = heats[row % 2 === 0 ? column : heatCount - 1 - column];
+    const { athleteId, seedMark } = entrant;
+    heat.entries.push({ athleteId, seedMark, seed: index + 1, lane: order[heat.entries.length] });
+  });
+  return heats;
+}
+
+/**
+ * Places a heat's entrants by mark; entrants level on mark share a place.
+ * RANK competitions keep the places they were given. Entrants who did not
+ * start or finish, or were disqualified, are not placed.
+ */
+export function rankHeat<T extends { mark: number | null; rank: number | null; status: EntryStatus }>(
+  markType: MarkType,
+  entries: T[]
+): T[] {
+  if (markType === MarkType.RANK) {
+    return entries.map((entry) => ({ ...entry, rank: entry.status === EntryStatus.OK ? entry.rank : null }));
+  }
+  const placed = entries
+    .filter((entry) => entry.status === EntryStatus.OK && entry.mark !== null)
+    .sort((a, b) => compareMarks(markType, a.mark!, b.mark!));
+  return entries.map((entry) => {
+    const index = placed.indexOf(entry);
+    if (index === -1) {
+      return { ...entry, rank: null };
+    }
+    const first = placed.findIndex((other) => other.mark === entry.mark);
+    return { ...entry, rank: first + 1 };
+  });
+}
+
+/**
+ * Picks who goes through from a finished round: the first `byPlace` of each
+ * heat ("Q"), then the best `byMark` of the rest across all heats ("q").
+ * Qualifiers are returned best first for seeding the next round.
+ */
+export function selectQualifiers(markType: MarkType, heats: HeatWithEntries[], byPlace: number, byMark: number): Qualifier[] {
+  const entries = heats.flatMap((heat) => heat.entries).filter((entry) => entry.status === EntryStatus.OK);
+  const onPlace = entries
+    .filter((entry) => entry.rank !== null && entry.rank <= byPlace)
+    .sort((a, b) => a.rank! - b.rank! || compareOptionalMarks(markType, a.mark, b.mark));
+  const onMark = entries
+    .filter((entry) => !onPlace.includes(entry) && entry.mark !== null)
+    .sort((a, b) => compareMarks(markType, a.mark!, b.mark!))
+    .slice(0, byMark);
+  return [
+    ...onPlace.map((entry): Qualifier => ({ athleteId: entry.athleteId, seedMark: entry.mark, qualified: 'Q' })),
+    ...onMark.map((entry): Qualifier => ({ athleteId: entry.athleteId, seedMark: entry.mark, qualified: 'q' })),
+  ];
+}
+
+/**
+ * Ranks every entrant of a competition. Finalists come first in their
+ * finishing order; then those knocked out in each earlier round, by their
+ * mark in that round (or place, for RANK competitions). Before the final, the
+ * latest round is ranked the same way across its heats. Entrants without a
+ * mark come last in their round, unplaced.
+ */
+export function rankCompetition(competition: CompetitionWithHeats): RankingRow[] {
+  const rounds = [...new Set(competition.heats.map((heat) => heat.round))].sort((a, b) => b - a);
+  const ranked = new Set<string>();
+  const rows: RankingRow[] = [];
+
+  for (const round of rounds) {
+    const heats = competition.heats.filter((heat) => heat.round === round);
+    // Places decide a final, and every round of a RANK competition
+    const byRank = competition.markType === MarkType.RANK || (heats.length === 1 && heats[0].stage === HeatStage.FINAL);
+    const entries = heats
+      .flatMap((heat) => heat.entries.map((entry) => ({ entry, stage: heat.stage })))
+      .filter(({ entry }) => !ranked.has(entry.athleteId));
+    const placed = (entry: EntryWithAthlete) => entry.status === EntryStatus.OK && (byRank ? entry.rank : entry.mark) !== null;
+    entries.sort((a, b) => {
+      if (placed(a.entry) !== placed(b.entry)) {
+        return placed(a.entry) ? -1 : 1;
+      }
+      if (!placed(a.entry)) {
+        return 0;
+      }
+      return byRank ? a.entry.rank! - b.entry.rank! : compareMarks(competition.markType, a.entry.mark!, b.entry.mark!);
+    });
+
+    const before = rows.length;
+    entries.forEach(({ entry, stage }, index) => {
+      ranked.add(entry.athleteId);
+      let place: number | null = null;
+      if (placed(entry)) {
+        const previous = index > 0 ? entries[index - 1].entry : null;
+        const level = previous && placed(previous) && (byRank ? previous.rank === entry.rank : previous.mark === entry.mark);
+        place = level ? rows[rows.length - 1].place : before + index + 1;
+      }
+      rows.push({ place, athlete: entry.athlete, round, stage, mark: entry.mark, status: entry.status });
+    });
+  }
+
+  return rows;
+}
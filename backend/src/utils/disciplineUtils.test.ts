@@ -0,0 +1,79 @@
+import { GameStatus, MatchEventType, TeamSide } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../lib/prisma';
+import { buildDisciplineRegister } from './disciplineUtils';
+
+vi.mock('../lib/prisma', () => ({
+  prisma: { matchEvent: { findMany: vi.fn() }, fixture: { findMany: vi.fn() } },
+}));
+
+const { YELLOW_CARD, RED_CARD } = MatchEventType;
+
+const fixtures = [1, 2, 3, 4].map((round) => ({
+  id: `f${round}`,
+  round,
+  date: new Date(`2024-12-1${round}T12:00:00Z`),
+  createdAt: new Date('2024-12-01'),
+  sportId: 'football',
+  homeTeamId: 'team-1',
+  awayTeamId: `team-${round + 1}`,
+  result: { status: GameStatus.FINISHED },
+}));
+
+let nextId = 0;
+function card(type: MatchEventType, fixture: number, minute: number) {
+  const { result, ...rest } = fixtures[fixture - 1];
+  return {
+    id: `e${++nextId}`,
+    type,
+    side: TeamSide.HOME,
+    athleteId: 'athlete-1',
+    fixtureId: rest.id,
+    period: 1,
+    minute,
+    createdAt: new Date('2024-12-01'),
+    athlete: { id: 'athlete-1' },
+    fixture: { ...rest, sport: { disciplineRules: [] } },
+  };
+}
+
+async function register(...events: ReturnType<typeof card>[]) {
+  vi.mocked(prisma.matchEvent.findMany).mockResolvedValueOnce(events as never);
+  vi.mocked(prisma.fixture.findMany).mockResolvedValueOnce(fixtures as never);
+  const [record] = await buildDisciplineRegister({ tournamentId: 't1' });
+  return record;
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('buildDisciplineRegister', () => {
+  it('bans for every second yellow card across matches', async () => {
+    const record = await register(card(YELLOW_CARD, 1, 10), card(YELLOW_CARD, 2, 20));
+    expect(record.sanctions).toEqual({ YELLOW_CARD: 2 });
+    expect(record.suspensions).toHaveLength(1);
+    expect(record.suspensions[0]).toMatchObject({ reason: '2 yellow cards', fixtureIds: ['f3'], remaining: 0 });
+  });
+
+  it('counts a second yellow and the red that follows as one sending-off', async () => {
+    const red = card(RED_CARD, 1, 60);
+    const record = await register(card(YELLOW_CARD, 1, 10), card(YELLOW_CARD, 1, 60), red);
+    expect(record.sanctions).toEqual({ RED_CARD: 1 });
+    expect(record.suspensions).toHaveLength(1);
+    expect(record.suspensions[0]).toMatchObject({ reason: 'A red card', eventId: red.id, fixtureIds: ['f2'] });
+  });
+
+  it('sends off for two yellows even when no red was recorded', async () => {
+    const second = card(YELLOW_CARD, 1, 60);
+    const record = await register(card(YELLOW_CARD, 1, 10), second, card(YELLOW_CARD, 3, 5));
+    expect(record.sanctions).toEqual({ RED_CARD: 1, YELLOW_CARD: 1 });
+    expect(record.suspensions).toEqual([expect.objectContaining({ eventId: second.id, fixtureIds: ['f2'] })]);
+  });
+
+  it('keeps a caution before a straight red', async () => {
+    const record = await register(card(YELLOW_CARD, 1, 10), card(RED_CARD, 1, 30), card(RED_CARD, 1, 31));
+    expect(record.sanctions).toEqual({ YELLOW_CARD: 1, RED_CARD: 1 });
+    expect(record.suspensions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,259 @@
+import { DisciplineRule, GameStatus, MatchEventType, Prisma, TeamSide } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { publicAthleteSelect } from './rosterUtils';
+import { MatchEventInput } from './timelineUtils';
+
+// Events that go on a player's disciplinary record
+export const disciplinaryEvents: MatchEventType[] = [
+  MatchEventType.YELLOW_CARD,
+  MatchEventType.RED_CARD,
+  MatchEventType.GREEN_CARD,
+  MatchEventType.TECHNICAL_FOUL,
+  MatchEventType.SIN_BIN,
+];
+
+export type DisciplineRuleInput = Pick<DisciplineRule, 'eventType' | 'count' | 'matchesBanned'>;
+
+// Used by sports that have not set their own rules
+export const defaultDisciplineRules: DisciplineRuleInput[] = [
+  { eventType: MatchEventType.RED_CARD, count: 1, matchesBanned: 1 },
+  { eventType: MatchEventType.YELLOW_CARD, count: 2, matchesBanned: 1 },
+];
+
+export interface Suspension {
+  athleteId: string;
+  teamId: string;
+  sportId: string;
+  reason: string;
+  // The event that triggered the ban, and the fixture it happened in
+  eventId: string;
+  fixtureId: string;
+  matchesBanned: number;
+  // The team's fixtures the ban covers, as far as they are known yet
+  fixtureIds: string[];
+  served: number;
+  remaining: number;
+}
+
+export interface DisciplineRecord {
+  athlete: Prisma.AthleteGetPayload<{ select: typeof publicAthleteSelect }>;
+  sportId: string;
+  teamId: string;
+  // Sanctions collected, by event type; a sending-off for two yellow cards
+  // counts as one red card
+  sanctions: Partial<Record<MatchEventType, number>>;
+  suspensions: Suspension[];
+}
+
+export interface DisciplineFilter {
+  // Sanctions count within one tournament; null for fixtures outside tournaments
+  tournamentId: string | null;
+  sportId?: string;
+  teamId?: string;
+  athleteIds?: string[];
+}
+
+const disciplineEventInclude = {
+  athlete: { select: publicAthleteSelect },
+  fixture: { include: { sport: { include: { disciplineRules: true } } } },
+} satisfies Prisma.MatchEventInclude;
+
+type DisciplineEvent = Prisma.MatchEventGetPayload<{ include: typeof disciplineEventInclude }>;
+
+type TeamFixture = Prisma.FixtureGetPayload<{ include: { result: true } }>;
+
+const eventLabels: Partial<Record<MatchEventType, string>> = {
+  YELLOW_CARD: 'yellow card',
+  RED_CARD: 'red card',
+  GREEN_CARD: 'green card',
+  TECHNICAL_FOUL: 'technical foul',
+  SIN_BIN: 'sin-bin',
+};
+
+const eventTime = (event: DisciplineEvent) => (event.fixture.date ?? event.createdAt).getTime();
+
+// Fixtures in the order they are played; ones without a kickoff come last
+function byPlayingOrder(a: TeamFixture, b: TeamFixture): number {
+  if (a.date && b.date) {
+    return a.date.getTime() - b.date.getTime();
+  }
+  if (a.date || b.date) {
+    return a.date ? -1 : 1;
+  }
+  return (a.round ?? 0) - (b.round ?? 0) || a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+/**
+ * The events that count towards the register, each with the sanction it
+ * counts as. A player is sent off at most once a match, so only their first
+ * red card in a match counts. Two yellow cards in a match are one sending-off:
+ * they count as a single red card (the one shown for them when it was
+ * recorded) and not towards yellow card accumulation.
+ */
+function countedSanctions(events: DisciplineEvent[]): { event: DisciplineEvent; type: MatchEventType }[] {
+  const matches = new Map<string, DisciplineEvent[]>();
+  for (const event of events) {
+    const key = `${event.athleteId}:${event.fixtureId}`;
+    matches.set(key, [...(matches.get(key) ?? []), event]);
+  }
+
+  const skipped = new Set<string>();
+  const sendingOffs = new Set<string>();
+  for (const matchEvents of matches.values()) {
+    const yellows = matchEvents.filter((event) => event.type === MatchEventType.YELLOW_CARD);
+    const reds = matchEvents.filter((event) => event.type === MatchEventType.RED_CARD);
+    reds.slice(1).forEach((event) => skipped.add(event.id));
+    if (yellows.length >= 2) {
+      yellows.forEach((event) => skipped.add(event.id));
+      if (!reds.length) {
+        skipped.delete(yellows[1].id);
+        sendingOffs.add(yellows[1].id);
+      }
+    }
+  }
+
+  return events
+    .filter((event) => !skipped.has(event.id))
+    .map((event) => ({ event, type: sendingOffs.has(event.id) ? MatchEventType.RED_CARD : event.type }));
+}
+
+export function rulesFor(sport: { disciplineRules: DisciplineRuleInput[] }): DisciplineRuleInput[] {
+  return sport.disciplineRules.length ? sport.disciplineRules : defaultDisciplineRules;
+}
+
+/**
+ * Finds the roster athlete behind a match event: the one named in the
+ * fixture's squad with the player's shirt number, or else the one wearing it
+ * on the team's roster. Returns null when the event has no shirt number or
+ * nobody wears it.
+ */
+export async function resolveEventAthlete(
+  fixture: { id: string; homeTeamId: string | null; awayTeamId: string | null },
+  event: MatchEventInput
+): Promise<string | null> {
+  const teamId = event.side === TeamSide.HOME ? fixture.homeTeamId : fixture.awayTeamId;
+  if (!teamId || event.playerNumber === null) {
+    return null;
+  }
+  const [squadEntry, rosterEntry] = await Promise.all([
+    prisma.squadEntry.findFirst({ where: { fixtureId: fixture.id, teamId, jerseyNumber: event.playerNumber } }),
+    prisma.rosterEntry.findUnique({ where: { teamId_jerseyNumber: { teamId, jerseyNumber: event.playerNumber } } }),
+  ]);
+  return squadEntry?.athleteId ?? rosterEntry?.athleteId ?? null;
+}
+
+/**
+ * Builds the disciplinary register of a tournament. Each athlete's sanctions
+ * are counted per sport, and every time a count reaches a multiple of the
+ * sport's rule (e.g. every second yellow card) the athlete is banned from
+ * their team's next fixtures. Bans are served one after another, in fixtures
+ * after the one they were incurred in; cancelled and postponed fixtures do not
+ * count. A ban is served once those fixtures have been played. Two yellow
+ * cards in one match and the red card that follows are one sending-off.
+ */
+export async function buildDisciplineRegister(filter: DisciplineFilter): Promise<DisciplineRecord[]> {
+  const events = await prisma.matchEvent.findMany({
+    where: {
+      athleteId: filter.athleteIds ? { in: filter.athleteIds } : { not: null },
+      type: { in: disciplinaryEvents },
+      fixture: { tournamentId: filter.tournamentId, sportId: filter.sportId },
+    },
+    include: disciplineEventInclude,
+  });
+  events.sort(
+    (a, b) =>
+      eventTime(a) - eventTime(b) ||
+      (a.period ?? 0) - (b.period ?? 0) ||
+      (a.minute ?? 0) - (b.minute ?? 0) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+
+  const records = new Map<string, DisciplineRecord>();
+  for (const { event, type } of countedSanctions(events)) {
+    const teamId = event.side === TeamSide.HOME ? event.fixture.homeTeamId : event.fixture.awayTeamId;
+    if (!event.athlete || !teamId) {
+      continue;
+    }
+    const key = `${event.athlete.id}:${event.fixture.sportId}`;
+    const record = records.get(key) ?? {
+      athlete: event.athlete,
+      sportId: event.fixture.sportId,
+      teamId,
+      sanctions: {},
+      suspensions: [],
+    };
+    records.set(key, record);
+
+    const count = (record.sanctions[type] ?? 0) + 1;
+    record.sanctions[type] = count;
+    const rule = rulesFor(event.fixture.sport).find((rule) => rule.eventType === type);
+    if (rule && rule.count > 0 && count % rule.count === 0) {
+      const label = eventLabels[type] ?? type;
+      record.suspensions.push({
+        athleteId: event.athlete.id,
+        teamId,
+        sportId: event.fixture.sportId,
+        reason: rule.count === 1 ? `A ${label}` : `${count} ${label}s`,
+        eventId: event.id,
+        fixtureId: event.fixtureId,
+        matchesBanned: rule.matchesBanned,
+        fixtureIds: [],
+        served: 0,
+        remaining: rule.matchesBanned,
+      });
+    }
+  }
+
+  const teamIds = [...new Set([...records.values()].flatMap((record) => record.suspensions.map((ban) => ban.teamId)))];
+  const fixtures = teamIds.length
+    ? await prisma.fixture.findMany({
+        where: {
+          tournamentId: filter.tournamentId,
+          OR: [{ homeTeamId: { in: teamIds } }, { awayTeamId: { in: teamIds } }],
+        },
+        include: { result: true },
+      })
+    : [];
+  fixtures.sort(byPlayingOrder);
+
+  for (const record of records.values()) {
+    // Bans run back to back, so the next one starts where the last one ended
+    let next = 0;
+    for (const ban of record.suspensions) {
+      const teamFixtures = fixtures.filter((fixture) => {
+        const status = fixture.result?.status;
+        return (
+          (fixture.homeTeamId === ban.teamId || fixture.awayTeamId === ban.teamId) &&
+          status !== GameStatus.CANCELLED &&
+          status !== GameStatus.POSTPONED
+        );
+      });
+      const incurredIn = teamFixtures.findIndex((fixture) => fixture.id === ban.fixtureId);
+      const start = Math.max(next, incurredIn + 1);
+      const covered = teamFixtures.slice(start, start + ban.matchesBanned);
+      next = start + ban.matchesBanned;
+
+      ban.fixtureIds = covered.map((fixture) => fixture.id);
+      ban.served = covered.filter((fixture) => fixture.result?.status === GameStatus.FINISHED).length;
+      ban.remaining = ban.matchesBanned - ban.served;
+    }
+  }
+
+  return [...records.values()].filter((record) => !filter.teamId || record.teamId === filter.teamId);
+}
+
+// The suspensions that keep athletes out of a fixture, by athlete
+export async function findFixtureSuspensions(
+  fixture: { id: string; tournamentId: string | null; sportId: string },
+  athleteIds?: string[]
+): Promise<Map<string, Suspension>> {
+  const register = await buildDisciplineRegister({ tournamentId: fixture.tournamentId, sportId: fixture.sportId, athleteIds });
+  const suspended = new Map<string, Suspension>();
+  for (const record of register) {
+    const ban = record.suspensions.find((suspension) => suspension.fixtureIds.includes(fixture.id));
+    if (ban) {
+      suspended.set(record.athlete.id, ban);
+    }
+  }
+  return suspended;
+}
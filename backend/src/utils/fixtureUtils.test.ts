@@ -0,0 +1,27 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { isDuringTournament, tournamentSpan } from './fixtureUtils';
+
+describe('tournament dates', () => {
+  const tournament = { startDate: new Date('2024-12-14'), endDate: new Date('2024-12-20') };
+
+  beforeEach(() => {
+    process.env.TIME_ZONE = 'Africa/Nairobi';
+  });
+
+  afterEach(() => {
+    delete process.env.TIME_ZONE;
+  });
+
+  it('runs from the start of the first day to the end of the last', () => {
+    const { start, end } = tournamentSpan(tournament);
+    expect(start.toISOString()).toBe('2024-12-13T21:00:00.000Z');
+    expect(end.toISOString()).toBe('2024-12-20T21:00:00.000Z');
+  });
+
+  it('includes kickoffs on the last day', () => {
+    expect(isDuringTournament(tournament, new Date('2024-12-20T15:00:00+03:00'))).toBe(true);
+    expect(isDuringTournament(tournament, new Date('2024-12-20T23:59:00+03:00'))).toBe(true);
+    expect(isDuringTournament(tournament, new Date('2024-12-21T00:00:00+03:00'))).toBe(false);
+    expect(isDuringTournament(tournament, new Date('2024-12-13T23:59:00+03:00'))).toBe(false);
+  });
+});
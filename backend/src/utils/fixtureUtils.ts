@@ -0,0 +1,90 @@
+import { Gender, Tournament } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { venueAvailabilityInclude, venueSupportsSport } from './venueUtils';
+import { fromWallClock } from './timeUtils';
+
+export interface FixtureInput {
+  tournamentId: string;
+  sportId: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  date: Date;
+  venueId: string | null;
+  // Free-text venue for grounds that are not managed as venues
+  venueName: string | null;
+  gender: Gender;
+}
+
+/**
+ * When a tournament runs. Its dates are whole days, stored as midnight UTC,
+ * so it lasts from the start of its first day until the end of its last day
+ * in the app's time zone; `end` is the moment after.
+ */
+export function tournamentSpan(tournament: Pick<Tournament, 'startDate' | 'endDate'>): { start: Date; end: Date } {
+  const day = (date: Date, after: number) =>
+    fromWallClock({ year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() + after, minutes: 0 });
+  return { start: day(tournament.startDate, 0), end: day(tournament.endDate, 1) };
+}
+
+// Whether a kickoff falls on one of the tournament's days
+export function isDuringTournament(tournament: Pick<Tournament, 'startDate' | 'endDate'>, date: Date): boolean {
+  const { start, end } = tournamentSpan(tournament);
+  return date >= start && date < end;
+}
+
+/**
+ * Checks that the fixture falls within its tournament, that its venue exists
+ * and hosts the sport, and that both teams exist, differ, play the fixture's
+ * sport and gender category and belong to participating universities. Returns
+ * an error message, or null when valid.
+ */
+export async function validateFixture(input: FixtureInput): Promise<string | null> {
+  const { tournamentId, sportId, gender, homeTeamId, awayTeamId, date, venueId } = input;
+  if (!tournamentId) {
+    return 'tournamentId is required';
+  }
+  if (!homeTeamId || !awayTeamId) {
+    return 'homeTeamId and awayTeamId are required';
+  }
+  if (homeTeamId === awayTeamId) {
+    return 'A team cannot play against itself';
+  }
+  if (isNaN(date.getTime())) {
+    return 'A valid date is required';
+  }
+
+  const tournament = await prisma.tournament.findUnique({
+    where: { id: tournamentId },
+    include: { participants: { select: { id: true } } },
+  });
+  if (!tournament) {
+    return 'Tournament not found';
+  }
+  if (!isDuringTournament(tournament, date)) {
+    return 'The fixture date must fall within the tournament dates';
+  }
+
+  if (venueId) {
+    const venue = await prisma.venue.findUnique({ where: { id: venueId }, include: venueAvailabilityInclude });
+    if (!venue) {
+      return 'Venue not found';
+    }
+    if (!venueSupportsSport(venue, sportId)) {
+      return `${venue.name} does not host this sport`;
+    }
+  }
+
+  const teams = await prisma.team.findMany({ where: { id: { in: [homeTeamId, awayTeamId] } } });
+  if (teams.length !== 2) {
+    return 'Team not found';
+  }
+  if (teams.some((team) => team.sportId !== sportId || team.gender !== gender)) {
+    return 'Both teams must play the fixture\'s sport and gender category';
+  }
+
+  const participantIds = new Set(tournament.participants.map((university) => university.id));
+  if (teams.some((team) => !participantIds.has(team.universityId))) {
+    return 'Both teams must belong to universities participating in the tournament';
+  }
+  return null;
+}
@@ -0,0 +1,375 @@
+import { Gender, Prisma, Sport, Tournament } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { buildUniversityIndex, findUniversities, normalize } from './universityUtils';
+import { WorkbookIssue, WorkbookSheet } from './workbookUtils';
+import { isDuringTournament } from './fixtureUtils';
+
+type ChangeAction = 'create' | 'update' | 'unchanged';
+
+interface PlannedTeam {
+  id: string | null;
+  name: string;
+  universityId: string;
+  sportId: string;
+  gender: Gender;
+}
+
+interface PlannedGroup {
+  id: string | null;
+  name: string;
+  sportId: string;
+  gender: Gender;
+  // Keys of teams to add; existing members are never removed
+  addTeams: string[];
+}
+
+interface PlannedVenue {
+  id: string | null;
+  name: string;
+}
+
+interface PlannedFixture {
+  id: string | null;
+  action: ChangeAction;
+  sheet: string;
+  row: number;
+  sportId: string;
+  gender: Gender;
+  groupKey: string | null;
+  homeKey: string;
+  awayKey: string;
+  date: Date;
+  venueKey: string;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface ImportPlan {
+  tournamentId: string;
+  sports: Map<string, Sport>;
+  teams: Map<string, PlannedTeam>;
+  groups: Map<string, PlannedGroup>;
+  venues: Map<string, PlannedVenue>;
+  fixtures: PlannedFixture[];
+  errors: WorkbookIssue[];
+}
+
+const teamKey = (universityId: string, sportId: string, gender: Gender) => `${universityId}:${sportId}:${gender}`;
+const groupKey = (sportId: string, gender: Gender, name: string) => `${sportId}:${gender}:${name.toUpperCase()}`;
+
+function findSport(sports: Sport[], name: string): Sport[] {
+  const matches = sports.filter((sport) => normalize(sport.name) === normalize(name));
+  // Prefer the shared sport over a university's own sport of the same name
+  const shared = matches.filter((sport) => !sport.universityId);
+  return shared.length ? shared : matches;
+}
+
+/**
+ * Works out what importing the parsed sheets into a tournament would change:
+ * the teams, groups and venues to create, group members to add, and fixtures
+ * to create or update. Fixtures are matched to existing ones by sport, gender
+ * category and home and away team, and venues by name. Nothing is written; problems are collected
+ * as errors so the whole workbook can be reviewed in one dry run.
+ */
+export async function planImport(tournament: Tournament, sheets: WorkbookSheet[]): Promise<ImportPlan> {
+  const [sports, index, participants, teams, groups, venues, fixtures] = await Promise.all([
+    prisma.sport.findMany(),
+    buildUniversityIndex(),
+    prisma.university.findMany({ where: { tournaments: { some: { id: tournament.id } } }, select: { id: true } }),
+    prisma.team.findMany(),
+    prisma.group.findMany({ where: { tournamentId: tournament.id }, include: { teams: { select: { id: true } } } }),
+    prisma.venue.findMany(),
+    prisma.fixture.findMany({ where: { tournamentId: tournament.id }, include: { venue: true } }),
+  ]);
+
+  const participantIds = new Set(participants.map((university) => university.id));
+  const plan: ImportPlan = {
+    tournamentId: tournament.id,
+    sports: new Map(),
+    teams: new Map(teams.map((team) => [teamKey(team.universityId, team.sportId, team.gender), team])),
+    groups: new Map(
+      groups.map((group) => [groupKey(group.sportId, group.gender, group.name), { ...group, addTeams: [] }])
+    ),
+    venues: new Map(),
+    fixtures: [],
+    errors: [],
+  };
+
+  const venuesByName = new Map<string, PlannedVenue[]>();
+  for (const venue of venues) {
+    venuesByName.set(normalize(venue.name), [...(venuesByName.get(normalize(venue.name)) ?? []), venue]);
+  }
+
+  // Group each existing team belongs to, to catch teams drawn into two groups
+  const groupOfTeam = new Map<string, string>();
+  for (const group of groups) {
+    for (const team of group.teams) {
+      groupOfTeam.set(team.id, groupKey(group.sportId, group.gender, group.name));
+    }
+  }
+
+  const existingFixtures = new Map(
+    fixtures
+      .filter((fixture) => fixture.homeTeamId && fixture.awayTeamId)
+      .map((fixture) => [`${fixture.sportId}:${fixture.gender}:${fixture.homeTeamId}:${fixture.awayTeamId}`, fixture])
+  );
+
+  for (const sheet of sheets) {
+    if (!sheet.sport || !sheet.gender) {
+      continue;
+    }
+    const fail = (message: string, row?: number) => plan.errors.push({ sheet: sheet.name, row, message });
+
+    const sportMatches = findSport(sports, sheet.sport);
+    if (sportMatches.length !== 1) {
+      fail(sportMatches.length ? `Sport "${sheet.sport}" is ambiguous` : `Sport "${sheet.sport}" not found`);
+      continue;
+    }
+    const sport = sportMatches[0];
+    const gender = sheet.gender;
+    plan.sports.set(sport.id, sport);
+
+    // Each unknown name is reported once per sheet, at its first row
+    const unresolved = new Set<string>();
+    const resolveTeam = (name: string, row?: number): string | null => {
+      if (unresolved.has(name)) {
+        return null;
+      }
+      const universities = findUniversities(index, name);
+      const university = universities.length === 1 ? universities[0] : null;
+      if (!university || !participantIds.has(university.id)) {
+        unresolved.add(name);
+        if (university) {
+          fail(`${university.name} does not take part in this tournament`, row);
+        } else {
+          fail(universities.length ? `"${name}" matches more than one university` : `University "${name}" not found`, row);
+        }
+        return null;
+      }
+      const key = teamKey(university.id, sport.id, gender);
+      if (!plan.teams.has(key)) {
+        plan.teams.set(key, { id: null, name: university.name, universityId: university.id, sportId: sport.id, gender });
+      }
+      return key;
+    };
+
+    for (const group of sheet.groups) {
+      if (!group.name) {
+        continue;
+      }
+      const key = groupKey(sport.id, gender, group.name);
+      const planned = plan.groups.get(key) ?? { id: null, name: group.name, sportId: sport.id, gender, addTeams: [] };
+      plan.groups.set(key, planned);
+
+      for (const name of group.teams) {
+        const team = resolveTeam(name);
+        if (!team) {
+          continue;
+        }
+        const id = plan.teams.get(team)!.id ?? team;
+        const current = groupOfTeam.get(id);
+        if (current && current !== key) {
+          fail(`${name} is already in another group`);
+        } else if (!current) {
+          groupOfTeam.set(id, key);
+          planned.addTeams.push(team);
+        }
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const fixture of sheet.fixtures) {
+      const homeKey = resolveTeam(fixture.home, fixture.row);
+      const awayKey = resolveTeam(fixture.away, fixture.row);
+      if (!homeKey || !awayKey || !fixture.kickoff || !fixture.venue) {
+        continue;
+      }
+
+      // Venues missing from the database are created by the import
+      const venueKey = normalize(fixture.venue);
+      const venueMatches = venuesByName.get(venueKey) ?? [];
+      if (venueMatches.length > 1) {
+        fail(`Venue "${fixture.venue}" matches more than one venue`, fixture.row);
+        continue;
+      }
+      if (!plan.venues.has(venueKey)) {
+        plan.venues.set(venueKey, venueMatches[0] ?? { id: null, name: fixture.venue });
+      }
+
+      if (homeKey === awayKey) {
+        fail('A team cannot play against itself', fixture.row);
+        continue;
+      }
+      if (!isDuringTournament(tournament, fixture.kickoff)) {
+        fail('The fixture date must fall within the tournament dates', fixture.row);
+        continue;
+      }
+      if (seen.has(`${homeKey}:${awayKey}`)) {
+        fail(`${fixture.home} v ${fixture.away} is listed twice`, fixture.row);
+        continue;
+      }
+      seen.add(`${homeKey}:${awayKey}`);
+
+      const home = plan.teams.get(homeKey)!;
+      const away = plan.teams.get(awayKey)!;
+      const planned: PlannedFixture = {
+        id: null,
+        action: 'create',
+        sheet: sheet.name,
+        row: fixture.row,
+        sportId: sport.id,
+        gender,
+        groupKey: fixture.group ? groupKey(sport.id, gender, fixture.group) : null,
+        homeKey,
+        awayKey,
+        date: fixture.kickoff,
+        venueKey,
+      };
+
+      const existing =
+        home.id && away.id ? existingFixtures.get(`${sport.id}:${gender}:${home.id}:${away.id}`) : undefined;
+      if (existing) {
+        const groupId = planned.groupKey ? plan.groups.get(planned.groupKey)?.id ?? null : null;
+        const changes: PlannedFixture['changes'] = {};
+        if (existing.date?.getTime() !== planned.date.getTime()) {
+          changes.date = { from: existing.date, to: planned.date };
+        }
+        const venue = plan.venues.get(venueKey)!;
+        if (!venue.id || existing.venueId !== venue.id) {
+          changes.venue = { from: existing.venue?.name ?? existing.venueName, to: venue.name };
+        }
+        if (existing.groupId !== groupId) {
+          changes.group = { from: existing.groupId, to: fixture.group };
+        }
+        planned.id = existing.id;
+        planned.action = Object.keys(changes).length ? 'update' : 'unchanged';
+        planned.changes = Object.keys(changes).length ? changes : undefined;
+      }
+      plan.fixtures.push(planned);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Summarises a plan as the diff shown for a dry run, with teams, groups and
+ * sports by name rather than by ID.
+ */
+export function describeImport(plan: ImportPlan) {
+  const teamName = (key: string) => plan.teams.get(key)!.name;
+  const sportName = (sportId: string) => plan.sports.get(sportId)?.name;
+
+  const venues = [...plan.venues.values()]
+    .filter((venue) => !venue.id)
+    .map((venue) => ({ action: 'create', name: venue.name }));
+
+  const teams = [...plan.teams.values()]
+    .filter((team) => !team.id)
+    .map((team) => ({ action: 'create', name: team.name, sport: sportName(team.sportId), gender: team.gender }));
+
+  const groups = [...plan.groups.values()]
+    .filter((group) => !group.id || group.addTeams.length)
+    .map((group) => ({
+      action: group.id ? 'update' : 'create',
+      name: group.name,
+      sport: sportName(group.sportId),
+      gender: group.gender,
+      addTeams: group.addTeams.map(teamName),
+    }));
+
+  const fixtures = plan.fixtures.map((fixture) => ({
+    action: fixture.action,
+    sheet: fixture.sheet,
+    row: fixture.row,
+    sport: sportName(fixture.sportId),
+    gender: fixture.gender,
+    group: fixture.groupKey ? plan.groups.get(fixture.groupKey)?.name ?? null : null,
+    home: teamName(fixture.homeKey),
+    away: teamName(fixture.awayKey),
+    date: fixture.date,
+    venue: plan.venues.get(fixture.venueKey)!.name,
+    changes: fixture.changes,
+  }));
+
+  const count = (action: ChangeAction) => fixtures.filter((fixture) => fixture.action === action).length;
+  return {
+    summary: {
+      teamsToCreate: teams.length,
+      venuesToCreate: venues.length,
+      groupsToCreate: groups.filter((group) => group.action === 'create').length,
+      groupsToUpdate: groups.filter((group) => group.action === 'update').length,
+      fixturesToCreate: count('create'),
+      fixturesToUpdate: count('update'),
+      fixturesUnchanged: count('unchanged'),
+    },
+    changes: { teams, groups, venues, fixtures },
+  };
+}
+
+/**
+ * Applies a plan in a single transaction, so a failure part-way through
+ * leaves the tournament exactly as it was.
+ */
+export async function commitImport(plan: ImportPlan): Promise<void> {
+  await prisma.$transaction(
+    async (tx) => {
+      const teamIds = new Map<string, string>();
+      for (const [key, team] of plan.teams) {
+        if (team.id) {
+          teamIds.set(key, team.id);
+          continue;
+        }
+        const { id, ...data } = team;
+        const created = await tx.team.create({ data });
+        teamIds.set(key, created.id);
+      }
+
+      const venueIds = new Map<string, string>();
+      for (const [key, venue] of plan.venues) {
+        venueIds.set(key, venue.id ?? (await tx.venue.create({ data: { name: venue.name } })).id);
+      }
+
+      const groupIds = new Map<string, string>();
+      for (const [key, group] of plan.groups) {
+        const connect = group.addTeams.map((team) => ({ id: teamIds.get(team)! }));
+        if (group.id) {
+          if (connect.length) {
+            await tx.group.update({ where: { id: group.id }, data: { teams: { connect } } });
+          }
+          groupIds.set(key, group.id);
+          continue;
+        }
+        const created = await tx.group.create({
+          data: {
+            name: group.name,
+            tournamentId: plan.tournamentId,
+            sportId: group.sportId,
+            gender: group.gender,
+            teams: { connect },
+          },
+        });
+        groupIds.set(key, created.id);
+      }
+
+      for (const fixture of plan.fixtures) {
+        const data: Prisma.FixtureUncheckedCreateInput = {
+          tournamentId: plan.tournamentId,
+          sportId: fixture.sportId,
+          gender: fixture.gender,
+          groupId: fixture.groupKey ? groupIds.get(fixture.groupKey) ?? null : null,
+          homeTeamId: teamIds.get(fixture.homeKey)!,
+          awayTeamId: teamIds.get(fixture.awayKey)!,
+          date: fixture.date,
+          venueId: venueIds.get(fixture.venueKey)!,
+        };
+        if (fixture.action === 'create') {
+          await tx.fixture.create({ data });
+        } else if (fixture.action === 'update') {
+          await tx.fixture.update({ where: { id: fixture.id! }, data });
+        }
+      }
+    },
+    // Large workbooks issue hundreds of writes
+    { timeout: 60000 }
+  );
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../lib/prisma';
+import { awardMedals, getMedalTable } from './medalUtils';
+
+vi.mock('../lib/prisma', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    bracketMatch: { findUnique: vi.fn() },
+    medal: { findMany: vi.fn(), deleteMany: vi.fn(), createMany: vi.fn() },
+    university: { findMany: vi.fn() },
+  },
+}));
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+const home = { id: 'home', universityId: 'uon' };
+const away = { id: 'away', universityId: 'ku' };
+
+const match = (stage: string, stages: string[], homeScore: number, awayScore: number) => ({
+  stage,
+  bracket: { tournamentId: 't1', sportId: 's1', gender: 'MALE', matches: stages.map((other) => ({ stage: other })) },
+  fixture: {
+    homeTeamId: home.id,
+    awayTeamId: away.id,
+    homeTeam: home,
+    awayTeam: away,
+    result: { status: 'FINISHED', homeScore, awayScore, homePenalties: null, awayPenalties: null },
+  },
+});
+
+describe('awardMedals', () => {
+  it('awards gold and silver from the final', async () => {
+    vi.mocked(prisma.bracketMatch.findUnique).mockResolvedValueOnce(match('FINAL', ['SEMI_FINAL', 'FINAL'], 1, 2) as never);
+    vi.mocked(prisma.medal.findMany).mockResolvedValueOnce([]);
+
+    await expect(awardMedals('f1')).resolves.toBe('t1');
+    expect(prisma.medal.createMany).toHaveBeenCalledWith({
+      data: [
+        { teamId: 'away', universityId: 'ku', type: 'GOLD', tournamentId: 't1', sportId: 's1', gender: 'MALE', fixtureId: 'f1' },
+        { teamId: 'home', universityId: 'uon', type: 'SILVER', tournamentId: 't1', sportId: 's1', gender: 'MALE', fixtureId: 'f1' },
+      ],
+    });
+  });
+
+  it('gives bronze to a losing semi-finalist only without a third-place match', async () => {
+    vi.mocked(prisma.bracketMatch.findUnique).mockResolvedValueOnce(match('SEMI_FINAL', ['SEMI_FINAL', 'FINAL'], 3, 0) as never);
+    vi.mocked(prisma.medal.findMany).mockResolvedValueOnce([]);
+    await awardMedals('f1');
+    expect(prisma.medal.createMany).toHaveBeenCalledWith({ data: [expect.objectContaining({ teamId: 'away', type: 'BRONZE' })] });
+
+    vi.mocked(prisma.bracketMatch.findUnique).mockResolvedValueOnce(
+      match('SEMI_FINAL', ['SEMI_FINAL', 'THIRD_PLACE', 'FINAL'], 3, 0) as never
+    );
+    vi.mocked(prisma.medal.findMany).mockResolvedValueOnce([{ teamId: 'away', type: 'BRONZE' }] as never);
+    await expect(awardMedals('f1')).resolves.toBe('t1');
+    expect(prisma.medal.createMany).toHaveBeenLastCalledWith({ data: [] });
+  });
+
+  it('leaves medals alone when the result awards the same ones', async () => {
+    vi.mocked(prisma.bracketMatch.findUnique).mockResolvedValueOnce(match('FINAL', ['FINAL'], 2, 0) as never);
+    vi.mocked(prisma.medal.findMany).mockResolvedValueOnce([
+      { teamId: 'home', type: 'GOLD' },
+      { teamId: 'away', type: 'SILVER' },
+    ] as never);
+
+    await expect(awardMedals('f1')).resolves.toBeNull();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('getMedalTable', () => {
+  const universities = ['Egerton', 'Kenyatta', 'Nairobi', 'Strathmore'].map((name) => ({ id: name, name }));
+  const medal = (universityId: string, type: string, gender = 'MALE') => ({ universityId, type, gender });
+
+  beforeEach(() => {
+    vi.mocked(prisma.university.findMany).mockResolvedValue(universities as never);
+    vi.mocked(prisma.medal.findMany).mockResolvedValue([
+      medal('Nairobi', 'GOLD'),
+      medal('Kenyatta', 'SILVER', 'FEMALE'),
+      medal('Kenyatta', 'BRONZE'),
+      medal('Kenyatta', 'BRONZE', 'FEMALE'),
+      medal('Strathmore', 'GOLD', 'FEMALE'),
+    ] as never);
+  });
+
+  it('orders by golds first and shares ranks between level universities', async () => {
+    const { table } = await getMedalTable('t1');
+    expect(table.map((row) => [row.rank, row.university.name, row.total])).toEqual([
+      [1, 'Nairobi', 1],
+      [1, 'Strathmore', 1],
+      [3, 'Kenyatta', 3],
+      [4, 'Egerton', 0],
+    ]);
+    expect(table[2].byGender.FEMALE).toEqual({ gold: 0, silver: 1, bronze: 1, total: 2 });
+  });
+
+  it('orders by total medals when asked', async () => {
+    const { table } = await getMedalTable('t1', null, 'total');
+    expect(table.map((row) => [row.rank, row.university.name])).toEqual([
+      [1, 'Kenyatta'],
+      [2, 'Nairobi'],
+      [2, 'Strathmore'],
+      [4, 'Egerton'],
+    ]);
+  });
+});
@@ -0,0 +1,314 @@
+import { BracketStage, EntryStatus, GameStatus, Gender, HeatStage, MedalType, Prisma, University } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getMatchOutcome } from './bracketUtils';
+
+export type MedalSort = 'gold' | 'total';
+
+export interface MedalCount {
+  gold: number;
+  silver: number;
+  bronze: number;
+  total: number;
+}
+
+export interface MedalTableRow extends MedalCount {
+  rank: number;
+  university: University;
+  byGender: Record<Gender, MedalCount>;
+}
+
+export interface MedalTable {
+  tournamentId: string;
+  gender: Gender | null;
+  sortBy: MedalSort;
+  table: MedalTableRow[];
+}
+
+export interface Placing {
+  sportId: string;
+  sport: string;
+  gender: Gender;
+  // Set for individual competitions, e.g. "100m"
+  competition: string | null;
+  // A team's placing in a bracket, or an athlete's in a competition final
+  teamId: string | null;
+  athleteId: string | null;
+  universityId: string;
+  placing: number;
+  points: number;
+}
+
+export interface ChampionshipRow {
+  rank: number;
+  university: University;
+  points: number;
+  placings: Placing[];
+}
+
+export interface ChampionshipTable {
+  tournamentId: string;
+  gender: Gender | null;
+  placingPoints: number[];
+  table: ChampionshipRow[];
+}
+
+const medalCounts: Record<MedalType, keyof MedalCount> = { GOLD: 'gold', SILVER: 'silver', BRONZE: 'bronze' };
+
+// Where the losers of each stage finish; finalists, and semi-finalists with a
+// third-place match, are placed by their last match
+const eliminatedPlacing: Partial<Record<BracketStage, number>> = {
+  SEMI_FINAL: 3,
+  QUARTER_FINAL: 5,
+  ROUND_OF_16: 9,
+  ROUND_OF_32: 17,
+};
+
+const bracketMatchInclude = {
+  bracket: { include: { sport: true, matches: { select: { stage: true } } } },
+  fixture: { include: { result: true, homeTeam: true, awayTeam: true } },
+} satisfies Prisma.BracketMatchInclude;
+
+type DecidingMatch = Prisma.BracketMatchGetPayload<{ include: typeof bracketMatchInclude }>;
+
+const finalHeatInclude = {
+  competition: { include: { sport: true } },
+  entries: { include: { athlete: { include: { user: { select: { gender: true, universityId: true } } } } } },
+} satisfies Prisma.HeatInclude;
+
+type FinalHeat = Prisma.HeatGetPayload<{ include: typeof finalHeatInclude }>;
+
+const emptyCount = (): MedalCount => ({ gold: 0, silver: 0, bronze: 0, total: 0 });
+
+/**
+ * Places the winner and loser of a decided knockout match: the final decides
+ * 1st and 2nd and the third-place match 3rd and 4th. Other losers share the
+ * placing of their stage, e.g. joint 5th for quarter-finalists; without a
+ * third-place match both losing semi-finalists are 3rd.
+ */
+function placeMatch(match: DecidingMatch): { teamId: string; placing: number }[] {
+  const result = match.fixture.result;
+  const outcome = result && getMatchOutcome(match.fixture, result);
+  if (!outcome) {
+    return [];
+  }
+  const hasThirdPlace = match.bracket.matches.some((other) => other.stage === BracketStage.THIRD_PLACE);
+  switch (match.stage) {
+    case BracketStage.FINAL:
+      return [{ teamId: outcome.winnerTeamId, placing: 1 }, { teamId: outcome.loserTeamId, placing: 2 }];
+    case BracketStage.THIRD_PLACE:
+      return [{ teamId: outcome.winnerTeamId, placing: 3 }, { teamId: outcome.loserTeamId, placing: 4 }];
+    case BracketStage.SEMI_FINAL:
+      return hasThirdPlace ? [] : [{ teamId: outcome.loserTeamId, placing: 3 }];
+    default:
+      return [{ teamId: outcome.loserTeamId, placing: eliminatedPlacing[match.stage]! }];
+  }
+}
+
+/**
+ * Places the athletes of a finished final by their rank in it; athletes who
+ * share a rank share the placing. Athletes without a university are left out.
+ */
+function placeFinal(heat: FinalHeat): { athleteId: string; universityId: string; placing: number }[] {
+  if (heat.stage !== HeatStage.FINAL || heat.status !== GameStatus.FINISHED) {
+    return [];
+  }
+  return heat.entries.flatMap((entry) => {
+    const universityId = entry.athlete.user.universityId;
+    return entry.status === EntryStatus.OK && entry.rank !== null && universityId
+      ? [{ athleteId: entry.athleteId, universityId, placing: entry.rank }]
+      : [];
+  });
+}
+
+const placingMedals: Record<number, MedalType> = { 1: MedalType.GOLD, 2: MedalType.SILVER, 3: MedalType.BRONZE };
+
+/**
+ * Awards the medals a knockout match decides, replacing any it awarded before
+ * so a corrected or reopened result takes them back. Returns the tournament
+ * ID when the medals changed.
+ */
+export async function awardMedals(fixtureId: string): Promise<string | null> {
+  const match = await prisma.bracketMatch.findUnique({ where: { fixtureId }, include: bracketMatchInclude });
+  if (!match) {
+    return null;
+  }
+
+  const teams = [match.fixture.homeTeam, match.fixture.awayTeam];
+  const medals = placeMatch(match).flatMap(({ teamId, placing }) => {
+    const team = teams.find((team) => team?.id === teamId);
+    const type = placingMedals[placing];
+    return team && type ? [{ teamId, universityId: team.universityId, type }] : [];
+  });
+
+  const current = await prisma.medal.findMany({ where: { fixtureId } });
+  const unchanged =
+    current.length === medals.length &&
+    medals.every((medal) => current.some((held) => held.teamId === medal.teamId && held.type === medal.type));
+  if (unchanged) {
+    return null;
+  }
+
+  const { tournamentId, sportId, gender } = match.bracket;
+  await prisma.$transaction([
+    prisma.medal.deleteMany({ where: { fixtureId } }),
+    prisma.medal.createMany({
+      data: medals.map((medal) => ({ ...medal, tournamentId, sportId, gender, fixtureId })),
+    }),
+  ]);
+  return tournamentId;
+}
+
+/**
+ * Awards the medals of a competition final to its top three, replacing any
+ * awarded before, the same way as for knockout matches. Athletes sharing a
+ * place share its medal. Returns the tournament ID when the medals changed.
+ */
+export async function awardHeatMedals(heatId: string): Promise<string | null> {
+  const heat = await prisma.heat.findUnique({ where: { id: heatId }, include: finalHeatInclude });
+  const tournamentId = heat?.competition.tournamentId;
+  if (!heat || !tournamentId) {
+    return null;
+  }
+
+  const medals = placeFinal(heat).flatMap(({ athleteId, universityId, placing }) => {
+    const type = placingMedals[placing];
+    return type ? [{ athleteId, universityId, type }] : [];
+  });
+
+  const current = await prisma.medal.findMany({ where: { heatId } });
+  const unchanged =
+    current.length === medals.length &&
+    medals.every((medal) => current.some((held) => held.athleteId === medal.athleteId && held.type === medal.type));
+  if (unchanged) {
+    return null;
+  }
+
+  const { sportId, gender } = heat.competition;
+  await prisma.$transaction([
+    prisma.medal.deleteMany({ where: { heatId } }),
+    prisma.medal.createMany({
+      data: medals.map((medal) => ({ ...medal, tournamentId, sportId, gender, heatId })),
+    }),
+  ]);
+  return tournamentId;
+}
+
+// Universities with equal keys share a rank, e.g. 1, 2, 2, 4
+function rankRows<T extends { rank: number }>(rows: T[], compare: (a: T, b: T) => number) {
+  rows.forEach((row, index) => {
+    row.rank = index > 0 && compare(rows[index - 1], row) === 0 ? rows[index - 1].rank : index + 1;
+  });
+}
+
+async function tournamentUniversities(tournamentId: string, universityIds: string[]): Promise<University[]> {
+  return prisma.university.findMany({
+    where: { OR: [{ tournaments: { some: { id: tournamentId } } }, { id: { in: universityIds } }] },
+  });
+}
+
+/**
+ * Counts each university's medals in a tournament, listing every participant
+ * even without a medal. `gold` orders by golds, then silvers, then bronzes;
+ * `total` by the total first. Universities level on all counts share a rank.
+ */
+export async function getMedalTable(tournamentId: string, gender: Gender | null = null, sortBy: MedalSort = 'gold'): Promise<MedalTable> {
+  const medals = await prisma.medal.findMany({ where: { tournamentId, gender: gender ?? undefined } });
+  const universities = await tournamentUniversities(tournamentId, medals.map((medal) => medal.universityId));
+
+  const rows = new Map<string, MedalTableRow>(
+    universities.map((university) => [
+      university.id,
+      {
+        rank: 0,
+        university,
+        ...emptyCount(),
+        byGender: { MALE: emptyCount(), FEMALE: emptyCount(), OTHER: emptyCount() },
+      },
+    ])
+  );
+  for (const medal of medals) {
+    const row = rows.get(medal.universityId)!;
+    const key = medalCounts[medal.type];
+    for (const count of [row, row.byGender[medal.gender]]) {
+      count[key]++;
+      count.total++;
+    }
+  }
+
+  const byColour = (a: MedalCount, b: MedalCount) => b.gold - a.gold || b.silver - a.silver || b.bronze - a.bronze;
+  const compare = sortBy === 'total' ? (a: MedalCount, b: MedalCount) => b.total - a.total || byColour(a, b) : byColour;
+  const table = [...rows.values()].sort((a, b) => compare(a, b) || a.university.name.localeCompare(b.university.name));
+  rankRows(table, compare);
+  return { tournamentId, gender, sortBy, table };
+}
+
+/**
+ * Scores each university by where its teams finished in every knockout
+ * bracket of the tournament and its athletes in every competition final,
+ * using the tournament's points per placing unless others are given. Teams
+ * and athletes sharing a placing each score its points.
+ */
+export async function getChampionshipTable(
+  tournament: { id: string; placingPoints: number[] },
+  gender: Gender | null = null,
+  placingPoints: number[] = tournament.placingPoints
+): Promise<ChampionshipTable> {
+  const matches = await prisma.bracketMatch.findMany({
+    where: { bracket: { tournamentId: tournament.id, gender: gender ?? undefined } },
+    include: bracketMatchInclude,
+  });
+
+  const placings = matches.flatMap((match) =>
+    placeMatch(match).flatMap(({ teamId, placing }): Placing[] => {
+      const team = [match.fixture.homeTeam, match.fixture.awayTeam].find((team) => team?.id === teamId);
+      if (!team) {
+        return [];
+      }
+      return [
+        {
+          sportId: match.bracket.sportId,
+          sport: match.bracket.sport.name,
+          gender: match.bracket.gender,
+          competition: null,
+          teamId,
+          athleteId: null,
+          universityId: team.universityId,
+          placing,
+          points: placingPoints[placing - 1] ?? 0,
+        },
+      ];
+    })
+  );
+  const finals = await prisma.heat.findMany({
+    where: { stage: HeatStage.FINAL, competition: { tournamentId: tournament.id, gender: gender ?? undefined } },
+    include: finalHeatInclude,
+  });
+  for (const heat of finals) {
+    for (const { athleteId, universityId, placing } of placeFinal(heat)) {
+      placings.push({
+        sportId: heat.competition.sportId,
+        sport: heat.competition.sport.name,
+        gender: heat.competition.gender,
+        competition: heat.competition.name,
+        teamId: null,
+        athleteId,
+        universityId,
+        placing,
+        points: placingPoints[placing - 1] ?? 0,
+      });
+    }
+  }
+  const universities = await tournamentUniversities(tournament.id, placings.map((placing) => placing.universityId));
+
+  const table: ChampionshipRow[] = universities.map((university) => {
+    const won = placings
+      .filter((placing) => placing.universityId === university.id)
+      .sort((a, b) => a.placing - b.placing || a.sport.localeCompare(b.sport));
+    return { rank: 0, university, points: won.reduce((sum, placing) => sum + placing.points, 0), placings: won };
+  });
+  const firsts = (row: ChampionshipRow) => row.placings.filter((placing) => placing.placing === 1).length;
+  const compare = (a: ChampionshipRow, b: ChampionshipRow) => b.points - a.points || firsts(b) - firsts(a);
+  table.sort((a, b) => compare(a, b) || a.university.name.localeCompare(b.university.name));
+  rankRows(table, compare);
+  return { tournamentId: tournament.id, gender, placingPoints, table };
+}
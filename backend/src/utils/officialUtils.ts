@@ -0,0 +1,65 @@
+import { OfficialRole, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { detectConflicts, isScheduled, scheduledFixtureInclude } from './scheduleUtils';
+
+export const officialRoles = Object.values(OfficialRole);
+
+export const officialInclude = {
+  university: true,
+  qualifications: { include: { sport: true } },
+};
+
+export const officialAssignmentInclude = {
+  official: { include: { university: true } },
+};
+
+type AssignableOfficial = Prisma.OfficialGetPayload<{ include: typeof officialInclude }>;
+
+type AssignedFixture = Prisma.FixtureGetPayload<{ include: typeof scheduledFixtureInclude }>;
+
+// Qualifications are given as sport IDs, or as { sportId, level }
+export function parseQualifications(value: unknown): { sportId: string; level?: string }[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const qualifications = value.map((item) => (typeof item === 'string' ? { sportId: item } : item));
+  if (qualifications.some((item) => typeof item?.sportId !== 'string')) {
+    return null;
+  }
+  return qualifications.map(({ sportId, level }) => ({ sportId, level }));
+}
+
+/**
+ * Checks that an official may take charge of a fixture: they must be
+ * qualified in its sport, must not be from either team's university, and must
+ * not already be officiating a match that overlaps it. Returns why they may
+ * not, or null.
+ */
+export async function checkOfficialAssignment(official: AssignableOfficial, fixture: AssignedFixture): Promise<string | null> {
+  if (!official.qualifications.some((qualification) => qualification.sportId === fixture.sportId)) {
+    return `${official.name} is not qualified to officiate ${fixture.sport.name}`;
+  }
+  const playing = [fixture.homeTeam, fixture.awayTeam].find((team) => team && team.universityId === official.universityId);
+  if (playing && official.university) {
+    return `${official.name} cannot officiate ${official.university.name}, who are playing as ${playing.name}`;
+  }
+  if (fixture.officials.some((assignment) => assignment.officialId === official.id)) {
+    return `${official.name} is already officiating this fixture`;
+  }
+  if (!isScheduled(fixture)) {
+    return null;
+  }
+
+  // Only fixtures within a day can overlap, as for schedule conflicts
+  const day = 24 * 60 * 60 * 1000;
+  const others = await prisma.fixture.findMany({
+    where: {
+      officials: { some: { officialId: official.id } },
+      date: { gte: new Date(fixture.date.getTime() - day), lte: new Date(fixture.date.getTime() + day) },
+    },
+    include: scheduledFixtureInclude,
+  });
+  const slot = { ...fixture, venueId: null, venueName: null, homeTeamId: null, awayTeamId: null, officialIds: [official.id] };
+  const [clash] = detectConflicts(slot, fixture.sport, others.filter(isScheduled));
+  return clash?.message ?? null;
+}
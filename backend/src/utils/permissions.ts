@@ -0,0 +1,145 @@
+import { Role } from '@prisma/client';
+import { AuthUser } from './authUtils';
+
+export type Permission =
+  | 'tournament:create'
+  | 'tournament:update'
+  | 'tournament:delete'
+  | 'group:create'
+  | 'group:update'
+  | 'group:delete'
+  | 'bracket:create'
+  | 'bracket:delete'
+  | 'venue:create'
+  | 'venue:update'
+  | 'venue:delete'
+  | 'university:create'
+  | 'university:update'
+  | 'university:delete'
+  | 'sport:create'
+  | 'sport:update'
+  | 'sport:delete'
+  | 'team:create'
+  | 'team:update'
+  | 'team:delete'
+  | 'athlete:create'
+  | 'athlete:update'
+  | 'athlete:delete'
+  | 'eligibility:submit'
+  | 'eligibility:review'
+  | 'official:create'
+  | 'official:update'
+  | 'official:delete'
+  | 'official:assign'
+  | 'competition:create'
+  | 'competition:update'
+  | 'competition:delete'
+  | 'fixture:create'
+  | 'fixture:update'
+  | 'fixture:delete'
+  | 'result:create'
+  | 'result:update'
+  | 'result:delete'
+  | 'user:create'
+  | 'user:update'
+  | 'user:delete';
+
+/**
+ * 'any' grants the permission on every resource, 'own' only on resources that
+ * belong to the user's university (or to the user themselves).
+ */
+export type PermissionScope = 'any' | 'own';
+
+export type PermissionSet = Partial<Record<Permission, PermissionScope>>;
+
+export interface ResourceOwner {
+  universityId?: string | null;
+  userId?: string | null;
+}
+
+const allPermissions: Permission[] = [
+  'tournament:create',
+  'tournament:update',
+  'tournament:delete',
+  'group:create',
+  'group:update',
+  'group:delete',
+  'bracket:create',
+  'bracket:delete',
+  'venue:create',
+  'venue:update',
+  'venue:delete',
+  'university:create',
+  'university:update',
+  'university:delete',
+  'sport:create',
+  'sport:update',
+  'sport:delete',
+  'team:create',
+  'team:update',
+  'team:delete',
+  'athlete:create',
+  'athlete:update',
+  'athlete:delete',
+  'eligibility:submit',
+  'eligibility:review',
+  'official:create',
+  'official:update',
+  'official:delete',
+  'official:assign',
+  'competition:create',
+  'competition:update',
+  'competition:delete',
+  'fixture:create',
+  'fixture:update',
+  'fixture:delete',
+  'result:create',
+  'result:update',
+  'result:delete',
+  'user:create',
+  'user:update',
+  'user:delete',
+];
+
+const rolePermissions: Record<Role, PermissionSet> = {
+  ADMIN: Object.fromEntries(allPermissions.map((permission) => [permission, 'any'])) as PermissionSet,
+  STAFF: {
+    'result:create': 'any',
+    'result:update': 'any',
+    'official:assign': 'any',
+    'user:update': 'own',
+  },
+  COACH: {
+    'university:update': 'own',
+    'sport:create': 'own',
+    'sport:update': 'own',
+    'sport:delete': 'own',
+    'team:create': 'own',
+    'team:update': 'own',
+    'team:delete': 'own',
+    'athlete:create': 'own',
+    'athlete:update': 'own',
+    'athlete:delete': 'own',
+    'eligibility:submit': 'own',
+    'user:update': 'own',
+  },
+  STUDENT: {
+    'eligibility:submit': 'own',
+    'user:update': 'own',
+  },
+};
+
+export function getPermissions(role: Role): PermissionSet {
+  return rolePermissions[role];
+}
+
+export function getPermissionScope(user: AuthUser, permission: Permission): PermissionScope | null {
+  return rolePermissions[user.role][permission] ?? null;
+}
+
+export function isResourceOwnedBy(user: AuthUser, owner: ResourceOwner): boolean {
+  if (owner.userId) {
+    return owner.userId === user.id;
+  }
+  return !!user.universityId && owner.universityId === user.universityId;
+}
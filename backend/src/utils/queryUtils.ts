@@ -10,9 +10,20 @@ export interface QueryOptions {
   role?: string;
   sportId?: string;
   universityId?: string;
+  tournamentId?: string;
+  groupId?: string;
 }
 
-export function buildQueryOptions(options: QueryOptions, searchFields: string[]) {
+/**
+ * Builds the `where` condition that limits a model to one tournament. Models
+ * without a `tournamentId` column pass their own, e.g. results filter through
+ * their fixture.
+ */
+export type TournamentScope = (tournamentId: string) => any;
+
+const byTournamentId: TournamentScope = (tournamentId) => ({ tournamentId });
+
+export function buildQueryOptions(options: QueryOptions, searchFields: string[], tournamentScope: TournamentScope = byTournamentId) {
   const page = options.page ? parseInt(options.page.toString()) : 1;
   const limit = options.limit ? parseInt(options.limit.toString()) : 10;
   const skip = (page - 1) * limit;
@@ -24,9 +35,15 @@ export function buildQueryOptions(options: QueryOptions, searchFields: string[])
 
   let where: any = {};
   if (options.search) {
-    where.OR = searchFields.map((field) => ({
-      [field]: { contains: options.search, mode: 'insensitive' },
-    }));
+    // Dotted fields such as 'homeTeam.name' search a related record
+    where.OR = searchFields.map((field) =>
+      field
+        .split('.')
+        .reduceRight<any>((condition, key) => ({ [key]: condition }), {
+          contains: options.search,
+          mode: 'insensitive',
+        })
+    );
   }
 
   if (options.gender) {
@@ -41,10 +58,18 @@ export function buildQueryOptions(options: QueryOptions, searchFields: string[])
     where.sportId = options.sportId;
   }
 
+  if (options.groupId) {
+    where.groupId = options.groupId;
+  }
+
   if (options.universityId) {
     where.sport = { universityId: options.universityId };
   }
 
+  if (options.tournamentId) {
+    where.AND = [tournamentScope(options.tournamentId)];
+  }
+
   return { skip, take: limit, orderBy, where };
 }
 
@@ -0,0 +1,499 @@
+import PDFDocument from 'pdfkit';
+import { BoardOutcome, GameStatus, MatchEvent, MatchEventType, Prisma, ScoringFormat, TeamSide } from '@prisma/client';
+import { formatScore, homeHasWhite, periodLabel } from './scoringUtils';
+import { athleteInclude } from './rosterUtils';
+import { getTimeZone } from './timeUtils';
+
+const teamInclude = {
+  include: {
+    university: true,
+    roster: { include: { athlete: { include: athleteInclude } }, orderBy: { jerseyNumber: 'asc' as const } },
+  },
+};
+
+export const matchReportInclude = {
+  sport: true,
+  tournament: true,
+  group: true,
+  venue: { include: { parent: true } },
+  homeTeam: teamInclude,
+  awayTeam: teamInclude,
+  squads: {
+    include: { athlete: { include: athleteInclude } },
+    orderBy: [{ isStarter: 'desc' as const }, { jerseyNumber: 'asc' as const }],
+  },
+  events: { orderBy: [{ period: 'asc' as const }, { minute: 'asc' as const }, { createdAt: 'asc' as const }] },
+  result: {
+    include: {
+      periods: { orderBy: { number: 'asc' as const } },
+      boards: {
+        include: { homeAthlete: { include: athleteInclude }, awayAthlete: { include: athleteInclude } },
+        orderBy: { board: 'asc' as const },
+      },
+    },
+  },
+};
+
+export type MatchReportFixture = Prisma.FixtureGetPayload<{ include: typeof matchReportInclude }>;
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+// A line of a team sheet: the player and their events in the match
+interface SheetPlayer {
+  number: number | null;
+  name: string;
+  licence: string | null;
+  position: string | null;
+  isStarter: boolean;
+  isCaptain: boolean;
+  events: MatchEvent[];
+}
+
+interface PlayerStat {
+  header: string;
+  value: (events: MatchEvent[]) => string;
+}
+
+// How a sport's paper scoresheet is laid out
+interface SheetLayout {
+  officials: string[];
+  stats: PlayerStat[];
+  showPosition: boolean;
+  // Blank lines on each team sheet, for names added by hand
+  playerLines: number;
+}
+
+const boardNotation: Record<BoardOutcome, string> = { WHITE_WIN: '1-0', DRAW: '½-½', BLACK_WIN: '0-1' };
+
+const PAGE_MARGIN = 36;
+const ROW_HEIGHT = 15;
+
+const count = (type: MatchEventType) => (events: MatchEvent[]) => {
+  const total = events.filter((event) => event.type === type).length;
+  return total ? String(total) : '';
+};
+
+const goals: PlayerStat = { header: 'Goals', value: count(MatchEventType.GOAL) };
+
+const cards: PlayerStat = {
+  header: 'Cards',
+  value: (events) =>
+    events
+      .filter((event) => event.type.endsWith('_CARD'))
+      .map((event) => `${event.type[0]}${event.minute !== null ? ` ${event.minute}'` : ''}`)
+      .join(', '),
+};
+
+const points: PlayerStat = {
+  header: 'Pts',
+  value: (events) => {
+    const total = events.filter((event) => event.type === MatchEventType.GOAL).reduce((sum, event) => sum + (event.points ?? 1), 0);
+    return total ? String(total) : '';
+  },
+};
+
+const rugbyStats: PlayerStat[] = [
+  { header: 'T', value: count(MatchEventType.TRY) },
+  { header: 'C', value: count(MatchEventType.CONVERSION) },
+  { header: 'PG', value: count(MatchEventType.PENALTY_GOAL) },
+  { header: 'DG', value: count(MatchEventType.DROP_GOAL) },
+  cards,
+];
+
+// Matched on the sport's name, after the scoresheets in match-sheets/
+const sheetLayouts: { pattern: RegExp; layout: SheetLayout }[] = [
+  {
+    pattern: /football|soccer/i,
+    layout: { officials: ['Referee', 'Assistant referee 1', 'Assistant referee 2', 'Fourth official'], stats: [goals, cards], showPosition: false, playerLines: 18 },
+  },
+  {
+    pattern: /hockey/i,
+    layout: { officials: ['Umpire 1', 'Umpire 2', 'Technical officer'], stats: [goals, cards], showPosition: false, playerLines: 16 },
+  },
+  {
+    pattern: /handball/i,
+    layout: { officials: ['Referee A', 'Referee B', 'Timekeeper', 'Scorekeeper'], stats: [goals, cards], showPosition: false, playerLines: 16 },
+  },
+  {
+    pattern: /netball/i,
+    layout: { officials: ['Umpire 1', 'Umpire 2', 'Scorer', 'Timekeeper'], stats: [goals], showPosition: true, playerLines: 12 },
+  },
+  {
+    pattern: /basketball/i,
+    layout: { officials: ['Crew chief', 'Umpire 1', 'Umpire 2', 'Scorer', 'Timer'], stats: [points], showPosition: false, playerLines: 12 },
+  },
+  {
+    pattern: /volleyball/i,
+    layout: { officials: ['1st referee', '2nd referee', 'Scorer'], stats: [], showPosition: true, playerLines: 14 },
+  },
+  {
+    pattern: /rugby/i,
+    layout: { officials: ['Referee', 'Assistant referee 1', 'Assistant referee 2'], stats: rugbyStats, showPosition: true, playerLines: 12 },
+  },
+  {
+    pattern: /chess/i,
+    layout: { officials: ['Arbiter'], stats: [], showPosition: false, playerLines: 6 },
+  },
+];
+
+const defaultLayout: SheetLayout = { officials: ['Referee', 'Scorer'], stats: [goals, cards], showPosition: false, playerLines: 12 };
+
+function sheetLayout(sportName: string): SheetLayout {
+  return sheetLayouts.find(({ pattern }) => pattern.test(sportName))?.layout ?? defaultLayout;
+}
+
+function teamName(fixture: MatchReportFixture, side: TeamSide): string {
+  return side === TeamSide.HOME
+    ? fixture.homeTeam?.name ?? fixture.homeTeamName ?? 'TBD'
+    : fixture.awayTeam?.name ?? fixture.awayTeamName ?? 'TBD';
+}
+
+// The match-day squad when one was named, otherwise the team's roster
+function sheetPlayers(fixture: MatchReportFixture, side: TeamSide): SheetPlayer[] {
+  const team = side === TeamSide.HOME ? fixture.homeTeam : fixture.awayTeam;
+  if (!team) {
+    return [];
+  }
+  const roster = new Map(team.roster.map((entry) => [entry.athleteId, entry]));
+  const squad = fixture.squads.filter((entry) => entry.teamId === team.id);
+  const lines = squad.length
+    ? squad.map((entry) => ({ ...entry, rosterEntry: roster.get(entry.athleteId) }))
+    : team.roster.map((entry) => ({ ...entry, isStarter: true, rosterEntry: entry }));
+
+  return lines.map((line) => {
+    const name = line.athlete.user.name;
+    const number = line.jerseyNumber;
+    const events = fixture.events.filter(
+      (event) => event.side === side && (event.player === name || (number !== null && event.playerNumber === number))
+    );
+    return {
+      number,
+      name,
+      licence: line.athlete.studentNumber,
+      position: line.rosterEntry?.position ?? null,
+      isStarter: line.isStarter,
+      isCaptain: line.rosterEntry?.isCaptain ?? false,
+      events,
+    };
+  });
+}
+
+// In the app's time zone, like the kickoff on the schedule
+function formatDate(date: Date | null, part: 'date' | 'time'): string {
+  if (!date) {
+    return '';
+  }
+  const timeZone = getTimeZone();
+  return part === 'date'
+    ? date.toLocaleDateString('en-GB', { timeZone, day: '2-digit', month: 'short', year: 'numeric' })
+    : date.toLocaleTimeString('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' });
+}
+
+function eventLabel(event: MatchEvent): string {
+  const label = event.type.replace(/_/g, ' ').toLowerCase();
+  return label[0].toUpperCase() + label.slice(1);
+}
+
+/**
+ * Renders fixture reports page by page. Every drawing call checks for room
+ * first, so long squads and timelines carry on to a new page.
+ */
+class ReportWriter {
+  readonly doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+  y = PAGE_MARGIN;
+  readonly width = this.doc.page.width - PAGE_MARGIN * 2;
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.doc.page.height - PAGE_MARGIN) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+
+  heading(text: string, size = 11) {
+    this.ensureSpace(size + ROW_HEIGHT * 2);
+    this.y += 6;
+    this.doc.font('Helvetica-Bold').fontSize(size).text(text, PAGE_MARGIN, this.y, { width: this.width });
+    this.y += size + 6;
+  }
+
+  // Label and value pairs in boxes, a row at a time
+  fields(pairs: [string, string][], perRow: number) {
+    const cell = this.width / perRow;
+    for (let start = 0; start < pairs.length; start += perRow) {
+      this.ensureSpace(ROW_HEIGHT * 1.4);
+      pairs.slice(start, start + perRow).forEach(([label, value], index) => {
+        const x = PAGE_MARGIN + index * cell;
+        this.doc.rect(x, this.y, cell, ROW_HEIGHT * 1.4).stroke();
+        this.doc.font('Helvetica-Bold').fontSize(7).text(label, x + 3, this.y + 2, { width: cell - 6 });
+        this.doc.font('Helvetica').fontSize(9).text(value, x + 3, this.y + 9, { width: cell - 6, height: ROW_HEIGHT, ellipsis: true });
+      });
+      this.y += ROW_HEIGHT * 1.4;
+    }
+  }
+
+  private row(columns: Column[], cells: string[], bold: boolean) {
+    let x = PAGE_MARGIN;
+    this.doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+    columns.forEach((column, index) => {
+      this.doc.rect(x, this.y, column.width, ROW_HEIGHT).stroke();
+      this.doc.text(cells[index] ?? '', x + 3, this.y + 4, {
+        width: column.width - 6,
+        height: ROW_HEIGHT - 4,
+        align: column.align ?? 'left',
+        ellipsis: true,
+        lineBreak: false,
+      });
+      x += column.width;
+    });
+    this.y += ROW_HEIGHT;
+  }
+
+  // A ruled table; the header is repeated when the table runs onto a new page
+  table(columns: Column[], rows: string[][]) {
+    const headers = columns.map((column) => column.header);
+    this.ensureSpace(ROW_HEIGHT * 2);
+    this.row(columns, headers, true);
+    for (const cells of rows) {
+      if (this.y + ROW_HEIGHT > this.doc.page.height - PAGE_MARGIN) {
+        this.ensureSpace(ROW_HEIGHT * 2);
+        this.row(columns, headers, true);
+      }
+      this.row(columns, cells, false);
+    }
+  }
+
+  // Name and signature lines for officials and captains to sign by hand
+  signatures(labels: string[]) {
+    const half = this.width / 2;
+    for (const label of labels) {
+      this.ensureSpace(ROW_HEIGHT * 1.8);
+      this.y += ROW_HEIGHT;
+      this.doc.font('Helvetica').fontSize(8);
+      this.doc.text(label, PAGE_MARGIN, this.y - 9, { width: half - 10 });
+      this.doc.moveTo(PAGE_MARGIN + 95, this.y).lineTo(PAGE_MARGIN + half - 10, this.y).stroke();
+      this.doc.text('Signature', PAGE_MARGIN + half, this.y - 9, { width: 60 });
+      this.doc.moveTo(PAGE_MARGIN + half + 45, this.y).lineTo(PAGE_MARGIN + this.width, this.y).stroke();
+      this.y += 4;
+    }
+  }
+}
+
+function writeHeader(writer: ReportWriter, fixture: MatchReportFixture) {
+  const { doc } = writer;
+  doc.font('Helvetica-Bold').fontSize(16).text(`${fixture.sport.name} Match Report`, PAGE_MARGIN, writer.y, { width: writer.width, align: 'center' });
+  writer.y += 20;
+  if (fixture.tournament) {
+    doc.font('Helvetica').fontSize(10).text(fixture.tournament.name, PAGE_MARGIN, writer.y, { width: writer.width, align: 'center' });
+    writer.y += 14;
+  }
+  writer.y += 6;
+
+  const venue = fixture.venue ? [fixture.venue.parent?.name, fixture.venue.name].filter(Boolean).join(' - ') : fixture.venueName ?? '';
+  const stage = [fixture.group?.name, fixture.round ? `Round ${fixture.round}` : null].filter(Boolean).join(', ');
+  writer.fields(
+    [
+      ['Team A', teamName(fixture, TeamSide.HOME)],
+      ['Team B', teamName(fixture, TeamSide.AWAY)],
+      ['Category', fixture.gender.toLowerCase()],
+      ['Date', formatDate(fixture.date, 'date')],
+      ['Time', formatDate(fixture.date, 'time')],
+      ['Venue', venue],
+      ['Stage', stage],
+      ['Game no.', fixture.id.slice(0, 8).toUpperCase()],
+    ],
+    4
+  );
+}
+
+function writeTeamSheet(writer: ReportWriter, fixture: MatchReportFixture, side: TeamSide, layout: SheetLayout) {
+  writer.heading(`${side === TeamSide.HOME ? 'Team A' : 'Team B'}: ${teamName(fixture, side)}`);
+  const players = sheetPlayers(fixture, side);
+
+  const statWidth = 42;
+  const fixed = 30 + 70 + (layout.showPosition ? 60 : 0) + 40;
+  const columns: Column[] = [
+    { header: 'No.', width: 30, align: 'center' },
+    { header: 'Player', width: writer.width - fixed - statWidth * layout.stats.length },
+    ...(layout.showPosition ? [{ header: 'Position', width: 60 }] : []),
+    { header: 'Licence no.', width: 70 },
+    { header: 'Start', width: 40, align: 'center' as const },
+    ...layout.stats.map((stat) => ({ header: stat.header, width: statWidth, align: 'center' as const })),
+  ];
+  const rows = players.map((player) => [
+    player.number !== null ? String(player.number) : '',
+    `${player.name}${player.isCaptain ? ' (C)' : ''}`,
+    ...(layout.showPosition ? [player.position ?? ''] : []),
+    player.licence ?? '',
+    player.isStarter ? 'X' : '',
+    ...layout.stats.map((stat) => stat.value(player.events)),
+  ]);
+  while (rows.length < layout.playerLines) {
+    rows.push([]);
+  }
+  writer.table(columns, rows);
+}
+
+// The winner of a finished match, counting a penalty shoot-out
+function winnerName(fixture: MatchReportFixture): string {
+  const { result } = fixture;
+  if (!result || result.status !== GameStatus.FINISHED) {
+    return '';
+  }
+  const [home, away] =
+    result.homeScore === result.awayScore
+      ? [result.homePenalties ?? 0, result.awayPenalties ?? 0]
+      : [result.homeScore, result.awayScore];
+  if (home === away) {
+    return 'Draw';
+  }
+  return teamName(fixture, home > away ? TeamSide.HOME : TeamSide.AWAY);
+}
+
+// One line per board: who played white and black, and the game's result
+function writeBoards(writer: ReportWriter, fixture: MatchReportFixture) {
+  const { result, sport } = fixture;
+  const boards = Array.from({ length: sport.periodCount }, (_, index) => {
+    const number = index + 1;
+    const board = result?.boards.find((entry) => entry.board === number);
+    const home = board?.homeAthlete?.user.name ?? '';
+    const away = board?.awayAthlete?.user.name ?? '';
+    const [white, black] = homeHasWhite(number) ? [home, away] : [away, home];
+    return [String(number), white, black, board?.outcome ? boardNotation[board.outcome] : ''];
+  });
+  const player = (writer.width - 40 - 60) / 2;
+  writer.table(
+    [
+      { header: 'Board', width: 40, align: 'center' },
+      { header: 'White', width: player },
+      { header: 'Black', width: player },
+      { header: 'Result', width: 60, align: 'center' },
+    ],
+    boards
+  );
+}
+
+function writeScores(writer: ReportWriter, fixture: MatchReportFixture) {
+  const { result, sport } = fixture;
+  const home = teamName(fixture, TeamSide.HOME);
+  const away = teamName(fixture, TeamSide.AWAY);
+  writer.heading('Score');
+
+  if (sport.scoringFormat === ScoringFormat.BOARDS) {
+    writeBoards(writer, fixture);
+  } else if (sport.scoringFormat !== ScoringFormat.TOTAL) {
+    const periods = result?.periods.length
+      ? result.periods
+      : Array.from({ length: sport.periodCount }, (_, index) => ({ number: index + 1, homeScore: null, awayScore: null }));
+    const cell = Math.min(60, (writer.width - 160) / (periods.length + 1));
+    const columns: Column[] = [
+      { header: 'Team', width: 160 },
+      ...periods.map((period) => ({ header: periodLabel(sport, period.number), width: cell, align: 'center' as const })),
+      { header: sport.scoringFormat === ScoringFormat.SETS ? 'Sets' : 'Total', width: cell, align: 'center' },
+    ];
+    const score = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+    writer.table(columns, [
+      [home, ...periods.map((period) => score(period.homeScore)), score(result?.homeScore)],
+      [away, ...periods.map((period) => score(period.awayScore)), score(result?.awayScore)],
+    ]);
+  }
+
+  if (sport.scoringFormat === ScoringFormat.RUGBY && result?.periods.length) {
+    const totals = (side: 'home' | 'away') =>
+      (['Tries', 'Conversions', 'PenaltyGoals', 'DropGoals'] as const).map((key) =>
+        String(result.periods.reduce((sum, period) => sum + (period[`${side}${key}`] ?? 0), 0))
+      );
+    writer.y += 6;
+    writer.table(
+      [
+        { header: 'Team', width: 160 },
+        { header: 'Tries', width: 60, align: 'center' },
+        { header: 'Conversions', width: 70, align: 'center' },
+        { header: 'Penalty goals', width: 70, align: 'center' },
+        { header: 'Drop goals', width: 70, align: 'center' },
+      ],
+      [
+        [home, ...totals('home')],
+        [away, ...totals('away')],
+      ]
+    );
+  }
+
+  const penalties =
+    result?.homePenalties !== null && result?.homePenalties !== undefined ? `${result.homePenalties} - ${result.awayPenalties}` : '';
+  writer.y += 6;
+  writer.fields(
+    [
+      ['Final score', result ? `${home} ${formatScore(result.homeScore)} - ${formatScore(result.awayScore)} ${away}` : ''],
+      ['Penalties', penalties],
+      ['Winner', winnerName(fixture)],
+      ['Status', result ? result.status.replace('_', ' ').toLowerCase() : ''],
+    ],
+    4
+  );
+}
+
+function writeTimeline(writer: ReportWriter, fixture: MatchReportFixture) {
+  writer.heading('Match events');
+  const rows = fixture.events.map((event) => [
+    event.minute !== null ? `${event.minute}'` : '',
+    event.period !== null ? periodLabel(fixture.sport, event.period) : '',
+    event.side === TeamSide.HOME ? 'A' : 'B',
+    eventLabel(event) + (event.points !== null ? ` (${event.points})` : ''),
+    [event.playerNumber !== null ? `#${event.playerNumber}` : null, event.player].filter(Boolean).join(' '),
+    [event.relatedPlayer, event.note].filter(Boolean).join(' - '),
+  ]);
+  while (rows.length < 10) {
+    rows.push([]);
+  }
+  writer.table(
+    [
+      { header: 'Min', width: 35, align: 'center' },
+      { header: 'Period', width: 55 },
+      { header: 'Team', width: 35, align: 'center' },
+      { header: 'Event', width: 95 },
+      { header: 'Player', width: 150 },
+      { header: 'Assist / off / note', width: writer.width - 370 },
+    ],
+    rows
+  );
+}
+
+/**
+ * Writes the official report of a fixture as a PDF, laid out like the sport's
+ * paper scoresheet: match details, both team sheets with each player's
+ * scoring and cards, the score by period, the event timeline, and lines for
+ * the officials and captains to sign.
+ */
+export function renderMatchReport(fixture: MatchReportFixture, out: NodeJS.WritableStream) {
+  const layout = sheetLayout(fixture.sport.name);
+  const writer = new ReportWriter();
+  writer.doc.pipe(out);
+
+  try {
+    writeHeader(writer, fixture);
+    writeTeamSheet(writer, fixture, TeamSide.HOME, layout);
+    writeTeamSheet(writer, fixture, TeamSide.AWAY, layout);
+    writeScores(writer, fixture);
+    writeTimeline(writer, fixture);
+
+    writer.heading('Officials and captains');
+    writer.signatures([...layout.officials, 'Team A captain', 'Team B captain']);
+
+    writer.y += 10;
+    writer.ensureSpace(ROW_HEIGHT);
+    writer.doc
+      .font('Helvetica')
+      .fontSize(7)
+      .text(`Generated ${new Date().toISOString()}`, PAGE_MARGIN, writer.y, { width: writer.width, align: 'right' });
+    writer.doc.end();
+  } catch (error) {
+    // Stop the part-written PDF so the caller can end the response
+    writer.doc.unpipe(out);
+    throw error;
+  }
+}
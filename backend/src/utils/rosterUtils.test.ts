@@ -0,0 +1,88 @@
+import { Gender } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../lib/prisma';
+import { checkJerseyNumber, checkJerseyTaken, checkRosterEntry, checkRosterIdentity } from './rosterUtils';
+
+vi.mock('../lib/prisma', () => ({
+  prisma: { rosterEntry: { findFirst: vi.fn(), count: vi.fn(), findUnique: vi.fn() } },
+}));
+
+const rosterEntries = vi.mocked(prisma.rosterEntry);
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+const team = {
+  id: 'team-1',
+  name: 'Kenyatta Football',
+  universityId: 'ku',
+  sportId: 'football',
+  gender: Gender.FEMALE,
+  sport: { name: 'Football', maxSquadSize: 2 },
+};
+
+const athlete = {
+  id: 'athlete-1',
+  user: { id: 'user-1', name: 'Jane', gender: Gender.FEMALE, universityId: 'ku' },
+};
+
+describe('checkRosterIdentity', () => {
+  it('only lets athletes represent their own university', () => {
+    expect(checkRosterIdentity(team, athlete.user)).toBeNull();
+    expect(checkRosterIdentity(team, { ...athlete.user, universityId: 'uon' })).toBe('Jane can only represent their own university');
+  });
+
+  it('keeps gender categories apart except for OTHER teams', () => {
+    const man = { ...athlete.user, name: 'John', gender: Gender.MALE };
+    expect(checkRosterIdentity(team, man)).toBe('John cannot play in the female category');
+    expect(checkRosterIdentity({ ...team, gender: Gender.OTHER }, man)).toBeNull();
+  });
+});
+
+describe('checkRosterEntry', () => {
+  it('accepts an eligible athlete on a squad with room', async () => {
+    rosterEntries.findFirst.mockResolvedValueOnce(null);
+    rosterEntries.count.mockResolvedValueOnce(1);
+    await expect(checkRosterEntry(team as never, athlete as never)).resolves.toBeNull();
+  });
+
+  it('checks identity before loading the roster', async () => {
+    const visitor = { ...athlete, user: { ...athlete.user, universityId: 'uon' } };
+    await expect(checkRosterEntry(team as never, visitor as never)).resolves.toMatch('own university');
+    expect(rosterEntries.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('allows one team per sport', async () => {
+    rosterEntries.findFirst.mockResolvedValueOnce({ teamId: 'team-2', team: { name: 'Kenyatta B' } } as never);
+    await expect(checkRosterEntry(team as never, athlete as never)).resolves.toBe('Jane already plays Football for Kenyatta B');
+
+    rosterEntries.findFirst.mockResolvedValueOnce({ teamId: 'team-1', team } as never);
+    await expect(checkRosterEntry(team as never, athlete as never)).resolves.toBe('Jane is already on the roster');
+  });
+
+  it('refuses a full squad unless the sport has no limit', async () => {
+    rosterEntries.count.mockResolvedValue(2);
+    await expect(checkRosterEntry(team as never, athlete as never)).resolves.toBe(
+      'The squad is full; Football squads have at most 2 athletes'
+    );
+
+    const unlimited = { ...team, sport: { ...team.sport, maxSquadSize: null } };
+    await expect(checkRosterEntry(unlimited as never, athlete as never)).resolves.toBeNull();
+  });
+});
+
+describe('jersey numbers', () => {
+  it('accepts whole numbers from 0 to 99, or none', () => {
+    expect([0, 99, null, undefined].map(checkJerseyNumber)).toEqual([null, null, null, null]);
+    expect([-1, 100, 7.5, '7'].map(checkJerseyNumber).every((error) => error !== null)).toBe(true);
+  });
+
+  it('keeps each number to one athlete per team', async () => {
+    rosterEntries.findUnique.mockResolvedValue({ athleteId: 'athlete-2', athlete: { user: { name: 'Mary' } } } as never);
+    await expect(checkJerseyTaken('team-1', 10, 'athlete-1')).resolves.toBe('Number 10 is already worn by Mary');
+    // An athlete keeping their own number
+    await expect(checkJerseyTaken('team-1', 10, 'athlete-2')).resolves.toBeNull();
+    await expect(checkJerseyTaken('team-1', null)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { Gender, Prisma, Team, User } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+// The parts of an athlete's user account that are shown publicly
+export const athleteUserSelect = {
+  id: true,
+  name: true,
+  gender: true,
+  universityId: true,
+};
+
+export const athleteInclude = {
+  user: { select: athleteUserSelect },
+};
+
+// An athlete as public endpoints show them, without the student number or
+// date of birth; those are only shown through the eligibility endpoints
+export const publicAthleteSelect = {
+  id: true,
+  userId: true,
+  eligibility: true,
+  createdAt: true,
+  updatedAt: true,
+  user: { select: athleteUserSelect },
+} satisfies Prisma.AthleteSelect;
+
+export const rosterEntryInclude = {
+  athlete: { select: publicAthleteSelect },
+};
+
+type RosterAthlete = Prisma.AthleteGetPayload<{ include: typeof athleteInclude }>;
+
+type RosterTeam = Prisma.TeamGetPayload<{ include: { sport: true } }>;
+
+// Shirt numbers run from 0 to 99
+export function checkJerseyNumber(jerseyNumber: unknown): string | null {
+  if (jerseyNumber === undefined || jerseyNumber === null) {
+    return null;
+  }
+  if (!Number.isInteger(jerseyNumber) || (jerseyNumber as number) < 0 || (jerseyNumber as number) > 99) {
+    return 'jerseyNumber must be a whole number from 0 to 99';
+  }
+  return null;
+}
+
+/**
+ * The rules of checkRosterEntry that depend on the athlete's user account:
+ * they must study at the team's university and match its gender category
+ * (OTHER teams are open to everyone). Also checked when the account changes.
+ */
+export function checkRosterIdentity(
+  team: Pick<Team, 'universityId' | 'gender'>,
+  user: Pick<User, 'name' | 'gender' | 'universityId'>
+): string | null {
+  if (user.universityId !== team.universityId) {
+    return `${user.name} can only represent their own university`;
+  }
+  if (team.gender !== Gender.OTHER && user.gender !== team.gender) {
+    return `${user.name} cannot play in the ${team.gender.toLowerCase()} category`;
+  }
+  return null;
+}
+
+/**
+ * Checks that an athlete may join a team's roster: checkRosterIdentity must
+ * pass, they may not already play the sport for another team, and the squad
+ * must have room. Returns why they may not, or null.
+ */
+export async function checkRosterEntry(team: RosterTeam, athlete: RosterAthlete): Promise<string | null> {
+  const identityError = checkRosterIdentity(team, athlete.user);
+  if (identityError) {
+    return identityError;
+  }
+
+  const [otherTeam, squadSize] = await Promise.all([
+    prisma.rosterEntry.findFirst({
+      where: { athleteId: athlete.id, team: { sportId: team.sportId } },
+      include: { team: true },
+    }),
+    prisma.rosterEntry.count({ where: { teamId: team.id } }),
+  ]);
+  if (otherTeam) {
+    return otherTeam.teamId === team.id
+      ? `${athlete.user.name} is already on the roster`
+      : `${athlete.user.name} already plays ${team.sport.name} for ${otherTeam.team.name}`;
+  }
+  if (team.sport.maxSquadSize !== null && squadSize >= team.sport.maxSquadSize) {
+    return `The squad is full; ${team.sport.name} squads have at most ${team.sport.maxSquadSize} athletes`;
+  }
+  return null;
+}
+
+// Checks that no one else on the team wears the number
+export async function checkJerseyTaken(teamId: string, jerseyNumber: number | null | undefined, athleteId?: string): Promise<string | null> {
+  if (jerseyNumber === undefined || jerseyNumber === null) {
+    return null;
+  }
+  const wearer = await prisma.rosterEntry.findUnique({
+    where: { teamId_jerseyNumber: { teamId, jerseyNumber } },
+    include: rosterEntryInclude,
+  });
+  if (wearer && wearer.athleteId !== athleteId) {
+    return `Number ${jerseyNumber} is already worn by ${wearer.athlete.user.name}`;
+  }
+  return null;
+}
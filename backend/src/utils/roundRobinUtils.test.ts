@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { generateRoundRobin, scheduleRounds } from './roundRobinUtils';
+
+const teamIds = (count: number) => Array.from({ length: count }, (_, index) => `t${index + 1}`);
+
+const pairKey = (homeTeamId: string, awayTeamId: string) => [homeTeamId, awayTeamId].sort().join('-');
+
+describe('generateRoundRobin', () => {
+  it('gives one team a bye each round when the count is odd', () => {
+    const rounds = generateRoundRobin(teamIds(5));
+    expect(rounds).toHaveLength(5);
+
+    const sittingOut = rounds.map((round) => {
+      const playing = round.flatMap((pairing) => [pairing.homeTeamId, pairing.awayTeamId]);
+      expect(new Set(playing).size).toBe(4);
+      return teamIds(5).find((team) => !playing.includes(team));
+    });
+    expect(new Set(sittingOut).size).toBe(5);
+  });
+
+  it('pairs every two teams once per leg', () => {
+    const pairings = generateRoundRobin(teamIds(6)).flat();
+    expect(pairings).toHaveLength(15);
+    expect(new Set(pairings.map((pairing) => pairKey(pairing.homeTeamId, pairing.awayTeamId))).size).toBe(15);
+    expect(pairings.every((pairing) => pairing.homeTeamId !== pairing.awayTeamId)).toBe(true);
+  });
+
+  it('numbers rounds across legs and swaps home and away in the return leg', () => {
+    const rounds = generateRoundRobin(teamIds(4), 2);
+    expect(rounds.map((round) => round[0].round)).toEqual([1, 2, 3, 4, 5, 6]);
+
+    const legs = [rounds.slice(0, 3).flat(), rounds.slice(3).flat()];
+    const first = new Set(legs[0].map((pairing) => `${pairing.homeTeamId}-${pairing.awayTeamId}`));
+    expect(legs[1].every((pairing) => first.has(`${pairing.awayTeamId}-${pairing.homeTeamId}`))).toBe(true);
+  });
+
+  it('shares home matches evenly between the teams', () => {
+    for (const count of [4, 5, 6, 8]) {
+      const homeGames = new Map<string, number>();
+      for (const pairing of generateRoundRobin(teamIds(count)).flat()) {
+        homeGames.set(pairing.homeTeamId, (homeGames.get(pairing.homeTeamId) ?? 0) + 1);
+      }
+      // Every team plays all the others, with or without byes
+      const games = count - 1;
+      for (const team of teamIds(count)) {
+        expect(homeGames.get(team)).toBeGreaterThanOrEqual(Math.floor(games / 2));
+        expect(homeGames.get(team)).toBeLessThanOrEqual(Math.ceil(games / 2));
+      }
+    }
+  });
+});
+
+describe('scheduleRounds', () => {
+  const startTime = new Date('2024-12-16T06:00:00Z');
+  const at = (minutes: number) => new Date(startTime.getTime() + minutes * 60 * 1000);
+
+  it('shares the venues and waits for both teams to rest', () => {
+    const rounds = [
+      [
+        { homeTeamId: 'a', awayTeamId: 'b', round: 1 },
+        { homeTeamId: 'c', awayTeamId: 'd', round: 1 },
+      ],
+      [
+        { homeTeamId: 'a', awayTeamId: 'c', round: 2 },
+        { homeTeamId: 'b', awayTeamId: 'd', round: 2 },
+      ],
+    ];
+    const scheduled = scheduleRounds(rounds, { startTime, slotMinutes: 60, minRestMinutes: 30, venues: ['pitch-1', 'pitch-2'] });
+    expect(scheduled.map((match) => [match.homeTeamId, match.venue, match.date])).toEqual([
+      ['a', 'pitch-1', at(0)],
+      ['c', 'pitch-2', at(0)],
+      ['a', 'pitch-1', at(90)],
+      ['b', 'pitch-2', at(90)],
+    ]);
+  });
+
+  it('runs matches one after another on a single venue', () => {
+    const rounds = [
+      [
+        { homeTeamId: 'a', awayTeamId: 'b', round: 1 },
+        { homeTeamId: 'c', awayTeamId: 'd', round: 1 },
+      ],
+    ];
+    const scheduled = scheduleRounds(rounds, { startTime, slotMinutes: 90, minRestMinutes: 0, venues: ['pitch-1'] });
+    expect(scheduled.map((match) => match.date)).toEqual([at(0), at(90)]);
+  });
+});
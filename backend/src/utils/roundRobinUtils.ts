@@ -0,0 +1,99 @@
+export interface Pairing {
+  homeTeamId: string;
+  awayTeamId: string;
+  round: number;
+}
+
+export interface ScheduleOptions {
+  startTime: Date;
+  // Length of one match slot, kickoff to kickoff, on the same venue
+  slotMinutes: number;
+  // Minimum time between the end of a team's match and its next kickoff
+  minRestMinutes: number;
+  venues: string[];
+}
+
+export type Scheduled<T extends Pairing> = T & {
+  date: Date;
+  venue: string;
+};
+
+/**
+ * Generates round-robin pairings with the circle method: the first team stays
+ * fixed while the others rotate, so every team meets every other team once per
+ * leg. An odd number of teams gets a bye each round. Home and away alternate
+ * between rounds, and are swapped in even legs.
+ */
+export function generateRoundRobin(teamIds: string[], legs = 1): Pairing[][] {
+  const teams: (string | null)[] = [...teamIds];
+  if (teams.length % 2 === 1) {
+    teams.push(null);
+  }
+
+  const roundsPerLeg = teams.length - 1;
+  const half = teams.length / 2;
+  const rounds: Pairing[][] = [];
+
+  for (let leg = 0; leg < legs; leg++) {
+    const rotation = [...teams];
+
+    for (let r = 0; r < roundsPerLeg; r++) {
+      const round = leg * roundsPerLeg + r + 1;
+      const pairings: Pairing[] = [];
+
+      for (let i = 0; i < half; i++) {
+        const first = rotation[i];
+        const second = rotation[rotation.length - 1 - i];
+        if (!first || !second) {
+          continue;
+        }
+        // Alternate the fixed team's venue so nobody is always at home
+        const swap = (i === 0 && r % 2 === 1) !== (leg % 2 === 1);
+        pairings.push(
+          swap
+            ? { homeTeamId: second, awayTeamId: first, round }
+            : { homeTeamId: first, awayTeamId: second, round }
+        );
+      }
+
+      rounds.push(pairings);
+      rotation.splice(1, 0, rotation.pop()!);
+    }
+  }
+
+  return rounds;
+}
+
+/**
+ * Assigns kickoff times and venues to rounds of pairings. Each pairing takes
+ * the venue that frees up first, kicking off once both teams have had
+ * `minRestMinutes` since their previous match. Rounds are scheduled in order,
+ * so pass interleaved rounds of several groups to share venues between them.
+ */
+export function scheduleRounds<T extends Pairing>(rounds: T[][], options: ScheduleOptions): Scheduled<T>[] {
+  const slotMs = options.slotMinutes * 60 * 1000;
+  const restMs = options.minRestMinutes * 60 * 1000;
+  const venueFree = new Map(options.venues.map((venue) => [venue, options.startTime.getTime()]));
+  const teamReady = new Map<string, number>();
+  const scheduled: Scheduled<T>[] = [];
+
+  for (const round of rounds) {
+    for (const pairing of round) {
+      const [venue, free] = [...venueFree.entries()].reduce((earliest, entry) =>
+        entry[1] < earliest[1] ? entry : earliest
+      );
+      const kickoff = Math.max(
+        free,
+        teamReady.get(pairing.homeTeamId) ?? 0,
+        teamReady.get(pairing.awayTeamId) ?? 0
+      );
+
+      venueFree.set(venue, kickoff + slotMs);
+      teamReady.set(pairing.homeTeamId, kickoff + slotMs + restMs);
+      teamReady.set(pairing.awayTeamId, kickoff + slotMs + restMs);
+      scheduled.push({ ...pairing, date: new Date(kickoff), venue });
+    }
+  }
+
+  return scheduled;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { detectConflicts, ScheduledFixture, ScheduleSlot } from './scheduleUtils';
+
+vi.mock('../lib/prisma', () => ({ prisma: {} }));
+
+const sport = { name: 'Football', matchDurationMinutes: 90, minRestMinutes: 0 };
+const kickoff = new Date('2024-12-16T06:00:00Z');
+const minutesLater = (minutes: number) => new Date(kickoff.getTime() + minutes * 60 * 1000);
+
+const slot = (fields: Partial<ScheduleSlot> = {}): ScheduleSlot => ({
+  sportId: 'football',
+  date: kickoff,
+  venueId: 'pitch-1',
+  venueName: null,
+  homeTeamId: 'a',
+  awayTeamId: 'b',
+  ...fields,
+});
+
+const fixture = (fields: Partial<ScheduledFixture>): ScheduledFixture =>
+  ({
+    id: 'other',
+    sport,
+    date: kickoff,
+    venueId: 'pitch-2',
+    venue: { name: 'Pitch 2' },
+    homeTeamId: 'c',
+    awayTeamId: 'd',
+    homeTeam: { name: 'Moi' },
+    awayTeam: { name: 'Egerton' },
+    result: null,
+    officials: [],
+    ...fields,
+  }) as ScheduledFixture;
+
+describe('detectConflicts', () => {
+  it('finds a team playing two overlapping matches', () => {
+    const conflicts = detectConflicts(slot(), sport, [fixture({ awayTeamId: 'a', date: minutesLater(60) })], ['pitch-1']);
+    expect(conflicts).toEqual([expect.objectContaining({ type: 'TEAM', fixtureId: 'other' })]);
+  });
+
+  it('finds two overlapping matches at the same venue', () => {
+    const conflicts = detectConflicts(slot(), sport, [fixture({ venueId: 'pitch-1', date: minutesLater(-30) })], ['pitch-1']);
+    expect(conflicts).toEqual([expect.objectContaining({ type: 'VENUE', fixtureId: 'other' })]);
+  });
+
+  it('finds a clash between a venue and one of its sub-areas', () => {
+    const conflicts = detectConflicts(slot({ venueId: 'court-1' }), sport, [fixture({ venueId: 'hall' })], ['court-1', 'hall']);
+    expect(conflicts.map((conflict) => conflict.type)).toEqual(['VENUE']);
+  });
+
+  it('lets matches follow each other back to back', () => {
+    const others = [
+      fixture({ venueId: 'pitch-1', homeTeamId: 'a', date: minutesLater(90) }),
+      fixture({ venueId: 'pitch-1', awayTeamId: 'b', date: minutesLater(-90) }),
+    ];
+    expect(detectConflicts(slot(), sport, others, ['pitch-1'])).toEqual([]);
+  });
+
+  it("requires the sport's rest between a team's matches", () => {
+    const rested = { ...sport, minRestMinutes: 60 };
+    const conflicts = detectConflicts(slot(), rested, [fixture({ homeTeamId: 'a', date: minutesLater(120) })], ['pitch-1']);
+    expect(conflicts).toEqual([expect.objectContaining({ type: 'REST', message: expect.stringContaining('30 of the required 60') })]);
+  });
+
+  it('ignores cancelled matches and the fixture being rescheduled', () => {
+    const others = [
+      fixture({ venueId: 'pitch-1', result: { status: 'CANCELLED' } as ScheduledFixture['result'] }),
+      fixture({ id: 'self', homeTeamId: 'a' }),
+    ];
+    expect(detectConflicts(slot({ id: 'self' }), sport, others, ['pitch-1'])).toEqual([]);
+  });
+});
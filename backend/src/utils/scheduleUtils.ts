@@ -0,0 +1,185 @@
+import { GameStatus, Prisma, Sport } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { checkVenueAvailability, venueAvailabilityInclude, venueFamily } from './venueUtils';
+
+export type ConflictType = 'VENUE' | 'TEAM' | 'REST' | 'UNAVAILABLE' | 'OFFICIAL';
+
+export interface ScheduleConflict {
+  type: ConflictType;
+  // The fixture clashed with; absent when the venue itself is closed
+  fixtureId?: string;
+  message: string;
+}
+
+export interface ScheduleSlot {
+  // Set when rescheduling an existing fixture, so it does not clash with itself
+  id?: string;
+  sportId: string;
+  date: Date;
+  venueId: string | null;
+  venueName: string | null;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+  // Officials assigned to the fixture, who cannot be in two places at once
+  officialIds?: string[];
+}
+
+type SportTimings = Pick<Sport, 'matchDurationMinutes' | 'minRestMinutes'>;
+
+export const scheduledFixtureInclude = {
+  sport: true,
+  venue: true,
+  homeTeam: true,
+  awayTeam: true,
+  result: true,
+  officials: { include: { official: true } },
+} satisfies Prisma.FixtureInclude;
+
+// A fixture that has been given a kickoff
+export type ScheduledFixture = Omit<
+  Prisma.FixtureGetPayload<{ include: typeof scheduledFixtureInclude }>,
+  'date'
+> & { date: Date };
+
+export function isScheduled<T extends { date: Date | null }>(fixture: T): fixture is T & { date: Date } {
+  return fixture.date !== null;
+}
+
+const MINUTE = 60 * 1000;
+
+// Matches never run longer than this, so fixtures further away cannot clash
+const LOOKAROUND = 24 * 60 * MINUTE;
+
+/**
+ * Whether two bookings use the same place. Managed venues clash with
+ * themselves, their parent and their sub-areas (`venueIds`); fixtures still
+ * on a free-text venue are compared by name.
+ */
+function sameVenue(slot: ScheduleSlot, venueIds: string[], other: ScheduledFixture): boolean {
+  if (slot.venueId || other.venueId) {
+    return !!other.venueId && venueIds.includes(other.venueId);
+  }
+  const normalize = (venue: string | null) => venue?.trim().toUpperCase();
+  return !!slot.venueName && normalize(slot.venueName) === normalize(other.venueName);
+}
+
+export function describeFixture(fixture: ScheduledFixture): string {
+  const home = fixture.homeTeam?.name ?? fixture.homeTeamName ?? 'TBD';
+  const away = fixture.awayTeam?.name ?? fixture.awayTeamName ?? 'TBD';
+  return `${home} v ${away} (${fixture.sport.name}, ${fixture.date.toISOString()})`;
+}
+
+/**
+ * Compares a proposed slot against other fixtures. A slot clashes when it
+ * overlaps another match at the same venue, of the same team or with the same
+ * official, or leaves a team less rest between matches than either sport
+ * requires. Matches take
+ * their sport's duration; cancelled and postponed fixtures are ignored.
+ */
+export function detectConflicts(
+  slot: ScheduleSlot,
+  sport: SportTimings,
+  others: ScheduledFixture[],
+  venueIds: string[] = []
+): ScheduleConflict[] {
+  const start = slot.date.getTime();
+  const end = start + sport.matchDurationMinutes * MINUTE;
+  const teams = [slot.homeTeamId, slot.awayTeamId].filter((id): id is string => !!id);
+  const conflicts: ScheduleConflict[] = [];
+
+  for (const other of others) {
+    const status = other.result?.status;
+    if (other.id === slot.id || status === GameStatus.CANCELLED || status === GameStatus.POSTPONED) {
+      continue;
+    }
+
+    const otherStart = other.date.getTime();
+    const otherEnd = otherStart + other.sport.matchDurationMinutes * MINUTE;
+    const overlaps = start < otherEnd && otherStart < end;
+    const sharesTeam = teams.some((team) => team === other.homeTeamId || team === other.awayTeamId);
+
+    if (overlaps && sameVenue(slot, venueIds, other)) {
+      const venue = other.venue?.name ?? other.venueName;
+      conflicts.push({ type: 'VENUE', fixtureId: other.id, message: `${venue} is already booked for ${describeFixture(other)}` });
+    }
+    if (overlaps) {
+      for (const { official } of other.officials.filter((assignment) => slot.officialIds?.includes(assignment.officialId))) {
+        conflicts.push({ type: 'OFFICIAL', fixtureId: other.id, message: `${official.name} is already officiating ${describeFixture(other)}` });
+      }
+    }
+    if (!sharesTeam) {
+      continue;
+    }
+    if (overlaps) {
+      conflicts.push({ type: 'TEAM', fixtureId: other.id, message: `A team is already playing ${describeFixture(other)}` });
+      continue;
+    }
+
+    const gap = (start >= otherEnd ? start - otherEnd : otherStart - end) / MINUTE;
+    const rest = Math.max(sport.minRestMinutes, other.sport.minRestMinutes);
+    if (gap < rest) {
+      conflicts.push({
+        type: 'REST',
+        fixtureId: other.id,
+        message: `A team would have ${Math.round(gap)} of the required ${rest} minutes of rest around ${describeFixture(other)}`,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Loads the fixtures around a proposed slot and returns its clashes with
+ * them, plus the reasons its venue is closed at that time and any assigned
+ * official from a university that would be playing. Returns no
+ * conflicts if the sport or venue does not exist; validation reports that
+ * separately.
+ */
+export async function findScheduleConflicts(slot: ScheduleSlot): Promise<ScheduleConflict[]> {
+  const [sport, venue] = await Promise.all([
+    prisma.sport.findUnique({ where: { id: slot.sportId } }),
+    slot.venueId ? prisma.venue.findUnique({ where: { id: slot.venueId }, include: venueAvailabilityInclude }) : null,
+  ]);
+  if (!sport || isNaN(slot.date.getTime())) {
+    return [];
+  }
+
+  const venueIds = venue ? venueFamily(venue) : [];
+  const teams = [slot.homeTeamId, slot.awayTeamId].filter((id): id is string => !!id);
+  const others = await prisma.fixture.findMany({
+    where: {
+      id: slot.id ? { not: slot.id } : undefined,
+      date: {
+        gte: new Date(slot.date.getTime() - LOOKAROUND),
+        lte: new Date(slot.date.getTime() + LOOKAROUND),
+      },
+      OR: [
+        { venueId: { in: venueIds } },
+        ...(slot.venueName ? [{ venueName: { equals: slot.venueName, mode: 'insensitive' as const } }] : []),
+        { homeTeamId: { in: teams } },
+        { awayTeamId: { in: teams } },
+        { officials: { some: { officialId: { in: slot.officialIds ?? [] } } } },
+      ],
+    },
+    include: scheduledFixtureInclude,
+  });
+
+  const conflicts = detectConflicts(slot, sport, others.filter(isScheduled), venueIds);
+  if (venue) {
+    const end = new Date(slot.date.getTime() + sport.matchDurationMinutes * MINUTE);
+    for (const message of checkVenueAvailability(venue, slot.date, end)) {
+      conflicts.push({ type: 'UNAVAILABLE', message });
+    }
+  }
+  if (slot.officialIds?.length && teams.length) {
+    const interested = await prisma.official.findMany({
+      where: { id: { in: slot.officialIds }, university: { teams: { some: { id: { in: teams } } } } },
+      include: { university: true },
+    });
+    for (const official of interested) {
+      conflicts.push({ type: 'OFFICIAL', message: `${official.name} cannot officiate ${official.university?.name}, who would be playing` });
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,113 @@
+import { BoardOutcome, GameStatus, ScoringFormat } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { checkFinalScore, formatScore, homeBoardPoints, periodLabel, scoreBoards, scoreResult, ScoringRules } from './scoringUtils';
+
+const rules = (name: string, scoringFormat: ScoringFormat, periodCount: number): ScoringRules => ({
+  name,
+  scoringFormat,
+  periodCount,
+  setPoints: 25,
+  decidingSetPoints: 15,
+  setWinMargin: 2,
+});
+
+const football = rules('Football', ScoringFormat.PERIODS, 2);
+const basketball = rules('Basketball', ScoringFormat.PERIODS, 4);
+const volleyball = rules('Volleyball', ScoringFormat.SETS, 5);
+const rugby = rules('Rugby Sevens', ScoringFormat.RUGBY, 2);
+const chess = rules('Chess', ScoringFormat.BOARDS, 4);
+
+const { FINISHED, IN_PROGRESS } = GameStatus;
+const score = (homeScore: number, awayScore: number) => ({ homeScore, awayScore });
+
+describe('periodLabel', () => {
+  it('names halves, quarters, sets and overtime', () => {
+    expect(periodLabel(football, 2)).toBe('2nd half');
+    expect(periodLabel(basketball, 3)).toBe('Q3');
+    expect(periodLabel(basketball, 5)).toBe('OT1');
+    expect(periodLabel(volleyball, 5)).toBe('Set 5');
+  });
+});
+
+describe('scoreResult', () => {
+  it('adds up the periods', () => {
+    expect(scoreResult(football, [score(1, 0), score(2, 2)], FINISHED)).toMatchObject({ error: null, homeScore: 3, awayScore: 2 });
+  });
+
+  it('needs every period of a finished match, and level scores before overtime', () => {
+    expect(scoreResult(football, [score(1, 0)], FINISHED).error).toMatch(/all 2 periods/);
+    expect(scoreResult(football, [score(1, 0)], IN_PROGRESS).error).toBeNull();
+    expect(scoreResult(football, [score(1, 0), score(0, 0), score(1, 1)], FINISHED).error).toMatch(/level after regulation/);
+    expect(scoreResult(football, [score(1, 0), score(0, 1), score(1, 0)], FINISHED)).toMatchObject({ homeScore: 2, awayScore: 1 });
+  });
+
+  it('rejects scores that are not whole numbers', () => {
+    expect(scoreResult(football, [{ homeScore: 'x', awayScore: 0 }], IN_PROGRESS).error).toBe('1st half needs a homeScore and awayScore');
+    expect(scoreResult(football, [score(-1, 0)], IN_PROGRESS).error).not.toBeNull();
+  });
+
+  it('counts sets won, with a shorter deciding set', () => {
+    const sets = [score(25, 20), score(23, 25), score(26, 28), score(25, 10), score(15, 13)];
+    expect(scoreResult(volleyball, sets, FINISHED)).toMatchObject({ error: null, homeScore: 3, awayScore: 2 });
+  });
+
+  it('rejects impossible set scores', () => {
+    expect(scoreResult(volleyball, [score(25, 24)], FINISHED).error).toMatch(/not finished/);
+    expect(scoreResult(volleyball, [score(30, 25)], FINISHED).error).toMatch(/not a valid set score/);
+    expect(scoreResult(volleyball, [score(25, 0), score(25, 0), score(25, 0), score(25, 0)], FINISHED).error).toMatch(/already decided/);
+    expect(scoreResult(volleyball, [score(25, 20), score(20, 25)], FINISHED).error).toMatch(/must be won by 3 sets/);
+    expect(scoreResult(volleyball, [score(25, 20), score(12, 10)], IN_PROGRESS).error).toBeNull();
+  });
+
+  it('scores rugby from tries, conversions and kicks', () => {
+    const half = { homeTries: 2, homeConversions: 1, homePenaltyGoals: 1, awayDropGoals: 1 };
+    expect(scoreResult(rugby, [half, {}], FINISHED)).toMatchObject({ error: null, homeScore: 15, awayScore: 3 });
+    expect(scoreResult(rugby, [{ homeTries: 1, homeConversions: 2 }], IN_PROGRESS).error).toMatch(/more conversions than tries/);
+    expect(scoreResult(rugby, [{ homeTries: 1, homeScore: 7 }], IN_PROGRESS).error).toMatch(/does not match the 5 points/);
+  });
+
+  it('refuses periods for sports without them', () => {
+    expect(scoreResult(rules('Athletics', ScoringFormat.TOTAL, 1), [], FINISHED).error).toMatch(/only record the final score/);
+    expect(scoreResult(chess, [], FINISHED).error).toMatch(/send boards/);
+  });
+});
+
+describe('scoreBoards', () => {
+  it('gives white the odd boards to the home team', () => {
+    expect(homeBoardPoints(1, BoardOutcome.WHITE_WIN)).toBe(1);
+    expect(homeBoardPoints(2, BoardOutcome.WHITE_WIN)).toBe(0);
+    expect(homeBoardPoints(2, BoardOutcome.DRAW)).toBe(0.5);
+  });
+
+  it('adds up board points, accepting ½ written either way', () => {
+    const boards = [{ result: '1-0' }, { result: '0-1' }, { result: '½ – ½' }, { result: '1/2-1/2' }];
+    expect(scoreBoards(chess, boards, FINISHED)).toMatchObject({ error: null, homeScore: 3, awayScore: 1 });
+  });
+
+  it('needs every board decided once finished', () => {
+    expect(scoreBoards(chess, [{ result: '1-0' }, { result: null }], IN_PROGRESS)).toMatchObject({ homeScore: 1, awayScore: 0 });
+    expect(scoreBoards(chess, [{ result: '1-0' }, { result: null }], FINISHED).error).toMatch(/all 4 boards/);
+    expect(scoreBoards(chess, [{ result: '2-0' }], IN_PROGRESS).error).toBe('Board 1: result must be 1-0, ½-½ or 0-1');
+  });
+});
+
+describe('checkFinalScore', () => {
+  it('allows only half board points adding up to the boards', () => {
+    expect(checkFinalScore(chess, 2.5, 1.5, FINISHED)).toBeNull();
+    expect(checkFinalScore(chess, 2.25, 1.75, FINISHED)).not.toBeNull();
+    expect(checkFinalScore(chess, 2, 1, FINISHED)).not.toBeNull();
+    expect(checkFinalScore(chess, 2, 1, IN_PROGRESS)).toBeNull();
+  });
+
+  it('limits set scores to the sets needed', () => {
+    expect(checkFinalScore(volleyball, 3, 1, FINISHED)).toBeNull();
+    expect(checkFinalScore(volleyball, 4, 1, FINISHED)).toMatch(/first to 3 sets/);
+    expect(checkFinalScore(volleyball, 2, 1, FINISHED)).toMatch(/must be won by 3 sets/);
+  });
+
+  it('writes chess scores with halves', () => {
+    expect(formatScore(2.5)).toBe('2½');
+    expect(formatScore(0.5)).toBe('½');
+    expect(formatScore(3)).toBe('3');
+  });
+});
@@ -0,0 +1,319 @@
+import { BoardOutcome, BoardResult, GameStatus, ResultPeriod, ScoringFormat, Sport } from '@prisma/client';
+
+export type ScoringRules = Pick<
+  Sport,
+  'name' | 'scoringFormat' | 'periodCount' | 'setPoints' | 'decidingSetPoints' | 'setWinMargin'
+>;
+
+export type PeriodScore = Omit<ResultPeriod, 'id' | 'resultId'>;
+
+export type BoardScore = Omit<BoardResult, 'id' | 'resultId'>;
+
+export type ScoreOutcome =
+  | { error: string }
+  | { error: null; homeScore: number; awayScore: number; periods: PeriodScore[] };
+
+export type BoardsOutcome =
+  | { error: string }
+  | { error: null; homeScore: number; awayScore: number; boards: BoardScore[] };
+
+type RugbyKey = 'Tries' | 'Conversions' | 'PenaltyGoals' | 'DropGoals';
+
+// Points per scoring action under World Rugby law
+const rugbyPoints: Record<RugbyKey, number> = { Tries: 5, Conversions: 2, PenaltyGoals: 3, DropGoals: 3 };
+
+type SetState = 'HOME' | 'AWAY' | 'PLAYING' | 'INVALID';
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function toCount(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const count = typeof value === 'number' ? value : Number(value);
+  return isCount(count) ? count : NaN;
+}
+
+// Chess notation for each outcome; ½ may also be written 1/2
+const boardOutcomes: Record<string, BoardOutcome> = {
+  '1-0': BoardOutcome.WHITE_WIN,
+  '½-½': BoardOutcome.DRAW,
+  '1/2-1/2': BoardOutcome.DRAW,
+  '0-1': BoardOutcome.BLACK_WIN,
+};
+
+// The home team has white on odd boards
+export function homeHasWhite(board: number): boolean {
+  return board % 2 === 1;
+}
+
+// The points a game is worth to the home team: 1, ½ or 0
+export function homeBoardPoints(board: number, outcome: BoardOutcome): number {
+  if (outcome === BoardOutcome.DRAW) {
+    return 0.5;
+  }
+  return (outcome === BoardOutcome.WHITE_WIN) === homeHasWhite(board) ? 1 : 0;
+}
+
+// Board points as written in chess, e.g. "2½", "½" or "3"
+export function formatScore(score: number): string {
+  const whole = Math.floor(score);
+  if (score === whole) {
+    return String(score);
+  }
+  return whole ? `${whole}½` : '½';
+}
+
+export function setsToWin(rules: ScoringRules): number {
+  return Math.ceil(rules.periodCount / 2);
+}
+
+/**
+ * Names a period for display, e.g. "1st half", "Q3", "Set 5" or "OT1".
+ */
+export function periodLabel(rules: ScoringRules, number: number): string {
+  if (rules.scoringFormat === ScoringFormat.SETS) {
+    return `Set ${number}`;
+  }
+  if (number > rules.periodCount) {
+    return `OT${number - rules.periodCount}`;
+  }
+  if (rules.periodCount === 2) {
+    return number === 1 ? '1st half' : '2nd half';
+  }
+  return rules.periodCount === 4 ? `Q${number}` : `Period ${number}`;
+}
+
+// The deciding set, e.g. the fifth of a best of five, is played to fewer points
+function setTarget(rules: ScoringRules, number: number): number {
+  return number === rules.periodCount ? rules.decidingSetPoints : rules.setPoints;
+}
+
+// A set is won on reaching its target with the winning margin, or by exactly
+// the margin once both teams have passed the target (e.g. 25-23 or 27-25)
+function setState(home: number, away: number, target: number, margin: number): SetState {
+  const high = Math.max(home, away);
+  const low = Math.min(home, away);
+  if (high < target || high - low < margin) {
+    return 'PLAYING';
+  }
+  if (high === target || high - low === margin) {
+    return home > away ? 'HOME' : 'AWAY';
+  }
+  return 'INVALID';
+}
+
+function parsePeriod(raw: any, rules: ScoringRules, number: number): PeriodScore | string {
+  const period: PeriodScore = {
+    number,
+    homeScore: 0,
+    awayScore: 0,
+    homeTries: null,
+    homeConversions: null,
+    homePenaltyGoals: null,
+    homeDropGoals: null,
+    awayTries: null,
+    awayConversions: null,
+    awayPenaltyGoals: null,
+    awayDropGoals: null,
+  };
+  const label = periodLabel(rules, number);
+  const homeScore = toCount(raw?.homeScore);
+  const awayScore = toCount(raw?.awayScore);
+
+  if (rules.scoringFormat !== ScoringFormat.RUGBY) {
+    if (!isCount(homeScore) || !isCount(awayScore)) {
+      return `${label} needs a homeScore and awayScore`;
+    }
+    return { ...period, homeScore, awayScore };
+  }
+
+  for (const side of ['home', 'away'] as const) {
+    let points = 0;
+    for (const key of Object.keys(rugbyPoints) as RugbyKey[]) {
+      const count = toCount(raw?.[`${side}${key}`]) ?? 0;
+      if (!isCount(count)) {
+        return `${label}: ${side}${key} must be a whole number`;
+      }
+      period[`${side}${key}`] = count;
+      points += count * rugbyPoints[key];
+    }
+    if (period[`${side}Conversions`]! > period[`${side}Tries`]!) {
+      return `${label}: ${side} has more conversions than tries`;
+    }
+    const given = side === 'home' ? homeScore : awayScore;
+    if (given !== null && given !== points) {
+      return `${label}: ${side}Score of ${given} does not match the ${points} points scored`;
+    }
+    period[`${side}Score`] = points;
+  }
+  return period;
+}
+
+function checkPeriods(rules: ScoringRules, periods: PeriodScore[], status: GameStatus): string | null {
+  let home = 0;
+  let away = 0;
+  for (const period of periods) {
+    if (period.number > rules.periodCount && home !== away) {
+      return `${periodLabel(rules, period.number)} can only be played when the scores are level after regulation`;
+    }
+    home += period.homeScore;
+    away += period.awayScore;
+  }
+  if (status === GameStatus.FINISHED && periods.length < rules.periodCount) {
+    return `A finished ${rules.name} match needs scores for all ${rules.periodCount} periods`;
+  }
+  return null;
+}
+
+function checkSets(rules: ScoringRules, periods: PeriodScore[], status: GameStatus): string | null {
+  const needed = setsToWin(rules);
+  let home = 0;
+  let away = 0;
+  for (const period of periods) {
+    if (home === needed || away === needed) {
+      return `The match was already decided before ${periodLabel(rules, period.number)}`;
+    }
+    const target = setTarget(rules, period.number);
+    const state = setState(period.homeScore, period.awayScore, target, rules.setWinMargin);
+    const last = period.number === periods.length;
+    if (state === 'INVALID') {
+      return `${periodLabel(rules, period.number)} ended ${period.homeScore}-${period.awayScore}, which is not a valid set score; sets go to ${target} and must be won by ${rules.setWinMargin}`;
+    }
+    if (state === 'PLAYING' && (!last || status === GameStatus.FINISHED)) {
+      return `${periodLabel(rules, period.number)} at ${period.homeScore}-${period.awayScore} is not finished; sets go to ${target} and must be won by ${rules.setWinMargin}`;
+    }
+    home += state === 'HOME' ? 1 : 0;
+    away += state === 'AWAY' ? 1 : 0;
+  }
+  if (status === GameStatus.FINISHED && home !== needed && away !== needed) {
+    return `A finished ${rules.name} match must be won by ${needed} sets`;
+  }
+  return null;
+}
+
+/**
+ * Validates a period-by-period breakdown of a result against the sport's
+ * scoring format and derives the final score from it: the sum of the periods,
+ * or the sets won. Rugby periods are scored from their tries, conversions,
+ * penalty goals and drop goals. `raw` is the request's list of periods, in
+ * order.
+ */
+export function scoreResult(rules: ScoringRules, raw: unknown, status: GameStatus): ScoreOutcome {
+  if (rules.scoringFormat === ScoringFormat.TOTAL) {
+    return { error: `${rules.name} results only record the final score` };
+  }
+  if (rules.scoringFormat === ScoringFormat.BOARDS) {
+    return { error: `${rules.name} results are scored by board; send boards instead of periods` };
+  }
+  if (!Array.isArray(raw)) {
+    return { error: 'periods must be a list of period scores' };
+  }
+
+  const periods: PeriodScore[] = [];
+  for (const [index, entry] of raw.entries()) {
+    const period = parsePeriod(entry, rules, index + 1);
+    if (typeof period === 'string') {
+      return { error: period };
+    }
+    periods.push(period);
+  }
+
+  if (rules.scoringFormat === ScoringFormat.SETS) {
+    if (periods.length > rules.periodCount) {
+      return { error: `${rules.name} matches have at most ${rules.periodCount} sets` };
+    }
+    const error = checkSets(rules, periods, status);
+    if (error) {
+      return { error };
+    }
+    const states = periods.map((period) =>
+      setState(period.homeScore, period.awayScore, setTarget(rules, period.number), rules.setWinMargin)
+    );
+    return {
+      error: null,
+      homeScore: states.filter((state) => state === 'HOME').length,
+      awayScore: states.filter((state) => state === 'AWAY').length,
+      periods,
+    };
+  }
+
+  const error = checkPeriods(rules, periods, status);
+  if (error) {
+    return { error };
+  }
+  return {
+    error: null,
+    homeScore: periods.reduce((total, period) => total + period.homeScore, 0),
+    awayScore: periods.reduce((total, period) => total + period.awayScore, 0),
+    periods,
+  };
+}
+
+/**
+ * Validates the games of a chess match, board by board in order, and adds up
+ * the board points: 1 for a win and ½ each for a draw. Each game is an
+ * outcome from white's side ("1-0", "½-½" or "0-1", or null while it is
+ * being played) and optionally the athletes on the board. A finished match
+ * needs every board decided.
+ */
+export function scoreBoards(rules: ScoringRules, raw: unknown, status: GameStatus): BoardsOutcome {
+  if (rules.scoringFormat !== ScoringFormat.BOARDS) {
+    return { error: `${rules.name} results are not scored by board` };
+  }
+  if (!Array.isArray(raw) || raw.length > rules.periodCount) {
+    return { error: `boards must be a list of at most ${rules.periodCount} games` };
+  }
+
+  const boards: BoardScore[] = [];
+  for (const [index, entry] of raw.entries()) {
+    const board = index + 1;
+    const written = entry?.result ?? null;
+    const outcome = written === null ? null : boardOutcomes[String(written).replace(/\s/g, '').replace(/[–—]/g, '-')];
+    if (outcome === undefined) {
+      return { error: `Board ${board}: result must be 1-0, ½-½ or 0-1` };
+    }
+    const homeAthleteId = entry?.homeAthleteId ?? null;
+    const awayAthleteId = entry?.awayAthleteId ?? null;
+    if ((homeAthleteId !== null && typeof homeAthleteId !== 'string') || (awayAthleteId !== null && typeof awayAthleteId !== 'string')) {
+      return { error: `Board ${board}: homeAthleteId and awayAthleteId must be athlete IDs` };
+    }
+    boards.push({ board, homeAthleteId, awayAthleteId, outcome });
+  }
+
+  const decided = boards.filter((board) => board.outcome !== null);
+  if (status === GameStatus.FINISHED && decided.length < rules.periodCount) {
+    return { error: `A finished ${rules.name} match needs results on all ${rules.periodCount} boards` };
+  }
+  const homeScore = decided.reduce((sum, board) => sum + homeBoardPoints(board.board, board.outcome!), 0);
+  return { error: null, homeScore, awayScore: decided.length - homeScore, boards };
+}
+
+/**
+ * Checks a final score entered without periods. Set-based sports cannot win
+ * more sets than are needed, and a finished match needs a winner. Chess
+ * scores are whole or half board points, adding up to the boards played.
+ */
+export function checkFinalScore(rules: ScoringRules, homeScore: number, awayScore: number, status: GameStatus): string | null {
+  if (rules.scoringFormat === ScoringFormat.BOARDS) {
+    const played = homeScore + awayScore;
+    const halves = [homeScore, awayScore].every((score) => score >= 0 && Number.isInteger(score * 2));
+    if (!halves || played > rules.periodCount || (status === GameStatus.FINISHED && played !== rules.periodCount)) {
+      return `${rules.name} scores are board points in halves, adding up to at most ${rules.periodCount} (all ${rules.periodCount} once finished)`;
+    }
+    return null;
+  }
+  if (rules.scoringFormat !== ScoringFormat.SETS) {
+    return null;
+  }
+  const needed = setsToWin(rules);
+  if (homeScore > needed || awayScore > needed || (homeScore === needed && awayScore === needed)) {
+    return `${rules.name} matches are won by the first to ${needed} sets`;
+  }
+  if (status === GameStatus.FINISHED && homeScore !== needed && awayScore !== needed) {
+    return `A finished ${rules.name} match must be won by ${needed} sets`;
+  }
+  return null;
+}
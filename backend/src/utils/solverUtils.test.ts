@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SchedulingProblem, SolverFixture, SolverOptions, solveSchedule } from './solverUtils';
+import { VenueWithAvailability } from './venueUtils';
+
+vi.mock('../lib/prisma', () => ({ prisma: {} }));
+
+const sport = { id: 'football', name: 'Football', matchDurationMinutes: 90, minRestMinutes: 60 };
+
+const team = (id: string) => ({ id, name: id.toUpperCase(), sportId: 'football', universityId: `uni-${id}`, gender: 'MALE' });
+
+const fixture = (id: string, home: string, away: string, round = 1) =>
+  ({
+    id,
+    tournamentId: 't1',
+    sportId: 'football',
+    round,
+    homeTeamId: home,
+    awayTeamId: away,
+    homeTeam: team(home),
+    awayTeam: team(away),
+    homeTeamName: null,
+    awayTeamName: null,
+    date: null,
+    venueId: null,
+    venueName: null,
+    sport,
+    venue: null,
+    result: null,
+    officials: [],
+  }) as unknown as SolverFixture;
+
+const venue = (id: string) =>
+  ({
+    id,
+    name: id,
+    parentId: null,
+    opensAt: null,
+    closesAt: null,
+    sports: [],
+    unavailability: [],
+    parent: null,
+    areas: [],
+  }) as unknown as VenueWithAvailability;
+
+const options = (fields: Partial<SolverOptions> = {}): SolverOptions => ({
+  from: new Date('2024-12-16T08:00:00Z'),
+  to: new Date('2024-12-16T18:00:00Z'),
+  dayStart: '08:00',
+  dayEnd: '18:00',
+  slotMinutes: 60,
+  venueIds: null,
+  sharedAthletes: [],
+  prioritySlots: [],
+  ...fields,
+});
+
+const problem = (fixtures: SolverFixture[], venues: VenueWithAvailability[]): SchedulingProblem => ({
+  fixtures,
+  others: [],
+  venues,
+  errors: [],
+});
+
+const kickoffs = (plan: ReturnType<typeof solveSchedule>) =>
+  plan.scheduled.map((proposal) => [proposal.fixtureId, proposal.venueId, proposal.date.toISOString()]);
+
+beforeEach(() => {
+  process.env.TIME_ZONE = 'UTC';
+});
+
+afterEach(() => {
+  delete process.env.TIME_ZONE;
+});
+
+describe('solveSchedule', () => {
+  it('places each fixture at the earliest free slot of a venue', () => {
+    const plan = solveSchedule(problem([fixture('f1', 'a', 'b'), fixture('f2', 'c', 'd')], [venue('pitch-1')]), options());
+    expect(plan.unscheduled).toEqual([]);
+    expect(kickoffs(plan)).toEqual([
+      ['f1', 'pitch-1', '2024-12-16T08:00:00.000Z'],
+      ['f2', 'pitch-1', '2024-12-16T10:00:00.000Z'],
+    ]);
+  });
+
+  it('uses a second venue rather than waiting', () => {
+    const plan = solveSchedule(
+      problem([fixture('f1', 'a', 'b'), fixture('f2', 'c', 'd')], [venue('pitch-1'), venue('pitch-2')]),
+      options()
+    );
+    expect(kickoffs(plan)).toEqual([
+      ['f1', 'pitch-1', '2024-12-16T08:00:00.000Z'],
+      ['f2', 'pitch-2', '2024-12-16T08:00:00.000Z'],
+    ]);
+  });
+
+  it("leaves a team the sport's rest between its matches", () => {
+    const plan = solveSchedule(
+      problem([fixture('f1', 'a', 'b', 1), fixture('f2', 'a', 'c', 2)], [venue('pitch-1'), venue('pitch-2')]),
+      options()
+    );
+    // The first match ends at 09:30 and an hour's rest rules out 10:00
+    expect(kickoffs(plan)).toEqual([
+      ['f1', 'pitch-1', '2024-12-16T08:00:00.000Z'],
+      ['f2', 'pitch-1', '2024-12-16T11:00:00.000Z'],
+    ]);
+  });
+
+  it('returns the fixtures that fit nowhere with the reasons', () => {
+    const fixtures = [fixture('f1', 'a', 'b'), fixture('f2', 'c', 'd'), fixture('f3', 'e', 'f')];
+    const plan = solveSchedule(problem(fixtures, [venue('pitch-1')]), options({ to: new Date('2024-12-16T09:00:00Z') }));
+    expect(kickoffs(plan)).toEqual([['f1', 'pitch-1', '2024-12-16T08:00:00.000Z']]);
+    expect(plan.unscheduled).toEqual([
+      { fixtureId: 'f2', fixture: 'C v D (Football)', reasons: ['At 2 candidate kickoffs every suitable venue is booked'] },
+      { fixtureId: 'f3', fixture: 'E v F (Football)', reasons: ['At 2 candidate kickoffs every suitable venue is booked'] },
+    ]);
+  });
+
+  it('reports a sport no venue hosts', () => {
+    const netballCourt = { ...venue('court-1'), sports: [{ id: 'netball' }] } as VenueWithAvailability;
+    const plan = solveSchedule(problem([fixture('f1', 'a', 'b')], [netballCourt]), options());
+    expect(plan.unscheduled).toEqual([
+      { fixtureId: 'f1', fixture: 'A v B (Football)', reasons: ['No venue available to the solver hosts Football'] },
+    ]);
+  });
+});
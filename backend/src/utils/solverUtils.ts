@@ -0,0 +1,380 @@
+import { GameStatus, Prisma, Team, Tournament } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import {
+  ConflictType,
+  describeFixture,
+  detectConflicts,
+  isScheduled,
+  ScheduledFixture,
+  scheduledFixtureInclude,
+} from './scheduleUtils';
+import {
+  checkVenueAvailability,
+  venueAvailabilityInclude,
+  venueFamily,
+  venueSupportsSport,
+  VenueWithAvailability,
+} from './venueUtils';
+import { DAY_MINUTES, fromWallClock, isSameDay, minutesOfDayAt, startOfDay, toWallClock } from './timeUtils';
+
+export interface PrioritySlot {
+  fixtureId: string;
+  // The fixture kicks off at startsAt, or on any slot up to endsAt when given
+  startsAt: Date;
+  endsAt: Date | null;
+  venueId: string | null;
+  // Shown with the proposal, e.g. "TV"
+  label: string | null;
+}
+
+export interface SolverOptions {
+  // Earliest and latest kickoff
+  from: Date;
+  to: Date;
+  // Playing hours at venues without opening hours of their own, e.g. 08:00
+  dayStart: string;
+  dayEnd: string;
+  // Kickoffs fall on multiples of this many minutes past midnight
+  slotMinutes: number;
+  // Venues the solver may use; every venue when null
+  venueIds: string[] | null;
+  // Sets of sport IDs whose teams from the same university and gender share
+  // athletes, so may not play at the same time
+  sharedAthletes: string[][];
+  prioritySlots: PrioritySlot[];
+}
+
+export type SolverFixture = Prisma.FixtureGetPayload<{ include: typeof scheduledFixtureInclude }>;
+
+export interface SchedulingProblem {
+  fixtures: SolverFixture[];
+  // Fixtures already scheduled around the ones being placed
+  others: ScheduledFixture[];
+  venues: VenueWithAvailability[];
+  errors: string[];
+}
+
+export interface ProposedFixture {
+  fixtureId: string;
+  fixture: string;
+  date: Date;
+  venueId: string;
+  venue: string;
+  priority: string | null;
+  previous: { date: Date | null; venueId: string | null };
+}
+
+export interface UnschedulableFixture {
+  fixtureId: string;
+  fixture: string;
+  reasons: string[];
+}
+
+export interface SchedulePlan {
+  scheduled: ProposedFixture[];
+  unscheduled: UnschedulableFixture[];
+}
+
+type RejectionType = ConflictType | 'SHARED_ATHLETES';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const rejectionLabels: Record<RejectionType, string> = {
+  TEAM: 'a team is already playing',
+  REST: 'a team would not get enough rest',
+  SHARED_ATHLETES: "a university's athletes are playing another sport",
+  VENUE: 'every suitable venue is booked',
+  UNAVAILABLE: 'every suitable venue is closed or unavailable',
+  OFFICIAL: 'an assigned official is already officiating',
+};
+
+function minutesOfDay(value: string): number {
+  const [hours, minutes] = value.split(':');
+  return parseInt(hours) * 60 + parseInt(minutes);
+}
+
+function fixtureName(fixture: SolverFixture): string {
+  const home = fixture.homeTeam?.name ?? fixture.homeTeamName ?? 'TBD';
+  const away = fixture.awayTeam?.name ?? fixture.awayTeamName ?? 'TBD';
+  return `${home} v ${away} (${fixture.sport.name})`;
+}
+
+/**
+ * Loads the fixtures to schedule: the given ones, or every fixture of the
+ * tournament (and sport) without a kickoff. Also loads the fixtures already
+ * scheduled during the solver's window, which the proposal must fit around,
+ * and the venues it may use.
+ */
+export async function loadSchedulingProblem(
+  tournament: Tournament,
+  selection: { fixtureIds: string[] | null; sportId: string | null },
+  options: SolverOptions
+): Promise<SchedulingProblem> {
+  const errors: string[] = [];
+
+  const fixtures = await prisma.fixture.findMany({
+    where: selection.fixtureIds
+      ? { id: { in: selection.fixtureIds } }
+      : { tournamentId: tournament.id, sportId: selection.sportId ?? undefined, date: null },
+    include: scheduledFixtureInclude,
+    orderBy: [{ round: 'asc' }, { groupId: 'asc' }, { createdAt: 'asc' }],
+  });
+  if (selection.fixtureIds) {
+    const found = new Set(fixtures.map((fixture) => fixture.id));
+    for (const id of new Set(selection.fixtureIds)) {
+      if (!found.has(id)) {
+        errors.push(`Fixture ${id} not found`);
+      }
+    }
+  }
+  for (const fixture of fixtures) {
+    const status = fixture.result?.status;
+    if (fixture.tournamentId !== tournament.id) {
+      errors.push(`${fixtureName(fixture)} is not part of this tournament`);
+    } else if (status === GameStatus.IN_PROGRESS || status === GameStatus.FINISHED) {
+      errors.push(`${fixtureName(fixture)} has already been played`);
+    }
+  }
+
+  const selected = new Set(fixtures.map((fixture) => fixture.id));
+  for (const slot of options.prioritySlots) {
+    if (!selected.has(slot.fixtureId)) {
+      errors.push(`Priority slot fixture ${slot.fixtureId} is not among the fixtures being scheduled`);
+    }
+  }
+
+  const venues = await prisma.venue.findMany({
+    where: options.venueIds ? { id: { in: options.venueIds } } : undefined,
+    include: venueAvailabilityInclude,
+    orderBy: { name: 'asc' },
+  });
+  const venueIds = new Set(venues.map((venue) => venue.id));
+  const requested = [
+    ...(options.venueIds ?? []),
+    ...options.prioritySlots.flatMap((slot) => (slot.venueId ? [slot.venueId] : [])),
+  ];
+  for (const id of new Set(requested)) {
+    if (!venueIds.has(id)) {
+      errors.push(`Venue ${id} not found${options.venueIds ? ' among the venues to use' : ''}`);
+    }
+  }
+
+  const others = await prisma.fixture.findMany({
+    where: {
+      id: { notIn: [...selected] },
+      date: { gte: new Date(options.from.getTime() - DAY), lte: new Date(options.to.getTime() + DAY) },
+    },
+    include: scheduledFixtureInclude,
+  });
+
+  return { fixtures, others: others.filter(isScheduled), venues, errors };
+}
+
+/**
+ * Proposes a kickoff and venue for each fixture. Fixtures with a priority
+ * slot are placed first, then the rest round by round, the ones with the
+ * fewest suitable venues first. Each takes the earliest slot where its venue
+ * is open and free, neither team is playing or still resting, its officials
+ * are not officiating elsewhere, and no team sharing athletes with its teams
+ * is playing. Fixtures that fit nowhere are
+ * returned with the reasons their candidate slots were rejected.
+ */
+export function solveSchedule(problem: SchedulingProblem, options: SolverOptions): SchedulePlan {
+  const byTeam = new Map<string, ScheduledFixture[]>();
+  const byVenue = new Map<string, ScheduledFixture[]>();
+  const bySquad = new Map<string, ScheduledFixture[]>();
+  const byOfficial = new Map<string, ScheduledFixture[]>();
+
+  // Teams of one university and gender in sports that share athletes form a squad
+  const squadKeys = (teams: (Team | null)[]): string[] =>
+    teams.flatMap((team) => {
+      if (!team) {
+        return [];
+      }
+      const set = options.sharedAthletes.findIndex((sportIds) => sportIds.includes(team.sportId));
+      return set === -1 ? [] : [`${team.universityId}:${team.gender}:${set}`];
+    });
+
+  const add = (index: Map<string, ScheduledFixture[]>, key: string, fixture: ScheduledFixture) => {
+    index.set(key, [...(index.get(key) ?? []), fixture]);
+  };
+  const book = (fixture: ScheduledFixture) => {
+    for (const teamId of [fixture.homeTeamId, fixture.awayTeamId]) {
+      if (teamId) {
+        add(byTeam, teamId, fixture);
+      }
+    }
+    if (fixture.venueId) {
+      add(byVenue, fixture.venueId, fixture);
+    }
+    for (const key of squadKeys([fixture.homeTeam, fixture.awayTeam])) {
+      add(bySquad, key, fixture);
+    }
+    for (const { officialId } of fixture.officials) {
+      add(byOfficial, officialId, fixture);
+    }
+  };
+  problem.others.forEach(book);
+
+  const kickoffs = (from: Date, to: Date): Date[] => {
+    const times: Date[] = [];
+    const first = toWallClock(startOfDay(from));
+    for (let day = first.day; fromWallClock({ ...first, day }) <= to; day++) {
+      for (let minutes = 0; minutes < DAY_MINUTES; minutes += options.slotMinutes) {
+        const time = fromWallClock({ ...first, day, minutes });
+        if (time >= from && time <= to) {
+          times.push(time);
+        }
+      }
+    }
+    return times;
+  };
+  const allKickoffs = kickoffs(options.from, options.to);
+
+  const withinPlayingHours = (venue: VenueWithAvailability, start: Date, end: Date) => {
+    if ((venue.opensAt ?? venue.parent?.opensAt) && (venue.closesAt ?? venue.parent?.closesAt)) {
+      // checkVenueAvailability applies the venue's own hours
+      return true;
+    }
+    const startMinutes = minutesOfDayAt(start);
+    const endMinutes = isSameDay(start, end) ? minutesOfDayAt(end) : DAY_MINUTES;
+    return startMinutes >= minutesOfDay(options.dayStart) && endMinutes <= minutesOfDay(options.dayEnd);
+  };
+
+  const priorities = new Map(options.prioritySlots.map((slot) => [slot.fixtureId, slot]));
+  const venueChoices = new Map(
+    problem.fixtures.map((fixture) => {
+      const slot = priorities.get(fixture.id);
+      const venues = problem.venues.filter(
+        (venue) => (slot?.venueId ? venue.id === slot.venueId : true) && venueSupportsSport(venue, fixture.sportId)
+      );
+      return [fixture.id, venues];
+    })
+  );
+
+  const order = [...problem.fixtures].sort((a, b) => {
+    const slotA = priorities.get(a.id);
+    const slotB = priorities.get(b.id);
+    if (slotA || slotB) {
+      return !slotA ? 1 : !slotB ? -1 : slotA.startsAt.getTime() - slotB.startsAt.getTime();
+    }
+    return (a.round ?? 0) - (b.round ?? 0) || venueChoices.get(a.id)!.length - venueChoices.get(b.id)!.length;
+  });
+
+  const plan: SchedulePlan = { scheduled: [], unscheduled: [] };
+
+  for (const fixture of order) {
+    const slot = priorities.get(fixture.id);
+    const venues = venueChoices.get(fixture.id)!;
+    const rejections = new Map<RejectionType, number>();
+    const reject = (type: RejectionType) => rejections.set(type, (rejections.get(type) ?? 0) + 1);
+
+    let times = allKickoffs;
+    if (slot) {
+      times = slot.endsAt ? kickoffs(slot.startsAt, slot.endsAt) : [slot.startsAt];
+    }
+
+    if (!venues.length || !times.length) {
+      plan.unscheduled.push({
+        fixtureId: fixture.id,
+        fixture: fixtureName(fixture),
+        reasons: [
+          !venues.length ? `No venue available to the solver hosts ${fixture.sport.name}` : 'The priority slot has no kickoff times',
+        ],
+      });
+      continue;
+    }
+
+    const officialIds = fixture.officials.map((assignment) => assignment.officialId);
+    const teamFixtures = [
+      ...[fixture.homeTeamId, fixture.awayTeamId].flatMap((id) => (id ? byTeam.get(id) ?? [] : [])),
+      ...officialIds.flatMap((id) => byOfficial.get(id) ?? []),
+    ];
+    const squadFixtures = squadKeys([fixture.homeTeam, fixture.awayTeam]).flatMap((key) => bySquad.get(key) ?? []);
+    let placed: ScheduledFixture | null = null;
+
+    for (const time of times) {
+      const start = time.getTime();
+      const end = start + fixture.sport.matchDurationMinutes * MINUTE;
+      const teamSlot = { ...fixture, date: time, venueId: null, venueName: null, officialIds };
+
+      const teamConflict = detectConflicts(teamSlot, fixture.sport, teamFixtures)[0];
+      if (teamConflict) {
+        reject(teamConflict.type);
+        continue;
+      }
+      const sharesAthletes = squadFixtures.some((other) => {
+        const otherStart = other.date.getTime();
+        const otherEnd = otherStart + other.sport.matchDurationMinutes * MINUTE;
+        const rest = Math.max(fixture.sport.minRestMinutes, other.sport.minRestMinutes) * MINUTE;
+        const status = other.result?.status;
+        return (
+          other.id !== fixture.id &&
+          status !== GameStatus.CANCELLED &&
+          status !== GameStatus.POSTPONED &&
+          start < otherEnd + rest &&
+          otherStart < end + rest
+        );
+      });
+      if (sharesAthletes) {
+        reject('SHARED_ATHLETES');
+        continue;
+      }
+
+      for (const venue of venues) {
+        const family = venueFamily(venue);
+        const endDate = new Date(end);
+        if (!withinPlayingHours(venue, time, endDate) || checkVenueAvailability(venue, time, endDate).length) {
+          reject('UNAVAILABLE');
+          continue;
+        }
+        const venueFixtures = family.flatMap((id) => byVenue.get(id) ?? []);
+        const venueSlot = { ...teamSlot, venueId: venue.id };
+        if (detectConflicts(venueSlot, fixture.sport, venueFixtures, family).length) {
+          reject('VENUE');
+          continue;
+        }
+        placed = { ...fixture, date: time, venueId: venue.id, venue };
+        break;
+      }
+      if (placed) {
+        break;
+      }
+    }
+
+    if (!placed) {
+      const reasons = [...rejections.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .map(([type, count]) => `At ${count} candidate kickoff${count === 1 ? '' : 's'} ${rejectionLabels[type]}`);
+      plan.unscheduled.push({ fixtureId: fixture.id, fixture: fixtureName(fixture), reasons });
+      continue;
+    }
+
+    book(placed);
+    plan.scheduled.push({
+      fixtureId: fixture.id,
+      fixture: describeFixture(placed),
+      date: placed.date,
+      venueId: placed.venueId!,
+      venue: placed.venue!.name,
+      priority: slot?.label ?? null,
+      previous: { date: fixture.date, venueId: fixture.venueId },
+    });
+  }
+
+  plan.scheduled.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return plan;
+}
+
+// Writes the proposed kickoffs and venues in one transaction
+export async function applySchedulePlan(plan: SchedulePlan): Promise<void> {
+  await prisma.$transaction(
+    plan.scheduled.map((proposal) =>
+      prisma.fixture.update({
+        where: { id: proposal.fixtureId },
+        data: { date: proposal.date, venueId: proposal.venueId, venueName: null },
+      })
+    )
+  );
+}
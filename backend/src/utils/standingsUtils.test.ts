@@ -0,0 +1,123 @@
+import { GameStatus, ScoringFormat, StandingsTiebreak } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../lib/prisma';
+import { computeStandings, getStandings, MatchScore } from './standingsUtils';
+
+vi.mock('../lib/prisma', () => ({
+  prisma: { sport: { findUnique: vi.fn() }, group: { findMany: vi.fn() }, fixture: { findMany: vi.fn() } },
+}));
+
+const teams = ['Kenyatta', 'Moi', 'Strathmore', 'Makerere'].map((name, index) => ({
+  id: `t${index + 1}`,
+  name,
+  universityId: `u${index + 1}`,
+}));
+
+const match = (home: number, away: number, homeScore: number, awayScore: number): MatchScore => ({
+  homeTeamId: `t${home}`,
+  awayTeamId: `t${away}`,
+  homeScore,
+  awayScore,
+});
+
+const scheme = (standingsTiebreak: StandingsTiebreak) => ({ pointsForWin: 3, pointsForDraw: 1, pointsForLoss: 0, standingsTiebreak });
+
+const order = (rows: { team: { name: string } }[]) => rows.map((row) => row.team.name);
+
+describe('computeStandings', () => {
+  it('records results and points', () => {
+    const [first, , , last] = computeStandings(teams, [match(1, 2, 2, 0), match(3, 4, 1, 1), match(1, 3, 0, 0)], scheme(StandingsTiebreak.DIFFERENCE));
+    expect(first).toMatchObject({ team: { name: 'Kenyatta' }, played: 2, won: 1, drawn: 1, lost: 0, for: 2, against: 0, difference: 2, points: 4 });
+    expect(last).toMatchObject({ team: { name: 'Moi' }, played: 1, lost: 1, points: 0 });
+  });
+
+  it('orders teams level on points by difference, then scores for, then name', () => {
+    const rows = computeStandings(teams, [match(1, 2, 3, 0), match(3, 4, 5, 3), match(2, 4, 1, 0)], scheme(StandingsTiebreak.DIFFERENCE));
+    expect(order(rows)).toEqual(['Kenyatta', 'Strathmore', 'Moi', 'Makerere']);
+    expect(order(computeStandings(teams, [], scheme(StandingsTiebreak.DIFFERENCE)))).toEqual([
+      'Kenyatta',
+      'Makerere',
+      'Moi',
+      'Strathmore',
+    ]);
+  });
+
+  it('orders by ratio, with a team yet to concede above any ratio', () => {
+    const rows = computeStandings(teams, [match(1, 2, 3, 1), match(3, 4, 3, 2), match(2, 4, 3, 0)], scheme(StandingsTiebreak.RATIO));
+    expect(rows.map((row) => [row.team.name, row.ratio])).toEqual([
+      ['Kenyatta', 3],
+      ['Strathmore', 1.5],
+      ['Moi', 4 / 3],
+      ['Makerere', 2 / 6],
+    ]);
+    const unbeaten = computeStandings(teams, [match(1, 2, 1, 0), match(3, 4, 3, 1)], scheme(StandingsTiebreak.RATIO));
+    expect(unbeaten[0]).toMatchObject({ team: { name: 'Kenyatta' }, ratio: null });
+  });
+
+  it('breaks Swiss ties by Buchholz, then Sonneborn-Berger, and scores byes as wins', () => {
+    const chess = { pointsForWin: 1, pointsForDraw: 0.5, pointsForLoss: 0, standingsTiebreak: StandingsTiebreak.BUCHHOLZ };
+    const table = (matches: MatchScore[], byeFor: string) =>
+      computeStandings(teams, matches, chess, [{ teamId: byeFor, score: 4 }]).map((row) => [
+        row.team.name,
+        row.points,
+        row.buchholz,
+        row.sonnebornBerger,
+      ]);
+
+    const rounds = [match(1, 2, 3, 1), match(3, 4, 2, 2), match(1, 3, 1, 3)];
+    expect(table(rounds, 't2')).toEqual([
+      ['Strathmore', 1.5, 1.5, 1.25],
+      ['Kenyatta', 1, 2.5, 1],
+      ['Moi', 1, 1, 0],
+      ['Makerere', 0.5, 1.5, 0.75],
+    ]);
+    expect(table([...rounds, match(2, 4, 2.5, 1.5)], 't4')).toEqual([
+      ['Strathmore', 1.5, 2.5, 1.75],
+      ['Makerere', 1.5, 2.5, 0.75],
+      ['Moi', 1, 2.5, 1.5],
+      ['Kenyatta', 1, 2.5, 1],
+    ]);
+  });
+});
+
+describe('getStandings', () => {
+  const sport = { id: 'football', scoringFormat: ScoringFormat.PERIODS, periodCount: 2, ...scheme(StandingsTiebreak.DIFFERENCE) };
+  const fixture = (status: GameStatus) => ({
+    groupId: 'g1',
+    homeTeamId: 't1',
+    awayTeamId: 't2',
+    homeTeam: teams[0],
+    awayTeam: teams[1],
+    result: { status, homeScore: 1, awayScore: 0 },
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(prisma.sport.findUnique).mockResolvedValue(sport as never);
+    vi.mocked(prisma.group.findMany).mockResolvedValue([{ id: 'g1', name: 'A', teams: teams.slice(0, 2) }] as never);
+    vi.mocked(prisma.fixture.findMany).mockResolvedValue([fixture(GameStatus.IN_PROGRESS)] as never);
+  });
+
+  it('counts only finished matches unless live', async () => {
+    const [table] = await getStandings({ sportId: 'football' });
+    expect(table.group).toEqual({ id: 'g1', name: 'A' });
+    expect(table.standings.every((row) => row.played === 0)).toBe(true);
+
+    const [live] = await getStandings({ sportId: 'football', live: true });
+    expect(live.standings[0]).toMatchObject({ team: { name: 'Kenyatta' }, played: 1, points: 3 });
+  });
+
+  it('ranks ungrouped fixtures in one table per gender category', async () => {
+    vi.mocked(prisma.group.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.fixture.findMany).mockResolvedValue([
+      { ...fixture(GameStatus.FINISHED), groupId: null, gender: 'MALE' },
+      { ...fixture(GameStatus.FINISHED), groupId: null, gender: 'FEMALE', homeTeamId: 't3', homeTeam: teams[2] },
+    ] as never);
+
+    const tables = await getStandings({ sportId: 'football' });
+    expect(tables.map((table) => [table.group, table.gender, table.standings.length])).toEqual([
+      [null, 'MALE', 2],
+      [null, 'FEMALE', 2],
+    ]);
+  });
+});
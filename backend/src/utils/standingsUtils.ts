@@ -0,0 +1,291 @@
+import { Gender, GameStatus, Prisma, ScoringFormat, Sport, StandingsTiebreak } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export interface StandingsFilter {
+  sportId: string;
+  tournamentId?: string;
+  gender?: Gender;
+  groupId?: string;
+  // Count matches still in progress as if they ended with the current score
+  live?: boolean;
+}
+
+export interface StandingsTeam {
+  id: string;
+  name: string;
+  universityId: string;
+}
+
+export interface StandingsRow {
+  team: StandingsTeam;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  for: number;
+  against: number;
+  difference: number;
+  ratio: number | null;
+  points: number;
+  // Set by the BUCHHOLZ tiebreak: the points of every opponent played, and
+  // of those beaten plus half of those drawn with
+  buchholz?: number;
+  sonnebornBerger?: number;
+}
+
+export interface StandingsTable {
+  group: { id: string; name: string } | null;
+  gender: Gender;
+  standings: StandingsRow[];
+}
+
+export interface MatchScore {
+  homeTeamId: string;
+  awayTeamId: string;
+  homeScore: number;
+  awayScore: number;
+}
+
+// A round a team sat out in a Swiss event, scored as a win
+export interface MatchBye {
+  teamId: string;
+  score: number;
+}
+
+// A Swiss round a team sat out: a group fixture without an opponent
+export const byeFixtureWhere = {
+  groupId: { not: null },
+  homeTeamId: { not: null },
+  awayTeamId: null,
+  awayTeamName: null,
+  bracketMatch: { is: null },
+} satisfies Prisma.FixtureWhereInput;
+
+type PointsScheme = Pick<Sport, 'pointsForWin' | 'pointsForDraw' | 'pointsForLoss' | 'standingsTiebreak'>;
+
+function toStandingsTeam({ id, name, universityId }: StandingsTeam): StandingsTeam {
+  return { id, name, universityId };
+}
+
+function emptyRow(team: StandingsTeam): StandingsRow {
+  return { team, played: 0, won: 0, drawn: 0, lost: 0, for: 0, against: 0, difference: 0, ratio: null, points: 0 };
+}
+
+function record(row: StandingsRow, scored: number, conceded: number, scheme: PointsScheme) {
+  row.played++;
+  row.for += scored;
+  row.against += conceded;
+  if (scored > conceded) {
+    row.won++;
+    row.points += scheme.pointsForWin;
+  } else if (scored < conceded) {
+    row.lost++;
+    row.points += scheme.pointsForLoss;
+  } else {
+    row.drawn++;
+    row.points += scheme.pointsForDraw;
+  }
+}
+
+// 1 for a win, ½ for a draw and 0 for a loss
+function matchResult(scored: number, conceded: number): number {
+  return scored > conceded ? 1 : scored === conceded ? 0.5 : 0;
+}
+
+// Sums each team's opponents' points (Buchholz), and weights them by the
+// result against each opponent (Sonneborn-Berger)
+function addOpponentScores(rows: Map<string, StandingsRow>, matches: MatchScore[]) {
+  for (const row of rows.values()) {
+    row.buchholz = 0;
+    row.sonnebornBerger = 0;
+  }
+  for (const match of matches) {
+    const home = rows.get(match.homeTeamId);
+    const away = rows.get(match.awayTeamId);
+    if (!home || !away) {
+      continue;
+    }
+    home.buchholz! += away.points;
+    away.buchholz! += home.points;
+    home.sonnebornBerger! += away.points * matchResult(match.homeScore, match.awayScore);
+    away.sonnebornBerger! += home.points * matchResult(match.awayScore, match.homeScore);
+  }
+}
+
+/**
+ * Builds a league table from match scores and byes. Teams level on points are
+ * ordered by score difference or by scored/conceded ratio depending on the
+ * sport, then by scores for, then by name. The BUCHHOLZ tiebreak orders them
+ * by Buchholz, then Sonneborn-Berger, then scores for (board points in
+ * chess); a bye adds nothing to either.
+ */
+export function computeStandings(
+  teams: StandingsTeam[],
+  matches: MatchScore[],
+  scheme: PointsScheme,
+  byes: MatchBye[] = []
+): StandingsRow[] {
+  const rows = new Map(teams.map((team) => [team.id, emptyRow(toStandingsTeam(team))]));
+
+  for (const match of matches) {
+    const home = rows.get(match.homeTeamId);
+    const away = rows.get(match.awayTeamId);
+    if (!home || !away) {
+      continue;
+    }
+    record(home, match.homeScore, match.awayScore, scheme);
+    record(away, match.awayScore, match.homeScore, scheme);
+  }
+  for (const bye of byes) {
+    const row = rows.get(bye.teamId);
+    if (row) {
+      record(row, bye.score, 0, scheme);
+    }
+  }
+
+  for (const row of rows.values()) {
+    row.difference = row.for - row.against;
+    row.ratio = row.against ? row.for / row.against : null;
+  }
+
+  if (scheme.standingsTiebreak === StandingsTiebreak.BUCHHOLZ) {
+    addOpponentScores(rows, matches);
+    return [...rows.values()].sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.buchholz! - a.buchholz! ||
+        b.sonnebornBerger! - a.sonnebornBerger! ||
+        b.for - a.for ||
+        a.team.name.localeCompare(b.team.name)
+    );
+  }
+
+  // A team that scored without conceding has no ratio but ranks above any ratio
+  const tiebreak = (row: StandingsRow) =>
+    scheme.standingsTiebreak === StandingsTiebreak.RATIO
+      ? row.ratio ?? (row.for ? Infinity : 0)
+      : row.difference;
+
+  return [...rows.values()].sort(
+    (a, b) =>
+      b.points - a.points ||
+      tiebreak(b) - tiebreak(a) ||
+      b.for - a.for ||
+      a.team.name.localeCompare(b.team.name)
+  );
+}
+
+/**
+ * Loads the league tables for a sport, one per group. Fixtures outside any
+ * group are ranked together in a table without a group, one per gender
+ * category so men's and women's teams are never mixed.
+ */
+export async function getStandings(filter: StandingsFilter): Promise<StandingsTable[]> {
+  const sport = await prisma.sport.findUnique({ where: { id: filter.sportId } });
+  if (!sport) {
+    return [];
+  }
+
+  const statuses: GameStatus[] = filter.live
+    ? [GameStatus.FINISHED, GameStatus.IN_PROGRESS]
+    : [GameStatus.FINISHED];
+
+  const where: Prisma.FixtureWhereInput = {
+    sportId: filter.sportId,
+    tournamentId: filter.tournamentId,
+    gender: filter.gender,
+    groupId: filter.groupId,
+    homeTeamId: { not: null },
+    awayTeamId: { not: null },
+    // Knockout matches never count towards a league table
+    bracketMatch: { is: null },
+  };
+
+  const [groups, fixtures, byes] = await Promise.all([
+    prisma.group.findMany({
+      where: {
+        id: filter.groupId,
+        sportId: filter.sportId,
+        tournamentId: filter.tournamentId,
+        gender: filter.gender,
+      },
+      include: { teams: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.fixture.findMany({
+      where,
+      include: { homeTeam: true, awayTeam: true, result: true },
+    }),
+    // Only chess is paired Swiss; a bye scores every board
+    sport.scoringFormat === ScoringFormat.BOARDS
+      ? prisma.fixture.findMany({
+          where: { ...byeFixtureWhere, sportId: filter.sportId, tournamentId: filter.tournamentId, gender: filter.gender, groupId: filter.groupId },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const tables: StandingsTable[] = groups.map((group) => {
+    const groupFixtures = fixtures.filter((fixture) => fixture.groupId === group.id);
+    const groupByes = byes
+      .filter((bye) => bye.groupId === group.id)
+      .map((bye): MatchBye => ({ teamId: bye.homeTeamId!, score: sport.periodCount }));
+    return {
+      group: { id: group.id, name: group.name },
+      gender: group.gender,
+      standings: computeStandings(group.teams, toMatchScores(groupFixtures, statuses), sport, groupByes),
+    };
+  });
+
+  const ungrouped = filter.groupId ? [] : fixtures.filter((fixture) => !fixture.groupId);
+  for (const gender of Object.values(Gender)) {
+    const genderFixtures = ungrouped.filter((fixture) => fixture.gender === gender);
+    if (!genderFixtures.length) {
+      continue;
+    }
+    const teams = new Map<string, StandingsTeam>();
+    for (const fixture of genderFixtures) {
+      teams.set(fixture.homeTeam!.id, fixture.homeTeam!);
+      teams.set(fixture.awayTeam!.id, fixture.awayTeam!);
+    }
+    tables.push({
+      group: null,
+      gender,
+      standings: computeStandings([...teams.values()], toMatchScores(genderFixtures, statuses), sport),
+    });
+  }
+
+  return tables;
+}
+
+function toMatchScores(
+  fixtures: Prisma.FixtureGetPayload<{ include: { result: true } }>[],
+  statuses: GameStatus[]
+): MatchScore[] {
+  return fixtures
+    .filter((fixture) => fixture.result && statuses.includes(fixture.result.status))
+    .map((fixture) => ({
+      homeTeamId: fixture.homeTeamId!,
+      awayTeamId: fixture.awayTeamId!,
+      homeScore: fixture.result!.homeScore,
+      awayScore: fixture.result!.awayScore,
+    }));
+}
+
+/**
+ * Loads the tables of the sport, tournament and gender category a fixture
+ * counts towards, exactly as GET /api/standings returns them for those
+ * filters: every group, and only finished matches.
+ */
+export async function getStandingsForFixture(fixtureId: string) {
+  const fixture = await prisma.fixture.findUnique({ where: { id: fixtureId } });
+  if (!fixture) {
+    return null;
+  }
+
+  const filter: StandingsFilter = {
+    sportId: fixture.sportId,
+    tournamentId: fixture.tournamentId ?? undefined,
+    gender: fixture.gender,
+  };
+  return { ...filter, tables: await getStandings(filter) };
+}
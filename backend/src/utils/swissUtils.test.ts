@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { pairSwissRound, SwissEntrant } from './swissUtils';
+
+vi.mock('../lib/prisma', () => ({ prisma: {} }));
+
+const entrant = (teamId: string, fields: Partial<SwissEntrant> = {}): SwissEntrant => ({
+  teamId,
+  points: 0,
+  colours: [],
+  opponents: [],
+  hadBye: false,
+  ...fields,
+});
+
+describe('pairSwissRound', () => {
+  it('pairs the first round top half against bottom half, alternating colours', () => {
+    const entrants = ['a', 'b', 'c', 'd'].map((teamId) => entrant(teamId));
+    expect(pairSwissRound(entrants)).toEqual([
+      { homeTeamId: 'a', awayTeamId: 'c' },
+      { homeTeamId: 'd', awayTeamId: 'b' },
+    ]);
+  });
+
+  it('gives the bye to the lowest-ranked team that has not had one', () => {
+    const entrants = [entrant('a'), entrant('b'), entrant('c', { hadBye: true })];
+    expect(pairSwissRound(entrants)).toEqual([
+      { homeTeamId: 'a', awayTeamId: 'c' },
+      { homeTeamId: 'b', awayTeamId: null },
+    ]);
+  });
+
+  it('pairs equal scores without rematches and gives each team the colour it is due', () => {
+    const entrants = [
+      entrant('a', { points: 1, colours: ['WHITE'], opponents: ['c'] }),
+      entrant('b', { points: 1, colours: ['BLACK'], opponents: ['d'] }),
+      entrant('c', { colours: ['BLACK'], opponents: ['a'] }),
+      entrant('d', { colours: ['WHITE'], opponents: ['b'] }),
+    ];
+    expect(pairSwissRound(entrants)).toEqual([
+      { homeTeamId: 'b', awayTeamId: 'a' },
+      { homeTeamId: 'c', awayTeamId: 'd' },
+    ]);
+  });
+
+  it('returns null when every pairing would repeat a match', () => {
+    const entrants = [entrant('a', { opponents: ['b'] }), entrant('b', { opponents: ['a'] })];
+    expect(pairSwissRound(entrants)).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+import { Group } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getStandings } from './standingsUtils';
+
+export type Colour = 'WHITE' | 'BLACK';
+
+export interface SwissEntrant {
+  teamId: string;
+  points: number;
+  // Colours on board 1 in earlier rounds, in order; the home team has white
+  colours: Colour[];
+  opponents: string[];
+  hadBye: boolean;
+}
+
+export interface SwissPairing {
+  homeTeamId: string;
+  // Unset for the team given the bye
+  awayTeamId: string | null;
+}
+
+interface ColourPreference {
+  colour: Colour | null;
+  strength: number;
+}
+
+// Enough for any realistic section; beyond it no pairing is taken to exist
+const MAX_STEPS = 100000;
+
+const otherColour = (colour: Colour): Colour => (colour === 'WHITE' ? 'BLACK' : 'WHITE');
+
+/**
+ * The colour a team is due and how strongly: absolutely (3) after two more
+ * games with one colour or the same colour twice running, strongly (2) after
+ * one more, mildly (1) to alternate, and not at all (0) before playing.
+ */
+function colourPreference(colours: Colour[]): ColourPreference {
+  const whites = colours.filter((colour) => colour === 'WHITE').length;
+  const difference = whites - (colours.length - whites);
+  const last = colours[colours.length - 1];
+  if (Math.abs(difference) > 1) {
+    return { colour: difference > 0 ? 'BLACK' : 'WHITE', strength: 3 };
+  }
+  if (last && last === colours[colours.length - 2]) {
+    return { colour: otherColour(last), strength: 3 };
+  }
+  if (difference !== 0) {
+    return { colour: difference > 0 ? 'BLACK' : 'WHITE', strength: 2 };
+  }
+  return last ? { colour: otherColour(last), strength: 1 } : { colour: null, strength: 0 };
+}
+
+// Both teams absolutely due the same colour, so one must go without
+function coloursClash(a: SwissEntrant, b: SwissEntrant): boolean {
+  const [first, second] = [colourPreference(a.colours), colourPreference(b.colours)];
+  return first.strength === 3 && second.strength === 3 && first.colour === second.colour;
+}
+
+/**
+ * Gives white (home) to the team due it. When both are due the same colour
+ * the stronger preference wins, then the higher-ranked team `a`. Without any
+ * preference, as in the first round, colours alternate down the tables.
+ */
+function allocateColours(a: SwissEntrant, b: SwissEntrant, table: number): SwissPairing {
+  const [first, second] = [colourPreference(a.colours), colourPreference(b.colours)];
+  let aWhite: boolean;
+  if (first.colour && first.colour !== second.colour) {
+    aWhite = first.colour === 'WHITE';
+  } else if (second.colour && second.colour !== first.colour) {
+    aWhite = second.colour === 'BLACK';
+  } else if (first.colour) {
+    // Both are due the same colour
+    const aGetsIt = first.strength >= second.strength;
+    aWhite = aGetsIt === (first.colour === 'WHITE');
+  } else {
+    aWhite = table % 2 === 0;
+  }
+  return aWhite ? { homeTeamId: a.teamId, awayTeamId: b.teamId } : { homeTeamId: b.teamId, awayTeamId: a.teamId };
+}
+
+/**
+ * Pairs teams ranked best first, each with an opponent it has not met. The
+ * top team takes the nearest score it can, avoiding colour clashes, and
+ * prefers the team halfway down its score group (1 v 5 in a group of eight).
+ * When that leaves the rest unpairable it tries its next choice.
+ */
+function pairTeams(teams: SwissEntrant[], steps: { count: number }): [SwissEntrant, SwissEntrant][] | null {
+  if (!teams.length) {
+    return [];
+  }
+  if (++steps.count > MAX_STEPS) {
+    return null;
+  }
+  const [top, ...rest] = teams;
+  const groupSize = rest.filter((team) => team.points === top.points).length + 1;
+  const ideal = Math.floor(groupSize / 2) - 1;
+  const candidates = rest
+    .map((team, index) => ({ team, index }))
+    .filter(({ team }) => !top.opponents.includes(team.teamId))
+    .sort(
+      (a, b) =>
+        Math.abs(top.points - a.team.points) - Math.abs(top.points - b.team.points) ||
+        Number(coloursClash(top, a.team)) - Number(coloursClash(top, b.team)) ||
+        Math.abs(a.index - ideal) - Math.abs(b.index - ideal)
+    );
+
+  for (const { team } of candidates) {
+    const others = pairTeams(rest.filter((other) => other !== team), steps);
+    if (others) {
+      return [[top, team], ...others];
+    }
+    if (steps.count > MAX_STEPS) {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pairs the next round of a Swiss event from teams ranked best first, so no
+ * two teams meet twice and colours stay balanced. With an odd number of teams
+ * the lowest-ranked team that has not had a bye sits the round out. Returns
+ * null when every pairing would repeat a match.
+ */
+export function pairSwissRound(entrants: SwissEntrant[]): SwissPairing[] | null {
+  const steps = { count: 0 };
+  let byes: (SwissEntrant | null)[] = [null];
+  if (entrants.length % 2 === 1) {
+    const lowestFirst = [...entrants].reverse();
+    const due = lowestFirst.filter((entrant) => !entrant.hadBye);
+    byes = due.length ? due : lowestFirst;
+  }
+
+  for (const bye of byes) {
+    const pairs = pairTeams(entrants.filter((entrant) => entrant !== bye), steps);
+    if (pairs) {
+      const pairings = pairs.map(([a, b], table) => allocateColours(a, b, table));
+      return bye ? [...pairings, { homeTeamId: bye.teamId, awayTeamId: null }] : pairings;
+    }
+    if (steps.count > MAX_STEPS) {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Loads a group's teams for pairing, ranked as in its standings, with the
+ * colours, opponents and byes of the rounds so far. Before the first round
+ * they can be seeded in a given order instead.
+ */
+export async function getSwissEntrants(group: Group, seeding?: string[]): Promise<SwissEntrant[]> {
+  const [fixtures, tables] = await Promise.all([
+    prisma.fixture.findMany({ where: { groupId: group.id, homeTeamId: { not: null } }, orderBy: { round: 'asc' } }),
+    getStandings({ sportId: group.sportId, tournamentId: group.tournamentId, gender: group.gender, groupId: group.id }),
+  ]);
+  const standings = tables[0]?.standings ?? [];
+  const order = seeding ?? standings.map((row) => row.team.id);
+
+  return order.map((teamId) => {
+    const played = fixtures.filter((fixture) => fixture.homeTeamId === teamId || fixture.awayTeamId === teamId);
+    const games = played.filter((fixture) => fixture.awayTeamId);
+    return {
+      teamId,
+      points: standings.find((row) => row.team.id === teamId)?.points ?? 0,
+      colours: games.map((fixture): Colour => (fixture.homeTeamId === teamId ? 'WHITE' : 'BLACK')),
+      opponents: games.map((fixture) => (fixture.homeTeamId === teamId ? fixture.awayTeamId! : fixture.homeTeamId!)),
+      hadBye: played.length > games.length,
+    };
+  });
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { fromWallClock, isSameDay, minutesOfDayAt, parseDay, startOfDay, toWallClock } from './timeUtils';
+import { parseKickoff } from './workbookUtils';
+
+describe('wall clock times', () => {
+  it('reads a time in the zone, whatever zone the server runs in', () => {
+    const kickoff = fromWallClock({ year: 2024, month: 11, day: 16, minutes: 9 * 60 }, 'Africa/Nairobi');
+    expect(kickoff.toISOString()).toBe('2024-12-16T06:00:00.000Z');
+    expect(toWallClock(kickoff, 'Africa/Nairobi')).toEqual({ year: 2024, month: 11, day: 16, minutes: 540 });
+    expect(minutesOfDayAt(kickoff, 'UTC')).toBe(360);
+  });
+
+  it('follows daylight saving changes', () => {
+    expect(fromWallClock({ year: 2024, month: 6, day: 1, minutes: 600 }, 'Europe/London').toISOString()).toBe('2024-07-01T09:00:00.000Z');
+    expect(fromWallClock({ year: 2024, month: 0, day: 1, minutes: 600 }, 'Europe/London').toISOString()).toBe('2024-01-01T10:00:00.000Z');
+  });
+
+  it('overflows days into the next month', () => {
+    expect(fromWallClock({ year: 2024, month: 11, day: 32, minutes: 0 }, 'UTC').toISOString()).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('finds the start of a day and compares days in the zone', () => {
+    const lateEvening = new Date('2024-12-16T22:30:00Z');
+    expect(startOfDay(lateEvening, 0, 'Africa/Nairobi').toISOString()).toBe('2024-12-16T21:00:00.000Z');
+    expect(startOfDay(lateEvening, 1, 'Africa/Nairobi').toISOString()).toBe('2024-12-17T21:00:00.000Z');
+    expect(isSameDay(lateEvening, new Date('2024-12-16T20:00:00Z'), 'Africa/Nairobi')).toBe(false);
+    expect(isSameDay(lateEvening, new Date('2024-12-16T20:00:00Z'), 'UTC')).toBe(true);
+  });
+
+  it('parses only real days', () => {
+    expect(parseDay('2024-12-16', 'Africa/Nairobi')?.toISOString()).toBe('2024-12-15T21:00:00.000Z');
+    expect(parseDay('2024-02-30', 'UTC')).toBeNull();
+    expect(parseDay('16/12/2024', 'UTC')).toBeNull();
+  });
+});
+
+describe('parseKickoff', () => {
+  const start = new Date('2024-12-14T00:00:00Z');
+
+  it('reads workbook kickoffs in the app time zone', () => {
+    process.env.TIME_ZONE = 'Africa/Nairobi';
+    expect(parseKickoff('16TH DEC', '9.00 AM', start)?.toISOString()).toBe('2024-12-16T06:00:00.000Z');
+    expect(parseKickoff('2ND JAN', '1O.30 PM', start)?.toISOString()).toBe('2025-01-02T19:30:00.000Z');
+    delete process.env.TIME_ZONE;
+  });
+});
@@ -0,0 +1,93 @@
+// A calendar day and time as read off a clock in the app's time zone.
+// Months count from 0 like Date's; days and minutes may overflow into the
+// next day or month, as with Date.UTC.
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  minutes: number;
+}
+
+export const DAY_MINUTES = 24 * 60;
+
+/**
+ * The zone that kickoffs, schedule days and opening hours are read and
+ * printed in, so the server's own zone never matters. TIME_ZONE takes an IANA
+ * name such as "Africa/Nairobi".
+ */
+export function getTimeZone(): string {
+  return process.env.TIME_ZONE || 'Africa/Nairobi';
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+export function toWallClock(date: Date, timeZone = getTimeZone()): WallClock {
+  const parts = Object.fromEntries(
+    formatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return { year: parts.year, month: parts.month - 1, day: parts.day, minutes: parts.hour * 60 + parts.minute };
+}
+
+/**
+ * The moment a clock in the zone shows the given time. The zone's offset is
+ * read at a first guess and again at the result, which settles it across a
+ * daylight-saving change.
+ */
+export function fromWallClock({ year, month, day, minutes }: WallClock, timeZone = getTimeZone()): Date {
+  const asUtc = Date.UTC(year, month, day, 0, minutes);
+  const offset = (moment: number) => {
+    const clock = toWallClock(new Date(moment), timeZone);
+    return Date.UTC(clock.year, clock.month, clock.day, 0, clock.minutes) - Math.floor(moment / 60000) * 60000;
+  };
+  const guess = asUtc - offset(asUtc);
+  return new Date(asUtc - offset(guess));
+}
+
+// Minutes past midnight in the zone, e.g. 570 for 09:30
+export function minutesOfDayAt(date: Date, timeZone = getTimeZone()): number {
+  return toWallClock(date, timeZone).minutes;
+}
+
+export function isSameDay(a: Date, b: Date, timeZone = getTimeZone()): boolean {
+  const [first, second] = [toWallClock(a, timeZone), toWallClock(b, timeZone)];
+  return first.year === second.year && first.month === second.month && first.day === second.day;
+}
+
+// The start of the day `days` after the one `date` falls on
+export function startOfDay(date: Date, days = 0, timeZone = getTimeZone()): Date {
+  const clock = toWallClock(date, timeZone);
+  return fromWallClock({ ...clock, day: clock.day + days, minutes: 0 }, timeZone);
+}
+
+// The start of a day written as 2024-12-16, or null when it is not one
+export function parseDay(text: string, timeZone = getTimeZone()): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const check = new Date(Date.UTC(year, month, day));
+  if (check.getUTCMonth() !== month || check.getUTCDate() !== day) {
+    return null;
+  }
+  return fromWallClock({ year, month, day, minutes: 0 }, timeZone);
+}
@@ -0,0 +1,112 @@
+import { GameStatus, MatchEventType, ScoringFormat, TeamSide } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { ScoringRules } from './scoringUtils';
+import { MatchEventInput, scoreTimeline, validateMatchEvent } from './timelineUtils';
+
+const rules = (name: string, scoringFormat: ScoringFormat, periodCount: number): ScoringRules => ({
+  name,
+  scoringFormat,
+  periodCount,
+  setPoints: 25,
+  decidingSetPoints: 15,
+  setWinMargin: 2,
+});
+
+const football = rules('Football', ScoringFormat.PERIODS, 2);
+const basketball = rules('Basketball', ScoringFormat.TOTAL, 4);
+const rugby = rules('Rugby Sevens', ScoringFormat.RUGBY, 2);
+const volleyball = rules('Volleyball', ScoringFormat.SETS, 5);
+
+const { GOAL, OWN_GOAL, POINT, TRY, CONVERSION, YELLOW_CARD, SUBSTITUTION } = MatchEventType;
+const { HOME, AWAY } = TeamSide;
+
+function event(type: MatchEventType, side: TeamSide, fields: Partial<MatchEventInput> = {}): MatchEventInput {
+  return {
+    type,
+    side,
+    period: 1,
+    minute: null,
+    player: null,
+    playerNumber: null,
+    athleteId: null,
+    relatedPlayer: null,
+    points: null,
+    note: null,
+    ...fields,
+  };
+}
+
+describe('validateMatchEvent', () => {
+  it('accepts the events the sport uses', () => {
+    expect(validateMatchEvent(football, event(GOAL, HOME, { minute: 12, playerNumber: 9 }))).toBeNull();
+    expect(validateMatchEvent(football, event(YELLOW_CARD, AWAY))).toBeNull();
+  });
+
+  it('rejects events the sport does not use', () => {
+    expect(validateMatchEvent(football, event(TRY, HOME))).toBe('Football does not use TRY events');
+    expect(validateMatchEvent(football, event('KICK' as MatchEventType, HOME))).toMatch(/^type must be one of/);
+    expect(validateMatchEvent(football, event(GOAL, 'LEFT' as TeamSide))).toBe('side must be HOME or AWAY');
+  });
+
+  it('checks numbers are whole', () => {
+    expect(validateMatchEvent(football, event(GOAL, HOME, { period: 0 }))).toBe('period must be 1 or more');
+    expect(validateMatchEvent(football, event(GOAL, HOME, { minute: NaN }))).toBe('minute cannot be negative');
+    expect(validateMatchEvent(football, event(GOAL, HOME, { playerNumber: NaN }))).toBe('playerNumber must be a whole number');
+    expect(validateMatchEvent(football, event(GOAL, HOME, { playerNumber: 7.5 }))).toBe('playerNumber must be a whole number');
+  });
+
+  it('needs a period when the sport is scored by period', () => {
+    expect(validateMatchEvent(football, event(GOAL, HOME, { period: null }))).toMatch(/need the period/);
+    expect(validateMatchEvent(basketball, event(GOAL, HOME, { period: null, points: 3 }))).toBeNull();
+  });
+
+  it('only lets goals carry 1 to 3 points', () => {
+    expect(validateMatchEvent(basketball, event(GOAL, HOME, { points: 4 }))).toMatch(/from 1 to 3/);
+    expect(validateMatchEvent(basketball, event(OWN_GOAL, HOME, { points: 2 }))).toMatch(/from 1 to 3/);
+  });
+
+  it('needs both players of a substitution', () => {
+    expect(validateMatchEvent(football, event(SUBSTITUTION, HOME, { player: 'A' }))).toMatch(/player coming on/);
+  });
+});
+
+describe('scoreTimeline', () => {
+  it('scores by period and lists the scorers, own goals for the other side', () => {
+    const events = [
+      event(GOAL, HOME, { player: 'Otieno', minute: 12 }),
+      event(OWN_GOAL, HOME, { player: 'Mwangi', minute: 30 }),
+      event(YELLOW_CARD, AWAY, { player: 'Kamau' }),
+      event(GOAL, HOME, { period: 2, player: 'Otieno' }),
+    ];
+    expect(scoreTimeline(football, events, GameStatus.FINISHED)).toMatchObject({
+      error: null,
+      homeScore: 2,
+      awayScore: 1,
+      periods: [
+        { number: 1, homeScore: 1, awayScore: 1 },
+        { number: 2, homeScore: 1, awayScore: 0 },
+      ],
+      homeScorers: ["Otieno 12'", 'Otieno'],
+      awayScorers: ["Mwangi 30' (OG)"],
+    });
+  });
+
+  it('adds up points when only the total is kept', () => {
+    const events = [event(GOAL, HOME, { points: 3 }), event(GOAL, AWAY, { points: 2 }), event(GOAL, HOME)];
+    expect(scoreTimeline(basketball, events, GameStatus.IN_PROGRESS)).toMatchObject({ homeScore: 4, awayScore: 2, periods: [] });
+  });
+
+  it('scores rugby from its scoring actions', () => {
+    const events = [event(TRY, HOME), event(CONVERSION, HOME), event(TRY, AWAY, { period: 2 })];
+    expect(scoreTimeline(rugby, events, GameStatus.FINISHED)).toMatchObject({ homeScore: 7, awayScore: 5 });
+  });
+
+  it('refuses a timeline that gives an impossible score', () => {
+    const points = (home: number, away: number) => [
+      ...Array.from({ length: home }, () => event(POINT, HOME)),
+      ...Array.from({ length: away }, () => event(POINT, AWAY)),
+    ];
+    expect(scoreTimeline(volleyball, points(25, 20), GameStatus.IN_PROGRESS)).toMatchObject({ homeScore: 1, awayScore: 0 });
+    expect(scoreTimeline(volleyball, points(27, 20), GameStatus.IN_PROGRESS).error).toMatch(/not a valid set score/);
+  });
+});
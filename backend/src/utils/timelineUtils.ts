@@ -0,0 +1,150 @@
+import { GameStatus, MatchEvent, MatchEventType, ScoringFormat, TeamSide } from '@prisma/client';
+import { PeriodScore, scoreResult, ScoringRules } from './scoringUtils';
+
+export type MatchEventInput = Pick<
+  MatchEvent,
+  'type' | 'side' | 'period' | 'minute' | 'player' | 'playerNumber' | 'athleteId' | 'relatedPlayer' | 'points' | 'note'
+>;
+
+export type TimelineScore =
+  | { error: string }
+  | {
+      error: null;
+      homeScore: number;
+      awayScore: number;
+      periods: PeriodScore[];
+      homeScorers: string[];
+      awayScorers: string[];
+    };
+
+const { GOAL, OWN_GOAL, POINT, TRY, CONVERSION, PENALTY_GOAL, DROP_GOAL } = MatchEventType;
+
+// Events that change the score, by how the sport is scored
+const scoringEvents: Record<ScoringFormat, MatchEventType[]> = {
+  TOTAL: [GOAL, OWN_GOAL, PENALTY_GOAL],
+  PERIODS: [GOAL, OWN_GOAL, PENALTY_GOAL],
+  SETS: [POINT],
+  RUGBY: [TRY, CONVERSION, PENALTY_GOAL, DROP_GOAL],
+  // Chess is scored game by game on the boards
+  BOARDS: [],
+};
+
+const otherEvents: MatchEventType[] = [
+  MatchEventType.YELLOW_CARD,
+  MatchEventType.RED_CARD,
+  MatchEventType.GREEN_CARD,
+  MatchEventType.TECHNICAL_FOUL,
+  MatchEventType.SIN_BIN,
+  MatchEventType.SUBSTITUTION,
+  MatchEventType.TIMEOUT,
+];
+
+const rugbyCounts: Partial<Record<MatchEventType, string>> = {
+  TRY: 'Tries',
+  CONVERSION: 'Conversions',
+  PENALTY_GOAL: 'PenaltyGoals',
+  DROP_GOAL: 'DropGoals',
+};
+
+export function isScoringEvent(rules: ScoringRules, type: MatchEventType): boolean {
+  return scoringEvents[rules.scoringFormat].includes(type);
+}
+
+// Own goals count for the other side
+function scoringSide(event: MatchEventInput): TeamSide {
+  if (event.type !== OWN_GOAL) {
+    return event.side;
+  }
+  return event.side === TeamSide.HOME ? TeamSide.AWAY : TeamSide.HOME;
+}
+
+/**
+ * Checks an event against the sport: its type must be one the sport uses, it
+ * needs a period when the sport is scored by period, and only goals may carry
+ * points (1 to 3, for basketball). Returns an error message, or null when
+ * valid.
+ */
+export function validateMatchEvent(rules: ScoringRules, event: MatchEventInput): string | null {
+  if (!Object.values(MatchEventType).includes(event.type)) {
+    return `type must be one of ${Object.values(MatchEventType).join(', ')}`;
+  }
+  if (!Object.values(TeamSide).includes(event.side)) {
+    return 'side must be HOME or AWAY';
+  }
+  if (!isScoringEvent(rules, event.type) && !otherEvents.includes(event.type)) {
+    return `${rules.name} does not use ${event.type} events`;
+  }
+  if (event.period !== null && (!Number.isInteger(event.period) || event.period < 1)) {
+    return 'period must be 1 or more';
+  }
+  if (event.minute !== null && (!Number.isInteger(event.minute) || event.minute < 0)) {
+    return 'minute cannot be negative';
+  }
+  if (event.playerNumber !== null && (!Number.isInteger(event.playerNumber) || event.playerNumber < 0)) {
+    return 'playerNumber must be a whole number';
+  }
+  if (rules.scoringFormat !== ScoringFormat.TOTAL && isScoringEvent(rules, event.type) && event.period === null) {
+    return `${rules.name} scoring events need the period they happened in`;
+  }
+  if (event.points !== null && (event.type !== GOAL || !Number.isInteger(event.points) || event.points < 1 || event.points > 3)) {
+    return 'Only goals can carry points, from 1 to 3';
+  }
+  if (event.type === MatchEventType.SUBSTITUTION && (!event.player || !event.relatedPlayer)) {
+    return 'A substitution needs the player coming on (player) and going off (relatedPlayer)';
+  }
+  return null;
+}
+
+/**
+ * Works out the score from a fixture's timeline. Scoring events are totalled
+ * per period and validated like a period-by-period result, so a timeline
+ * cannot produce an impossible score (e.g. a point in a set after the match
+ * was won). Also lists each side's scorers, with the minute when known.
+ */
+export function scoreTimeline(rules: ScoringRules, events: MatchEventInput[], status: GameStatus): TimelineScore {
+  const scorers: Record<TeamSide, string[]> = { HOME: [], AWAY: [] };
+  const scoring = events.filter((event) => isScoringEvent(rules, event.type));
+
+  for (const event of scoring) {
+    if (event.player && event.type !== POINT) {
+      const minute = event.minute !== null ? ` ${event.minute}'` : '';
+      const ownGoal = event.type === OWN_GOAL ? ' (OG)' : '';
+      scorers[scoringSide(event)].push(`${event.player}${minute}${ownGoal}`);
+    }
+  }
+
+  if (rules.scoringFormat === ScoringFormat.TOTAL) {
+    const total = (side: TeamSide) =>
+      scoring.filter((event) => scoringSide(event) === side).reduce((sum, event) => sum + (event.points ?? 1), 0);
+    return {
+      error: null,
+      homeScore: total(TeamSide.HOME),
+      awayScore: total(TeamSide.AWAY),
+      periods: [],
+      homeScorers: scorers.HOME,
+      awayScorers: scorers.AWAY,
+    };
+  }
+
+  const periodCount = Math.max(0, ...scoring.map((event) => event.period ?? 0));
+  // Rugby periods are scored from their counts of each scoring action
+  const periods = Array.from({ length: periodCount }, (): Record<string, number> =>
+    rules.scoringFormat === ScoringFormat.RUGBY ? {} : { homeScore: 0, awayScore: 0 }
+  );
+  for (const event of scoring) {
+    const period = periods[event.period! - 1];
+    const side = scoringSide(event) === TeamSide.HOME ? 'home' : 'away';
+    if (rules.scoringFormat === ScoringFormat.RUGBY) {
+      const key = `${side}${rugbyCounts[event.type]}`;
+      period[key] = (period[key] ?? 0) + 1;
+    } else {
+      period[`${side}Score`] += event.points ?? 1;
+    }
+  }
+
+  const outcome = scoreResult(rules, periods, status);
+  if (outcome.error !== null) {
+    return outcome;
+  }
+  return { ...outcome, homeScorers: scorers.HOME, awayScorers: scorers.AWAY };
+}
@@ -0,0 +1,51 @@
+import { University } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+const STOP_WORDS = new Set(['OF', 'AND', 'THE', 'FOR', '&']);
+
+export type UniversityIndex = Map<string, University[]>;
+
+export function normalize(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function acronym(name: string): string {
+  return name
+    .toUpperCase()
+    .split(/\s+/)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map((word) => word[0])
+    .join('');
+}
+
+/**
+ * Indexes every university by its normalized full name, its acronym (e.g.
+ * "JKUAT") and the names of its teams, so free-text names from fixtures and
+ * spreadsheets can be matched to a university.
+ */
+export async function buildUniversityIndex(): Promise<UniversityIndex> {
+  const universities = await prisma.university.findMany({ include: { teams: true } });
+  const index: UniversityIndex = new Map();
+
+  const add = (key: string, university: University) => {
+    const matches = index.get(key) ?? [];
+    if (!matches.some((match) => match.id === university.id)) {
+      index.set(key, [...matches, university]);
+    }
+  };
+
+  for (const { teams, ...university } of universities) {
+    add(normalize(university.name), university);
+    add(acronym(university.name), university);
+    for (const team of teams) {
+      add(normalize(team.name), university);
+    }
+  }
+  return index;
+}
+
+// Returns every university a name could refer to; more than one means the
+// name is ambiguous
+export function findUniversities(index: UniversityIndex, name: string): University[] {
+  return index.get(normalize(name)) ?? [];
+}
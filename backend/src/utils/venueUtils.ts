@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client';
+import { DAY_MINUTES, isSameDay, minutesOfDayAt } from './timeUtils';
+
+export const venueAvailabilityInclude = {
+  sports: { select: { id: true } },
+  unavailability: true,
+  parent: { include: { sports: { select: { id: true } }, unavailability: true } },
+  areas: { include: { unavailability: true } },
+} satisfies Prisma.VenueInclude;
+
+export type VenueWithAvailability = Prisma.VenueGetPayload<{ include: typeof venueAvailabilityInclude }>;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && TIME_OF_DAY.test(value);
+}
+
+function minutesOfDay(value: string): number {
+  const [, hours, minutes] = value.match(TIME_OF_DAY)!;
+  return parseInt(hours) * 60 + parseInt(minutes);
+}
+
+/**
+ * IDs of the venues a booking of this venue blocks: itself, the whole venue
+ * it is part of, and its own sub-areas. Court 1 and Court 2 of the same hall
+ * do not block each other.
+ */
+export function venueFamily(venue: VenueWithAvailability): string[] {
+  return [venue.id, ...(venue.parentId ? [venue.parentId] : []), ...venue.areas.map((area) => area.id)];
+}
+
+// A venue without its own list of sports accepts its parent's, or any sport
+export function venueSupportsSport(venue: VenueWithAvailability, sportId: string): boolean {
+  const sports = venue.sports.length ? venue.sports : venue.parent?.sports ?? [];
+  return !sports.length || sports.some((sport) => sport.id === sportId);
+}
+
+/**
+ * Explains why a venue cannot host a match from start to end: it is outside
+ * the opening hours (its own, or its parent's), or overlaps an unavailable
+ * window of the venue, its parent or one of its areas. Returns no reasons
+ * when the venue is free.
+ */
+export function checkVenueAvailability(venue: VenueWithAvailability, start: Date, end: Date): string[] {
+  const reasons: string[] = [];
+
+  const opensAt = venue.opensAt ?? venue.parent?.opensAt;
+  const closesAt = venue.closesAt ?? venue.parent?.closesAt;
+  if (opensAt && closesAt) {
+    const startMinutes = minutesOfDayAt(start);
+    const endMinutes = isSameDay(start, end) ? minutesOfDayAt(end) : DAY_MINUTES;
+    if (startMinutes < minutesOfDay(opensAt) || endMinutes > minutesOfDay(closesAt)) {
+      reasons.push(`${venue.name} is only open from ${opensAt} to ${closesAt}`);
+    }
+  }
+
+  const windows = [
+    ...venue.unavailability,
+    ...(venue.parent?.unavailability ?? []),
+    ...venue.areas.flatMap((area) => area.unavailability),
+  ];
+  for (const window of windows) {
+    if (start < window.endsAt && window.startsAt < end) {
+      const reason = window.reason ? ` (${window.reason})` : '';
+      reasons.push(
+        `${venue.name} is unavailable from ${window.startsAt.toISOString()} to ${window.endsAt.toISOString()}${reason}`
+      );
+    }
+  }
+
+  return reasons;
+}
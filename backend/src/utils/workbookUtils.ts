@@ -0,0 +1,305 @@
+import ExcelJS from 'exceljs';
+import { Gender } from '@prisma/client';
+import { fromWallClock, toWallClock } from './timeUtils';
+
+export interface WorkbookIssue {
+  sheet: string;
+  row?: number;
+  message: string;
+}
+
+export interface WorkbookGroup {
+  // Null for sheets played as a single round robin without named groups
+  name: string | null;
+  teams: string[];
+}
+
+export interface WorkbookFixture {
+  sheet: string;
+  row: number;
+  group: string | null;
+  home: string;
+  away: string;
+  kickoff: Date | null;
+  venue: string | null;
+}
+
+export interface WorkbookSheet {
+  name: string;
+  sport: string | null;
+  gender: Gender | null;
+  groups: WorkbookGroup[];
+  fixtures: WorkbookFixture[];
+}
+
+export interface SheetOverride {
+  sport?: string;
+  gender?: Gender;
+  skip?: boolean;
+}
+
+export interface ParsedWorkbook {
+  sheets: WorkbookSheet[];
+  errors: WorkbookIssue[];
+  warnings: WorkbookIssue[];
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Rows from here on describe the knockout stage, which is seeded from the
+// standings with /api/brackets instead
+const KNOCKOUT_HEADING = /^(QUARTER|SEMI)[\s-]*FINALS?$|^FINALS?$/i;
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('').trim();
+    }
+    if ('result' in value) {
+      return cellText(value.result as ExcelJS.CellValue);
+    }
+    if ('text' in value) {
+      return String(value.text).trim();
+    }
+    return '';
+  }
+  return String(value).trim();
+}
+
+// Team names are quoted and suffixed with the country, e.g. "MOI UNIVERSITY (KEN)"
+export function cleanTeamName(text: string): string {
+  return text
+    .replace(/["“”]/g, '')
+    .replace(/\(\s*[A-Z]{3}\s*\)\s*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isBye(name: string): boolean {
+  return name.toUpperCase() === 'BYE';
+}
+
+export function parseGender(text: string): Gender | null {
+  if (/\b(WOMEN|FEMALE|LADIES|GIRLS)\b/i.test(text)) {
+    return Gender.FEMALE;
+  }
+  if (/\b(MEN|MALE|BOYS)\b/i.test(text)) {
+    return Gender.MALE;
+  }
+  return null;
+}
+
+function parseSportName(text: string): string {
+  return text
+    .split(' - ')[0]
+    .replace(/\b(WOMEN|FEMALE|LADIES|GIRLS|MEN|MALE|BOYS|FIXTURES?)\b/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parses a kickoff from cells such as "16TH DEC" and "9.00 AM", as a time in
+ * the app's time zone. The year is taken from the tournament, rolling over
+ * when the month is earlier than the tournament's start (e.g. a December
+ * tournament running into January).
+ */
+export function parseKickoff(dateValue: ExcelJS.CellValue, timeValue: ExcelJS.CellValue, start: Date): Date | null {
+  let year: number;
+  let month: number;
+  let day: number;
+  if (dateValue instanceof Date) {
+    [year, month, day] = [dateValue.getUTCFullYear(), dateValue.getUTCMonth(), dateValue.getUTCDate()];
+  } else {
+    const match = cellText(dateValue).match(/^(\d{1,2})(?:ST|ND|RD|TH)?\s*([A-Z]{3})/i);
+    month = match ? MONTHS.indexOf(match[2].toUpperCase()) : -1;
+    if (!match || month < 0) {
+      return null;
+    }
+    day = parseInt(match[1]);
+    const opening = toWallClock(start);
+    year = opening.year + (month < opening.month ? 1 : 0);
+  }
+
+  let hours: number;
+  let minutes: number;
+  if (timeValue instanceof Date) {
+    // Excel stores times as a fraction of a day since 1899-12-30 UTC
+    [hours, minutes] = [timeValue.getUTCHours(), timeValue.getUTCMinutes()];
+  } else {
+    // Organisers sometimes type the letter O for a zero, e.g. "1O.30 AM"
+    const text = cellText(timeValue).replace(/O/gi, '0');
+    const match = text.match(/^(\d{1,2})(?:[.:](\d{2}))?\s*(AM|PM)?$/i);
+    if (!match) {
+      return null;
+    }
+    hours = parseInt(match[1]) % 12;
+    minutes = match[2] ? parseInt(match[2]) : 0;
+    if (match[3]?.toUpperCase() === 'PM' || (!match[3] && parseInt(match[1]) === 12)) {
+      hours += 12;
+    }
+  }
+
+  return fromWallClock({ year, month, day, minutes: hours * 60 + minutes });
+}
+
+interface ColumnLayout {
+  group: number | null;
+  time: number | null;
+  date: number | null;
+  venue: number | null;
+}
+
+function findColumn(texts: string[], pattern: RegExp): number | null {
+  const index = texts.findIndex((text) => pattern.test(text));
+  return index >= 0 ? index : null;
+}
+
+/**
+ * Reads one sport and gender category from a sheet laid out like the
+ * organisers' fixture workbook: a title such as "SOCCER - MEN", then one block
+ * per group with the group's teams on the left and its fixtures ("HOME" V
+ * "AWAY") with time, date and venue columns on the right. Blank date and
+ * venue cells repeat the value above them within a group.
+ */
+function parseSheet(
+  worksheet: ExcelJS.Worksheet,
+  start: Date,
+  override: SheetOverride,
+  errors: WorkbookIssue[]
+): WorkbookSheet {
+  const sheet: WorkbookSheet = { name: worksheet.name, sport: null, gender: null, groups: [], fixtures: [] };
+  const fail = (row: number, message: string) => errors.push({ sheet: sheet.name, row, message });
+
+  let title: string | null = null;
+  const layout: ColumnLayout = { group: null, time: null, date: null, venue: null };
+  let group: WorkbookGroup | null = null;
+  let lastDate: ExcelJS.CellValue = null;
+  let lastVenue: string | null = null;
+
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const values = worksheet.getRow(rowNumber).values as ExcelJS.CellValue[];
+    if (!Array.isArray(values)) {
+      continue;
+    }
+    const texts = Array.from(values, cellText);
+    const filled = texts.filter(Boolean);
+    if (!filled.length) {
+      continue;
+    }
+
+    if (filled.some((text) => KNOCKOUT_HEADING.test(text))) {
+      break;
+    }
+
+    const isHeader = texts.some((text) => /^(FIXTURES|TIME)$/i.test(text));
+    if (!isHeader && !group) {
+      title = title ?? filled[0];
+      continue;
+    }
+
+    if (isHeader) {
+      // Headings left blank keep the column of the previous group
+      const groupColumn = findColumn(texts, /^GROUP\s+\S+$/i);
+      layout.group = groupColumn ?? layout.group;
+      layout.time = findColumn(texts, /^TIME$/i) ?? layout.time;
+      layout.date = findColumn(texts, /^DATES?$/i) ?? layout.date ?? (layout.time !== null ? layout.time + 1 : null);
+      layout.venue = findColumn(texts, /^VENUE$/i) ?? layout.venue;
+      const name = groupColumn !== null ? texts[groupColumn].replace(/^GROUP\s+/i, '').toUpperCase() : null;
+      group = { name, teams: [] };
+      sheet.groups.push(group);
+      lastDate = null;
+      lastVenue = null;
+      continue;
+    }
+
+    const currentGroup = group!;
+
+    if (layout.group !== null) {
+      const member = cleanTeamName(texts[layout.group] ?? '');
+      if (member && !isBye(member) && !currentGroup.teams.includes(member)) {
+        currentGroup.teams.push(member);
+      }
+    }
+
+    const versus = texts.findIndex((text, index) => /^VS?\.?$/i.test(text) && texts[index - 1] && texts[index + 1]);
+    if (versus < 0) {
+      continue;
+    }
+
+    const home = cleanTeamName(texts[versus - 1]);
+    const away = cleanTeamName(texts[versus + 1]);
+    if (isBye(home) || isBye(away)) {
+      continue;
+    }
+    for (const team of [home, away]) {
+      if (!currentGroup.teams.includes(team)) {
+        currentGroup.teams.push(team);
+      }
+    }
+
+    const dateValue: ExcelJS.CellValue = layout.date !== null && texts[layout.date] ? values[layout.date] : lastDate;
+    const venue: string | null = (layout.venue !== null && texts[layout.venue]) || lastVenue;
+    const timeValue = layout.time !== null ? values[layout.time] : null;
+    lastDate = dateValue;
+    lastVenue = venue;
+
+    const kickoff = dateValue && timeValue ? parseKickoff(dateValue, timeValue, start) : null;
+    if (!kickoff) {
+      fail(rowNumber, `Missing or unreadable kickoff for ${home} v ${away}`);
+    }
+    if (!venue) {
+      fail(rowNumber, `Missing venue for ${home} v ${away}`);
+    }
+
+    sheet.fixtures.push({ sheet: sheet.name, row: rowNumber, group: currentGroup.name, home, away, kickoff, venue });
+  }
+
+  const heading = title ?? '';
+  sheet.sport = override.sport ?? (parseSportName(heading) || parseSportName(sheet.name) || null);
+  sheet.gender = override.gender ?? parseGender(heading) ?? parseGender(sheet.name);
+  return sheet;
+}
+
+/**
+ * Parses the organisers' groupings and fixtures workbook. Sheets without any
+ * fixtures (such as the individual games listing) are skipped with a warning.
+ * Overrides keyed by sheet name fix up a sheet's sport or gender, or skip it.
+ */
+export async function parseWorkbook(
+  buffer: Buffer,
+  start: Date,
+  overrides: Record<string, SheetOverride> = {}
+): Promise<ParsedWorkbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const result: ParsedWorkbook = { sheets: [], errors: [], warnings: [] };
+  workbook.eachSheet((worksheet) => {
+    const override = overrides[worksheet.name] ?? overrides[worksheet.name.trim()] ?? {};
+    if (override.skip) {
+      result.warnings.push({ sheet: worksheet.name, message: 'Skipped' });
+      return;
+    }
+
+    const sheet = parseSheet(worksheet, start, override, result.errors);
+    if (!sheet.fixtures.length) {
+      result.warnings.push({ sheet: sheet.name, message: 'No fixtures found; sheet skipped' });
+      return;
+    }
+    if (!sheet.sport) {
+      result.errors.push({ sheet: sheet.name, message: 'Could not tell the sport from the sheet title' });
+    }
+    if (!sheet.gender) {
+      result.errors.push({ sheet: sheet.name, message: 'Could not tell the gender category from the sheet title' });
+    }
+    result.sheets.push(sheet);
+  });
+
+  return result;
+}